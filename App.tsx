@@ -1,220 +1,1179 @@
-import React, { useState, useCallback } from 'react';
-import type { ProductConcept, ListingCopy, AppStep, DesignStyle, ProductType } from './types';
-import { generateIdeationPackage, generateDesign, generateFinalAssets } from './services/geminiService';
-import { getPrintifyShop, uploadImageToPrintify, createPrintifyProduct } from './services/printifyService';
-import { SparklesIcon, DownloadIcon, ArrowLeftIcon, SettingsIcon } from './components/icons';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import type { ProductConcept, DesignHistory, DesignVersion, DesignVersionSource, AppStep, DesignStyle, StylePreset, Blueprint, ProductType, DesignItem, FinalizedProduct, ProductMockup, ForgeProject, PrintifyListing, PublishFields, PublishStatus, PrintifyImageUploadResponse, PrintCheck, DesignPlacement, RewritableListingField, ListingRewriteMode, ListingCopy, LocalizedListing, AiTask, AiUsageRecord, Job, JobKind, IdeationMatrix, AgeBand, ConceptOrigin } from './types';
+import { generateIdeationPackage, brainstormConcepts, generateDesign, refineDesign, generateListingCopy, generateReplacementTags, rewriteListingField, generateLocalizedListing, generateMockup, getMockupLabel, DEFAULT_MOCKUP_SHOTS, type BrainstormRequest } from './services/geminiService';
+import { DEFAULT_PLACEMENT, getPrintifyShops, getImageKey, uploadImageToPrintify, createPrintifyProduct, publishPrintifyProduct, getPrintifyProduct, getPublishStatus, updatePrintifyProductPrices } from './services/printifyService';
+import { resolveCatalogProduct, recordVariantCosts, getPrintArea, getPrintAreas, getPlacedPrintArea } from './services/printifyCatalogService';
+import { prepareDesignForPrint, checkPlacements, TARGET_DPI } from './services/imageProcessingService';
+import { getPricingRule, priceVariants } from './services/pricingService';
+import { loadSettings, saveSettings, type AppSettings } from './services/settingsService';
+import { AI_PROVIDERS, AI_TASK_LABELS, configureAi, getModel, onAiUsage, type AiCallOptions } from './services/aiProvider';
+import { configureScheduler, getModelLimit, isAbortError, sleep, DEFAULT_MODEL_LIMIT } from './services/aiScheduler';
+import { enqueueJob, isJobActive, cancelJob, pauseJob, resumeJob, retryJob, cancelProjectJobs, dismissJob, clearFinishedJobs, subscribeJobs, type JobRun, type JobContext } from './services/jobService';
+import { priceUsage, sumUsage, estimateCost, formatCost, type PlannedAiCalls } from './services/costService';
+import { createId } from './services/storageService';
+import { DEFAULT_BLUEPRINT_ID, listBlueprints, resolveBlueprint, saveBlueprint, deleteBlueprint } from './services/blueprintService';
+import { BUILT_IN_STYLES, DEFAULT_STYLE_ID, listCustomStyles, saveStyle, deleteStyle, resolveStyle } from './services/styleService';
+import { validateListingCopy, fixListingCopy, mergeReplacementTags, countMissingTags } from './services/listingValidationService';
+import { screenForRisk, getConceptRiskSubject, getListingRiskSubject, isRiskBlocked, overrideRisk } from './services/trademarkService';
+import { LISTING_LOCALES, getLocaleName } from './services/localeService';
+import { getMatrixCells, isConceptInCell, matchesCellFilter, dedupeConcepts, sortConcepts, matchesScoreFilter, getOverallScore, describeLineage, SCORE_CRITERIA, AGE_BANDS, DEFAULT_CONCEPTS_PER_COMBINATION, MAX_CONCEPTS_PER_COMBINATION, type MatrixCell, type ConceptSort, type ScoreFilter } from './services/ideationService';
+import { fillPlaceholders, getSampleValues, renderPersonalizedDesign } from './services/personalizationService';
+import { createProjectId, listProjects, getProject, saveProject, updateStoredProject, deleteProject, duplicateProject, getActiveProjectId, setActiveProjectId } from './services/projectService';
+import { SparklesIcon, DownloadIcon, ArrowLeftIcon, SettingsIcon, FolderIcon, RefreshIcon } from './components/icons';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { CatalogModal } from './components/CatalogModal';
+import { PricingPanel } from './components/PricingPanel';
+import { MockupGallery } from './components/MockupGallery';
+import { MockupShotPicker } from './components/MockupShotPicker';
+import { OccasionManager } from './components/OccasionManager';
+import { OccasionCalendar } from './components/OccasionCalendar';
+import { StyleManager } from './components/StyleManager';
+import { BlueprintManager } from './components/BlueprintManager';
+import { PlacementEditor } from './components/PlacementEditor';
+import { RiskScreeningPanel } from './components/RiskScreeningPanel';
+import { ConceptScoresPanel } from './components/ConceptScoresPanel';
+import { ListingCopyEditor } from './components/ListingCopyEditor';
+import { LocalizedListings } from './components/LocalizedListings';
+import { CostSummary } from './components/CostSummary';
+import { JobsPanel } from './components/JobsPanel';
+import { PersonalizationEditor, PersonalizedOrderForm } from './components/PersonalizationEditor';
 
 declare const JSZip: any;
 
-interface FinalizedProduct {
-    concept: ProductConcept;
-    designUrl: string;
-    mockups: string[];
-    listingCopy: ListingCopy;
-    productType: ProductType;
-    printifyId?: string;
-}
+// Shows transparency behind designs.
+const CHECKERBOARD_STYLE = { backgroundImage: 'url("data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAABAAAAAQCAYAAAAf8/9hAAAAAXNSR0IArs4c6QAAAC1JREFUOE9jZGBgEGHAD97/p038/w8f/v8ZPigew8+fP/8/f/78/w8f/g8A7pkBFCj/PcoAAAAASUVORK5CYII=")', backgroundRepeat: 'repeat' };
 
-interface DesignItem {
-    concept: ProductConcept;
-    url: string;
-    productType: ProductType;
-}
+// Delay before persisting state changes, so bursts of updates are written once.
+const AUTOSAVE_DELAY_MS = 800;
+
+// Printify pushes to the sales channel asynchronously; check back this often, this many times.
+const PUBLISH_POLL_INTERVAL_MS = 5000;
+const PUBLISH_POLL_ATTEMPTS = 12;
+
+const PUBLISH_STATUS_STYLES: Record<PublishStatus, string> = {
+    draft: 'bg-gray-700/50 border-gray-600 text-gray-300',
+    publishing: 'bg-amber-900/40 border-amber-600 text-amber-300',
+    pending: 'bg-amber-900/40 border-amber-600 text-amber-300',
+    published: 'bg-green-900/50 border-green-600 text-green-400',
+    failed: 'bg-red-900/50 border-red-600 text-red-300',
+};
+
+const formatListingCopy = (copy: ListingCopy): string => {
+    let content = `Title:\n${copy.title}\n\nDescription:\n${copy.description}\n\nVariations:\n${(copy.variations || []).join('\n')}\n\nTags:\n${(copy.tags || []).join(', ')}`;
+    if (copy.personalizationInstructions) {
+        content += `\n\nPersonalization Instructions:\n${copy.personalizationInstructions}\n\nPersonalization Character Limit:\n${copy.personalizationCharLimit}`;
+    }
+    return content;
+};
+
+const formatConcept = (concept: ProductConcept): string => {
+    let content = `Concept:\n${concept.conceptTitle}\n\nSlogan:\n${concept.displayText}\n\nVision:\n${concept.vision}\n\nWhy It Works:\n${concept.whyItWorks}`;
+    if (concept.lineage) {
+        content += `\n\nOrigin:\n${describeLineage(concept.lineage)}`;
+    }
+    const scores = concept.scores;
+    if (scores) {
+        content += `\n\nScores (${getOverallScore(scores).toFixed(1)}/10 overall):\n${SCORE_CRITERIA.map(c => `${c.label}: ${scores[c.key].score}/10. ${scores[c.key].rationale}`).join('\n')}\nAge Band: ${scores.ageBand.band}. ${scores.ageBand.rationale}`;
+    }
+    return content;
+};
+
+const PUBLISH_FIELD_LABELS: Record<keyof PublishFields, string> = {
+    title: 'Title',
+    description: 'Description',
+    images: 'Images',
+    variants: 'Variants',
+    tags: 'Tags',
+};
+
+// The Step 2 filters, in the order a concept's combination is shown.
+const CONCEPT_FILTERS: { key: keyof MatrixCell; label: string }[] = [
+    { key: 'holiday', label: 'Occasion' },
+    { key: 'style', label: 'Style' },
+    { key: 'productType', label: 'Product' },
+];
+
+// Toggle a value in a batch selection, always keeping at least one.
+const toggleValue = <T,>(values: T[], value: T): T[] =>
+    values.includes(value) ? (values.length > 1 ? values.filter(v => v !== value) : values) : [...values, value];
+
+// Project updates made by jobs. They are pure so they apply the same way to the open project
+// and to a stored one the user has since switched away from.
+
+const mapProduct = (project: ForgeProject, conceptId: string, update: (product: FinalizedProduct) => FinalizedProduct): ForgeProject => ({
+    ...project,
+    finalizedProducts: project.finalizedProducts.map(p => p.concept.id === conceptId ? update(p) : p),
+});
+
+const withMockup = (project: ForgeProject, mockupId: string, patch: Partial<ProductMockup>): ForgeProject => ({
+    ...project,
+    finalizedProducts: project.finalizedProducts.map(p =>
+        p.mockups.some(m => m.id === mockupId)
+        ? { ...p, mockups: p.mockups.map(m => m.id === mockupId ? { ...m, ...patch } : m) }
+        : p
+    ),
+});
+
+const withListing = (project: ForgeProject, conceptId: string, shopId: string, patch: Partial<PrintifyListing>): ForgeProject =>
+    mapProduct(project, conceptId, p => ({
+        ...p,
+        printifyListings: (p.printifyListings ?? []).map(l => l.shopId === shopId ? { ...l, ...patch } : l),
+    }));
+
+// Make a version the one carried forward, keeping any selection of this concept in sync.
+const withActiveDesignVersion = (project: ForgeProject, conceptId: string, version: DesignVersion, isNew: boolean): ForgeProject => {
+    const history = project.generatedDesigns[conceptId] ?? { versions: [], activeVersionId: version.id };
+    return {
+        ...project,
+        generatedDesigns: {
+            ...project.generatedDesigns,
+            [conceptId]: {
+                versions: isNew ? [...history.versions, version] : history.versions,
+                activeVersionId: version.id,
+            },
+        },
+        selectedDesigns: project.selectedDesigns.map(d => d.concept.id === conceptId ? { ...d, url: version.url } : d),
+    };
+};
 
 
 const App: React.FC = () => {
     const [step, setStep] = useState<AppStep>('CONFIG');
-    const [isLoading, setIsLoading] = useState(false);
-    const [loadingMessage, setLoadingMessage] = useState('');
+    const [screeningConceptId, setScreeningConceptId] = useState<string | null>(null); // Product whose listing is being screened before publish
+    const [isPackaging, setIsPackaging] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [showSettings, setShowSettings] = useState(false);
+    const [showCostSummary, setShowCostSummary] = useState(false);
+
+    // Project State
+    const [projectId, setProjectId] = useState<string>(() => createProjectId());
+    const [projectName, setProjectName] = useState<string>('');
+    const [projectCreatedAt, setProjectCreatedAt] = useState<number>(() => Date.now());
+    const [showLibrary, setShowLibrary] = useState(false);
+    const [projects, setProjects] = useState<ForgeProject[]>([]);
 
     // Config State
     const [holiday, setHoliday] = useState<string>('Christmas');
-    const [style, setStyle] = useState<DesignStyle>('Minimalist Vector');
+    const [audience, setAudience] = useState<string>(''); // Empty means a general audience
+    const [style, setStyle] = useState<DesignStyle>(DEFAULT_STYLE_ID);
+    const [customStyles, setCustomStyles] = useState<StylePreset[]>([]);
+    const [showStyleManager, setShowStyleManager] = useState(false);
+    const [blueprintId, setBlueprintId] = useState<string>(DEFAULT_BLUEPRINT_ID);
+    const [blueprints, setBlueprints] = useState<Blueprint[]>([]);
+    const [showBlueprintManager, setShowBlueprintManager] = useState(false);
     const [productType, setProductType] = useState<ProductType>('Sweatshirt');
+    const [personalized, setPersonalized] = useState(false);
+    const [matrix, setMatrix] = useState<IdeationMatrix | null>(null); // Null outside batch mode
     const [printifyToken, setPrintifyToken] = useState<string>('');
+    const [settings, setSettings] = useState<AppSettings>(loadSettings);
+    const [catalogProductType, setCatalogProductType] = useState<ProductType | null>(null);
+    const [showOccasionManager, setShowOccasionManager] = useState(false);
+    const [showCalendar, setShowCalendar] = useState(false);
 
     // Ideation State
     const [variations, setVariations] = useState<ProductConcept[]>([]);
     const [selectedVariations, setSelectedVariations] = useState<ProductConcept[]>([]);
+    const [conceptFilter, setConceptFilter] = useState<Partial<MatrixCell>>({});
+    const [scoreFilter, setScoreFilter] = useState<ScoreFilter>({});
+    const [conceptSort, setConceptSort] = useState<ConceptSort>('generated');
+    const [brainstormSteering, setBrainstormSteering] = useState('');
     
     // Design State
-    const [generatedDesigns, setGeneratedDesigns] = useState<Record<string, string>>({}); // Key is conceptTitle, value is image URL
+    const [generatedDesigns, setGeneratedDesigns] = useState<Record<string, DesignHistory>>({}); // Key is concept ID
+    const [refineInstructions, setRefineInstructions] = useState<Record<string, string>>({}); // Key is concept ID
     const [selectedDesigns, setSelectedDesigns] = useState<DesignItem[]>([]);
 
+    // Print Prep State
+    const [preparedDesigns, setPreparedDesigns] = useState<DesignItem[]>([]);
+
     // Finalize State
     const [finalizedProducts, setFinalizedProducts] = useState<FinalizedProduct[]>([]);
+    const [aiUsage, setAiUsage] = useState<AiUsageRecord[]>([]);
     const [successMessage, setSuccessMessage] = useState<string | null>(null);
+    const [jobs, setJobs] = useState<Job[]>([]);
+
 
+    const styles = [...BUILT_IN_STYLES, ...customStyles];
+    const projectSpend = sumUsage(aiUsage).cost;
+    const activeStyle = resolveStyle(style, styles);
+    const activeBlueprint = resolveBlueprint(blueprintId, blueprints);
+    // Outside batch mode the Step 1 selections form a single combination.
+    const activeMatrix = matrix ?? { holidays: [holiday], styles: [style], productTypes: [productType], conceptsPerCombination: DEFAULT_CONCEPTS_PER_COMBINATION };
+
+    // Concepts keep the combination they were ideated for; older ones fall back to the project's.
+    const getConceptStyle = (concept: ProductConcept): StylePreset => resolveStyle(concept.style ?? style, styles);
+    const getConceptCell = (concept: ProductConcept): MatrixCell => ({
+        holiday: concept.holiday ?? holiday,
+        style: concept.style ?? style,
+        productType: concept.productType ?? productType,
+    });
 
     const handleApiError = (error: unknown) => {
         const message = error instanceof Error ? error.message : String(error);
         setError(message);
-        setIsLoading(false);
     };
 
-    const handleForgeConcepts = async () => {
-        setIsLoading(true);
-        setLoadingMessage('Fusing your selections into new concepts...');
+    /**
+     * Ask before a batch that is expected to take the project over its AI budget.
+     */
+    const confirmWithinBudget = (planned: PlannedAiCalls[]): boolean => {
+        if (settings.projectBudget === null) return true;
+        const spent = sumUsage(aiUsage).cost;
+        const estimate = estimateCost(planned, aiUsage, settings.aiPrices);
+        if (spent + estimate <= settings.projectBudget) return true;
+        return window.confirm(`This will cost about ${formatCost(estimate)}, taking the project to ${formatCost(spent + estimate)}: over its ${formatCost(settings.projectBudget)} AI budget. Continue anyway?`);
+    };
+
+    const updateSettings = (patch: Partial<AppSettings>) => {
+        setSettings(prev => {
+            const next = { ...prev, ...patch };
+            saveSettings(next);
+            return next;
+        });
+    };
+
+    const buildProjectSnapshot = (): ForgeProject => ({
+        id: projectId,
+        name: projectName || (matrix
+            ? `${matrix.holidays.join(' & ')} ${audience ? `${audience} ` : ''}batch (${matrix.productTypes.join(', ')})`
+            : `${holiday} ${audience ? `${audience} ` : ''}${productType} (${activeStyle.name})`),
+        createdAt: projectCreatedAt,
+        updatedAt: Date.now(),
+        step,
+        holiday,
+        audience: audience || undefined,
+        style,
+        blueprintId,
+        productType,
+        personalized: personalized || undefined,
+        matrix: matrix ?? undefined,
+        variations,
+        selectedVariations,
+        generatedDesigns,
+        selectedDesigns,
+        preparedDesigns,
+        finalizedProducts,
+        usage: aiUsage,
+    });
+
+    // The open project as of the last render, plus any job results applied since then.
+    const liveProjectRef = useRef<ForgeProject | null>(null);
+    liveProjectRef.current = buildProjectSnapshot();
+
+    // Set a project's fields into the state. Given the project it replaces, only fields that
+    // changed are set, so a job's result never undoes an edit it did not touch. Given the update
+    // that produced it too, collections are updated from their latest state, so edits queued
+    // since the last render (e.g. `setFinalizedProducts(prev => ...)`) are kept.
+    const setProjectState = (project: ForgeProject, previous?: ForgeProject, update?: (project: ForgeProject) => ForgeProject) => {
+        const changed = (key: keyof ForgeProject) => !previous || project[key] !== previous[key];
+        const latest = <K extends keyof ForgeProject>(key: K) => (prev: ForgeProject[K]): ForgeProject[K] =>
+            update ? update({ ...project, [key]: prev })[key] : project[key];
+        if (changed('id')) setProjectId(project.id);
+        if (changed('name')) setProjectName(project.name);
+        if (changed('createdAt')) setProjectCreatedAt(project.createdAt);
+        if (changed('step')) setStep(project.step);
+        if (changed('holiday')) setHoliday(project.holiday);
+        if (changed('audience')) setAudience(project.audience ?? '');
+        if (changed('style')) setStyle(project.style);
+        if (changed('blueprintId')) setBlueprintId(project.blueprintId ?? DEFAULT_BLUEPRINT_ID);
+        if (changed('productType')) setProductType(project.productType);
+        if (changed('personalized')) setPersonalized(!!project.personalized);
+        if (changed('matrix')) setMatrix(project.matrix ?? null);
+        if (changed('variations')) setVariations(latest('variations'));
+        if (changed('selectedVariations')) setSelectedVariations(latest('selectedVariations'));
+        if (changed('generatedDesigns')) setGeneratedDesigns(latest('generatedDesigns'));
+        if (changed('selectedDesigns')) setSelectedDesigns(latest('selectedDesigns'));
+        if (changed('preparedDesigns')) setPreparedDesigns(prev => latest('preparedDesigns')(prev) ?? []);
+        if (changed('finalizedProducts')) setFinalizedProducts(latest('finalizedProducts'));
+        if (changed('usage')) setAiUsage(prev => latest('usage')(prev) ?? []);
+    };
+
+    const applyProject = (project: ForgeProject) => {
+        setProjectState(project);
+        setConceptFilter({});
+        setScoreFilter({});
         setError(null);
+        setSuccessMessage(null);
+        setActiveProjectId(project.id);
+    };
+
+    /**
+     * Apply a change to a project: to the state while it is open, otherwise to its stored copy.
+     * Jobs write their results through this, so they land in the project that started them.
+     */
+    const applyToProject = async (id: string, update: (project: ForgeProject) => ForgeProject) => {
+        const live = liveProjectRef.current!;
+        if (id !== live.id) {
+            await updateStoredProject(id, update);
+            return;
+        }
+        const next = update(live);
+        liveProjectRef.current = next;
+        setProjectState(next, live, update);
+    };
+
+    // The latest copy of a project, for a job that needs more than it captured when it was started.
+    const readProject = async (id: string): Promise<ForgeProject> => {
+        const project = id === liveProjectRef.current!.id ? liveProjectRef.current! : await getProject(id);
+        if (!project) throw new Error('The project was deleted.');
+        return project;
+    };
+
+    const startJob = (kind: JobKind, label: string, run: JobRun) => {
+        const project = liveProjectRef.current!;
+        // Stored up front, so results have somewhere to land if another project is opened meanwhile.
+        saveProject(project).catch(e => console.error("Error saving project:", e));
+        enqueueJob(kind, label, project, run);
+    };
+
+    const isJobRunning = (kind: JobKind): boolean =>
+        jobs.some(job => job.kind === kind && job.projectId === projectId && isJobActive(job));
+
+    useEffect(() => subscribeJobs(setJobs), []);
+
+    // Jobs live in the page, so leaving it would drop them.
+    useEffect(() => {
+        if (!jobs.some(isJobActive)) return;
+        const warn = (e: BeforeUnloadEvent) => e.preventDefault();
+        window.addEventListener('beforeunload', warn);
+        return () => window.removeEventListener('beforeunload', warn);
+    }, [jobs]);
+
+    useEffect(() => {
+        configureAi(settings.ai);
+    }, [settings.ai]);
+
+    useEffect(() => {
+        configureScheduler(settings.modelLimits);
+    }, [settings.modelLimits]);
+
+    useEffect(() => onAiUsage((usage, usageProjectId) => {
+        const record = { ...usage, cost: priceUsage(usage, usage.model, settings.aiPrices) };
+        applyToProject(usageProjectId ?? liveProjectRef.current!.id, p => ({ ...p, usage: [...(p.usage ?? []), record] }))
+            .catch(e => console.error("Error recording AI usage:", e));
+    }), [settings.aiPrices]);
+
+    // Reopen the last active project after a reload.
+    useEffect(() => {
+        const activeId = getActiveProjectId();
+        if (!activeId) return;
+        getProject(activeId)
+            .then(project => { if (project) applyProject(project); })
+            .catch(e => console.error("Error restoring project:", e));
+    }, []);
+
+    useEffect(() => {
+        listCustomStyles()
+            .then(setCustomStyles)
+            .catch(e => console.error("Error loading styles:", e));
+        listBlueprints()
+            .then(setBlueprints)
+            .catch(e => console.error("Error loading blueprints:", e));
+    }, []);
+
+    // Autosave once there is something worth keeping.
+    useEffect(() => {
+        if (variations.length === 0) return;
+        const timer = setTimeout(() => {
+            saveProject(buildProjectSnapshot())
+                .then(() => setActiveProjectId(projectId))
+                .catch(e => console.error("Error saving project:", e));
+        }, AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [projectId, projectName, step, holiday, audience, style, blueprintId, productType, personalized, matrix, variations, selectedVariations, generatedDesigns, selectedDesigns, preparedDesigns, finalizedProducts, aiUsage]);
+
+    const refreshProjects = async () => {
+        try {
+            setProjects(await listProjects());
+        } catch (e) {
+            handleApiError(e);
+        }
+    };
+
+    // Store the open project before switching away, so jobs still running for it build on its latest state.
+    const saveOpenProject = async () => {
+        if (variations.length === 0) return;
+        await saveProject(liveProjectRef.current!).catch(e => console.error("Error saving project:", e));
+    };
+
+    const handleOpenLibrary = async () => {
+        await saveOpenProject();
+        await refreshProjects();
+        setShowLibrary(true);
+    };
+
+    const handleOpenProject = async (id: string) => {
+        try {
+            await saveOpenProject();
+            // Read fresh, since jobs may have written to it since it was listed.
+            const project = await getProject(id);
+            if (!project) throw new Error('That project has been deleted.');
+            applyProject(project);
+            setShowLibrary(false);
+        } catch (e) {
+            handleApiError(e);
+        }
+    };
+
+    const handleNewProject = async () => {
+        await saveOpenProject();
+        resetProcess();
+        setShowLibrary(false);
+    };
+
+    const handleDuplicateProject = async (project: ForgeProject) => {
+        try {
+            await duplicateProject(project.id);
+            await refreshProjects();
+        } catch (e) {
+            handleApiError(e);
+        }
+    };
+
+    const handleDeleteProject = async (project: ForgeProject) => {
+        if (!window.confirm(`Delete "${project.name}"? Its designs and mockups will be lost.`)) return;
+        try {
+            cancelProjectJobs(project.id);
+            await deleteProject(project.id);
+            if (project.id === projectId) resetProcess();
+            await refreshProjects();
+        } catch (e) {
+            handleApiError(e);
+        }
+    };
+
+    const handleRenameProject = async (project: ForgeProject, name: string) => {
         try {
-            const concepts = await generateIdeationPackage(holiday, style, productType);
-            setVariations(concepts);
-            setSelectedVariations([]);
-            setStep('IDEATION');
+            await saveProject({ ...project, name });
+            if (project.id === projectId) setProjectName(name);
+            await refreshProjects();
         } catch (e) {
             handleApiError(e);
-        } finally {
-            setIsLoading(false);
         }
     };
+
+    const screenConcepts = async (concepts: ProductConcept[], blocklist: string[], options: AiCallOptions): Promise<ProductConcept[]> => {
+        const screenings = await screenForRisk(Object.fromEntries(concepts.map(c => [c.id, getConceptRiskSubject(c)])), blocklist, options);
+        return concepts.map(c => ({ ...c, riskScreening: screenings[c.id] }));
+    };
+
+    const handleForgeConcepts = () => {
+        const cells = getMatrixCells(activeMatrix);
+        const count = activeMatrix.conceptsPerCombination;
+        // Typical ideation usage is for three concepts.
+        if (!confirmWithinBudget([{ task: 'ideation', count: cells.length * count / DEFAULT_CONCEPTS_PER_COMBINATION }, { task: 'risk', count: cells.length }])) return;
+        const id = projectId;
+        const inputs = { styles, blueprint: activeBlueprint, audience: audience || undefined, personalized, blocklist: settings.trademarkBlocklist };
+        setError(null);
+        setConceptFilter({});
+        setScoreFilter({});
+
+        // The first combination to land replaces the previous concepts; later ones and retries add to them.
+        let isFirst = true;
+        const label = cells.length === 1
+            ? `Concepts for ${holiday}${inputs.audience ? ` (${inputs.audience})` : ''}`
+            : `${cells.length} combinations × ${count} concepts`;
+        startJob('ideation', label, async ({ signal, runEach }) => {
+            const options = { signal, projectId: id };
+            const project = await readProject(id);
+            const pending = isFirst ? cells : cells.filter(cell => !project.variations.some(c => isConceptInCell(c, cell)));
+            try {
+                await runEach(pending, getModelLimit(getModel('ideation', settings.ai)).concurrency, async (cell: MatrixCell) => {
+                    const cellStyle = resolveStyle(cell.style, inputs.styles);
+                    const concepts = await generateIdeationPackage(cell.holiday, cellStyle, cell.productType, inputs.blueprint, inputs.audience, inputs.personalized, count, options);
+                    const screened = await screenConcepts(concepts, inputs.blocklist, options);
+                    const replace = isFirst;
+                    isFirst = false;
+                    // Combinations often land on the same slogans, so repeats across the matrix are dropped.
+                    await applyToProject(id, p => ({
+                        ...p,
+                        variations: [...(replace ? [] : p.variations), ...dedupeConcepts(replace ? [] : p.variations, screened)],
+                        selectedVariations: replace ? [] : p.selectedVariations,
+                    }));
+                });
+            } finally {
+                // Move on to the concepts unless the user has gone elsewhere meanwhile.
+                await applyToProject(id, p => p.step === 'CONFIG' && !isFirst ? { ...p, step: 'IDEATION' } : p);
+            }
+        });
+    };
     
+    /**
+     * Brainstorm new concepts from earlier ones and add them to the list. Steering text, when
+     * given, shapes every kind of round.
+     */
+    const handleBrainstorm = (kind: ConceptOrigin, parents: ProductConcept[]) => {
+        const steering = brainstormSteering.trim() || undefined;
+        if (kind === 'steer' && !steering) return;
+        if (!confirmWithinBudget([{ task: 'ideation', count: 1 }, { task: 'risk', count: 1 }])) return;
+        const id = projectId;
+        // New concepts belong to the combination of the concept they grew from.
+        const cell = parents.length > 0 ? getConceptCell(parents[0]) : { holiday, style, productType };
+        const request: BrainstormRequest = {
+            kind,
+            parents,
+            existing: variations,
+            steering,
+            holiday: cell.holiday,
+            style: resolveStyle(cell.style, styles),
+            productType: cell.productType,
+        };
+        const inputs = { blueprint: activeBlueprint, audience: audience || undefined, personalized, blocklist: settings.trademarkBlocklist };
+        setError(null);
+
+        const label = describeLineage({ kind, parents: parents.map(p => ({ id: p.id, title: p.conceptTitle })), steering });
+        startJob('ideation', label, async ({ signal }) => {
+            const options = { signal, projectId: id };
+            const concepts = await brainstormConcepts(request, inputs.blueprint, inputs.audience, inputs.personalized, DEFAULT_CONCEPTS_PER_COMBINATION, options);
+            const added = dedupeConcepts((await readProject(id)).variations, concepts);
+            if (added.length === 0) throw new Error('Every new concept repeated an existing one. Try again, or steer it somewhere new.');
+            const screened = await screenConcepts(added, inputs.blocklist, options);
+            await applyToProject(id, p => ({ ...p, variations: [...p.variations, ...dedupeConcepts(p.variations, screened)] }));
+        });
+    };
+
     const handleToggleVariationSelection = (concept: ProductConcept) => {
+        if (isRiskBlocked(concept.riskScreening)) return;
         setSelectedVariations(prev =>
-            prev.some(c => c.conceptTitle === concept.conceptTitle)
-                ? prev.filter(c => c.conceptTitle !== concept.conceptTitle)
+            prev.some(c => c.id === concept.id)
+                ? prev.filter(c => c.id !== concept.id)
                 : [...prev, concept]
         );
     };
 
-    const handleForgeDesigns = async () => {
+    const handleSelectConcepts = (concepts: ProductConcept[]) => {
+        setSelectedVariations(prev => [
+            ...prev,
+            ...concepts.filter(c => !isRiskBlocked(c.riskScreening) && !prev.some(p => p.id === c.id)),
+        ]);
+    };
+
+    const handleForgeDesigns = () => {
         if (selectedVariations.length === 0) return;
-        setIsLoading(true);
-        setLoadingMessage(`Forging ${selectedVariations.length} design(s)...`);
+        if (!confirmWithinBudget([{ task: 'design', count: selectedVariations.length }])) return;
+        const id = projectId;
+        const concepts = selectedVariations;
+        const conceptStyles = new Map<string, StylePreset>(concepts.map(c => [c.id, getConceptStyle(c)]));
+        const startedAt = Date.now();
         setError(null);
-        setGeneratedDesigns({});
-        setSelectedDesigns([]);
 
-        try {
-            const newDesigns: Record<string, string> = {};
-            for (let i = 0; i < selectedVariations.length; i++) {
-                const concept = selectedVariations[i];
-                setLoadingMessage(`Forging design ${i + 1} of ${selectedVariations.length}: "${concept.conceptTitle}"`);
-                const url = await generateDesign(concept, style);
-                newDesigns[concept.conceptTitle] = url;
-
-                // Add a small delay between design generations to avoid hitting API rate limits.
-                if (i < selectedVariations.length - 1) {
-                    await new Promise(resolve => setTimeout(resolve, 1500));
-                }
+        startJob('design', `${concepts.length} ${concepts.length === 1 ? 'design' : 'designs'}`, async ({ signal, runEach }) => {
+            // Designs run in parallel within the scheduler's limits and are stored as they land,
+            // each as a new version so earlier ones stay in the history. A retry only forges
+            // the concepts that have no version from this run yet.
+            const project = await readProject(id);
+            const missing = concepts.filter(c => !project.generatedDesigns[c.id]?.versions.some(v => v.createdAt >= startedAt));
+            try {
+                await runEach(missing, getModelLimit(getModel('design', settings.ai)).concurrency, async (concept: ProductConcept) => {
+                    const version = createDesignVersion(await generateDesign(concept, conceptStyles.get(concept.id)!, { signal, projectId: id }), 'generate');
+                    await applyToProject(id, p => withActiveDesignVersion(p, concept.id, version, true));
+                });
+            } finally {
+                await applyToProject(id, p => p.step === 'IDEATION' && Object.keys(p.generatedDesigns).length > 0 ? { ...p, step: 'DESIGN' } : p);
             }
+        });
+    };
 
-            setGeneratedDesigns(newDesigns);
-            setStep('DESIGN');
-        } catch (e) {
-            handleApiError(e);
-        } finally {
-            setIsLoading(false);
-        }
+    const createDesignVersion = (url: string, source: DesignVersionSource, instruction?: string): DesignVersion => ({
+        id: createId(),
+        url,
+        createdAt: Date.now(),
+        source,
+        instruction,
+    });
+
+    const getActiveDesignUrl = (conceptId: string): string | undefined => {
+        const history = generatedDesigns[conceptId];
+        return history?.versions.find(v => v.id === history.activeVersionId)?.url;
+    };
+
+    const activateDesignVersion = (concept: ProductConcept, version: DesignVersion, isNew: boolean) =>
+        applyToProject(projectId, p => withActiveDesignVersion(p, concept.id, version, isNew));
+
+    const handleRegenerateDesign = (concept: ProductConcept) => {
+        const id = projectId;
+        const designStyle = getConceptStyle(concept);
+        setError(null);
+        startJob('design', `Re-forge "${concept.conceptTitle}"`, async ({ signal }) => {
+            const url = await generateDesign(concept, designStyle, { signal, projectId: id });
+            await applyToProject(id, p => withActiveDesignVersion(p, concept.id, createDesignVersion(url, 'regenerate'), true));
+        });
+    };
+
+    const handleRefineDesign = (concept: ProductConcept) => {
+        const instruction = refineInstructions[concept.id]?.trim();
+        const currentUrl = getActiveDesignUrl(concept.id);
+        if (!instruction || !currentUrl) return;
+        const id = projectId;
+        const designStyle = getConceptStyle(concept);
+        setError(null);
+        // Cleared straight away so the same refinement is not queued twice; the job label keeps it.
+        setRefineInstructions(prev => ({ ...prev, [concept.id]: '' }));
+        startJob('design', `Refine "${concept.conceptTitle}": ${instruction}`, async ({ signal }) => {
+            const url = await refineDesign(currentUrl, concept, designStyle, instruction, { signal, projectId: id });
+            await applyToProject(id, p => withActiveDesignVersion(p, concept.id, createDesignVersion(url, 'refine', instruction), true));
+        });
+    };
+
+    // A concept is copied into several lists; keep it the same in all of them.
+    const updateConcept = (conceptId: string, patch: Partial<ProductConcept>) => {
+        const update = (concept: ProductConcept) => concept.id === conceptId ? { ...concept, ...patch } : concept;
+        setVariations(prev => prev.map(update));
+        setSelectedVariations(prev => prev.map(update));
+        setSelectedDesigns(prev => prev.map(d => ({ ...d, concept: update(d.concept) })));
     };
 
     const handleToggleDesignSelection = (concept: ProductConcept, url: string) => {
         setSelectedDesigns(prev =>
-            prev.some(d => d.url === url)
-                ? prev.filter(d => d.url !== url)
-                : [...prev, { concept, url, productType }]
+            prev.some(d => d.concept.id === concept.id)
+                ? prev.filter(d => d.concept.id !== concept.id)
+                : [...prev, { concept, url, productType: concept.productType ?? productType }]
         );
     };
     
-    const handleProductTypeChangeForDesign = (url: string, newProductType: ProductType) => {
+    const handleProductTypeChangeForDesign = (conceptId: string, newProductType: ProductType) => {
         setSelectedDesigns(prev =>
             prev.map(design =>
-                design.url === url ? { ...design, productType: newProductType } : design
+                design.concept.id === conceptId ? { ...design, productType: newProductType } : design
             )
         );
     };
 
-    const handleForgeAssets = async (singleDesign?: DesignItem) => {
-        const designsToProcess = singleDesign ? [singleDesign] : selectedDesigns;
+    const handlePrepareDesigns = (designs: DesignItem[]) => {
+        if (designs.length === 0) return;
+        const id = projectId;
+        setError(null);
+        startJob('prepare', `Prepare ${designs.length} ${designs.length === 1 ? 'design' : 'designs'} for print`, async ({ runEach }) => {
+            // The designs are listed on their originals straight away, and each is swapped for its
+            // print-ready version as it lands, so one failure leaves the rest prepared.
+            await applyToProject(id, p => ({ ...p, preparedDesigns: designs, step: 'PREPARE' }));
+            await runEach(designs, 1, async (design: DesignItem) => {
+                const printArea = await getPrintArea(printifyToken, design.productType, settings.catalogSelections[design.productType]);
+                const personalization = design.concept.personalization;
+                // Personalized art is printed with the sample text; the text-free art is kept for real orders.
+                const artUrl = personalization ? design.artUrl ?? design.url : undefined;
+                const url = personalization
+                    ? await renderPersonalizedDesign(artUrl!, fillPlaceholders(design.concept.displayText, getSampleValues(personalization)), personalization.textLayer)
+                    : design.url;
+                const prepared: DesignItem = { ...design, url, artUrl, prepared: await prepareDesignForPrint(url, printArea, DEFAULT_PLACEMENT.scale, settings.printPrepOptions) };
+                await applyToProject(id, p => ({
+                    ...p,
+                    preparedDesigns: (p.preparedDesigns ?? []).map(d => d.concept.id === design.concept.id ? prepared : d),
+                }));
+            });
+        });
+    };
+
+    const handleUseOriginalDesign = (conceptId: string) => {
+        setPreparedDesigns(prev => prev.map(d => d.concept.id === conceptId ? { ...d, prepared: undefined } : d));
+    };
+
+    const updateFinalizedProduct = (conceptId: string, patch: Partial<FinalizedProduct>) => {
+        setFinalizedProducts(prev => prev.map(p => p.concept.id === conceptId ? { ...p, ...patch } : p));
+    };
+
+    /**
+     * Re-run each product's print check against its placements on the current print areas.
+     * A result is dropped if the placements changed again while it was being worked out.
+     */
+    const recheckPrint = async (products: FinalizedProduct[], catalogSelections = settings.catalogSelections) => {
+        for (const product of products) {
+            if (!product.printCheck) continue;
+            const { areas } = await getPrintAreas(printifyToken, product.productType, catalogSelections[product.productType]);
+            const placements = product.placements ?? [{ position: areas[0].position, ...DEFAULT_PLACEMENT }];
+            const printCheck = checkPlacements(product.printCheck, areas, placements);
+            setFinalizedProducts(prev => prev.map(p =>
+                p.concept.id === product.concept.id && p.placements === product.placements ? { ...p, printCheck } : p
+            ));
+        }
+    };
+
+    const handlePlacementsChange = (product: FinalizedProduct, placements: DesignPlacement[]) => {
+        updateFinalizedProduct(product.concept.id, { placements });
+        recheckPrint([{ ...product, placements }]).catch(handleApiError);
+    };
+
+    // Renders one mockup and stores it straight away. A failed first render is recorded on the
+    // mockup so the run can resume there; a failed re-roll keeps the previous image.
+    const renderMockup = async (id: string, occasion: string, product: FinalizedProduct, mockup: ProductMockup, signal: AbortSignal) => {
+        try {
+            const url = await generateMockup(product.mockupSourceUrl ?? product.designUrl, product.concept, occasion, product.productType, mockup, { signal, projectId: id });
+            await applyToProject(id, p => withMockup(p, mockup.id, { status: 'done', url, error: undefined }));
+        } catch (e) {
+            if (!mockup.url && !isAbortError(e)) {
+                await applyToProject(id, p => withMockup(p, mockup.id, { status: 'failed', error: e instanceof Error ? e.message : String(e) }));
+            }
+            throw e;
+        }
+    };
+
+    /**
+     * Write any missing listing copy and render every mockup that is not done yet. Work already
+     * stored on the products is skipped, so this both starts and resumes a run.
+     */
+    const startAssetGeneration = (products: FinalizedProduct[]) => {
+        if (products.length === 0) return;
+        if (!confirmWithinBudget([
+            { task: 'listing', count: products.filter(p => !p.listingCopy).length },
+            { task: 'mockup', count: products.reduce((count, p) => count + p.mockups.filter(m => m.status !== 'done').length, 0) },
+        ])) return;
+        const id = projectId;
+        const blueprint = activeBlueprint;
+        const conceptIds = products.map(p => p.concept.id);
+        setError(null);
+
+        startJob('mockup', `Copy & mockups for ${products.length} ${products.length === 1 ? 'product' : 'products'}`, async ({ signal, runEach }) => {
+            // Read the products fresh, so a retry skips everything that has landed since.
+            const project = await readProject(id);
+            const pending = project.finalizedProducts.filter(p => conceptIds.includes(p.concept.id));
+            // Copy and mockups for every product run in parallel within the scheduler's limits.
+            // Each result is stored as it lands, so a failure only costs the calls that failed.
+            const calls = pending.flatMap(product => [
+                ...(product.listingCopy ? [] : [async () => {
+                    const listingCopy = await generateListingCopy(product.concept, blueprint, { signal, projectId: id });
+                    await applyToProject(id, p => mapProduct(p, product.concept.id, current => ({ ...current, listingCopy })));
+                }]),
+                ...product.mockups.filter(m => m.status !== 'done').map(mockup => () => renderMockup(id, product.concept.holiday ?? project.holiday, product, mockup, signal)),
+            ]);
+            const concurrency = getModelLimit(getModel('listing', settings.ai)).concurrency + getModelLimit(getModel('mockup', settings.ai)).concurrency;
+            await runEach(calls, concurrency, call => call());
+        });
+    };
 
+    const handleForgeAssets = async (designsToProcess: DesignItem[]) => {
         if (designsToProcess.length === 0) return;
-        setIsLoading(true);
+
+        // Products are stored up front with every mockup pending, so progress survives a failure.
+        const products: FinalizedProduct[] = designsToProcess.map(design => ({
+            concept: design.concept,
+            designUrl: design.prepared?.printUrl ?? design.url,
+            // Mockups use the cleaned design; the upscaled file is only needed for printing.
+            mockupSourceUrl: design.prepared?.cleanUrl,
+            artUrl: design.artUrl,
+            mockups: (design.mockupShots ?? DEFAULT_MOCKUP_SHOTS).map(shot => ({ ...shot, id: createId(), status: 'pending' as const })),
+            productType: design.productType,
+            printCheck: design.prepared?.check,
+        }));
+        await applyToProject(projectId, p => ({ ...p, finalizedProducts: products, step: 'FINALIZE' }));
+        startAssetGeneration(products);
+    };
+
+    const handleResumeAssets = () =>
+        startAssetGeneration(finalizedProducts.filter(p => !p.listingCopy || p.mockups.some(m => m.status !== 'done')));
+
+    // Render one buyer's personalization onto the text-free art and download it as a print file.
+    const handleDownloadPersonalizedOrder = (product: FinalizedProduct, values: Record<string, string>) => {
+        const personalization = product.concept.personalization;
+        if (!personalization || !product.artUrl) return;
         setError(null);
-        setFinalizedProducts([]); // Start fresh for this batch
-        
-        const allFinalAssets: FinalizedProduct[] = [];
+        startJob('prepare', `Print file for "${product.concept.conceptTitle}"`, async () => {
+            const text = fillPlaceholders(product.concept.displayText, values);
+            const url = await renderPersonalizedDesign(product.artUrl!, text, personalization.textLayer);
+            const { printArea, scale } = await getPlacedPrintArea(printifyToken, product.productType, settings.catalogSelections[product.productType], product.placements);
+            const result = await prepareDesignForPrint(url, printArea, scale, settings.printPrepOptions);
+            const link = document.createElement("a");
+            link.href = result.printUrl;
+            link.download = `${product.concept.conceptTitle.replace(/[^a-zA-Z0-9]/g, '-')}-${text.replace(/[^a-zA-Z0-9]/g, '-')}.png`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+        });
+    };
 
-        try {
-            for (let i = 0; i < designsToProcess.length; i++) {
-                const design = designsToProcess[i];
-                const overallProgress = `Processing Design ${i + 1} of ${designsToProcess.length}: "${design.concept.conceptTitle}"`;
-                setLoadingMessage(overallProgress);
-
-                const { mockups: finalMockups, listingCopy: finalCopy } = await generateFinalAssets(
-                    design.url,
-                    design.concept,
-                    holiday,
-                    design.productType,
-                    (progress, total) => {
-                        const stage = progress <= 1 ? "Writing compelling copy..." : `Generating mockup ${progress - 1}/${total - 1}...`;
-                        setLoadingMessage(`${overallProgress}\n${stage}`);
-                    }
+    const handleFixListingCopy = (product: FinalizedProduct) => {
+        if (!product.listingCopy) return;
+        updateFinalizedProduct(product.concept.id, { listingCopy: fixListingCopy(product.listingCopy, settings.trademarkBlocklist) });
+    };
+
+    // Fix what can be fixed locally, then ask for new tags to replace the ones that were dropped.
+    const handleReplaceTags = (product: FinalizedProduct) => {
+        if (!product.listingCopy) return;
+        const fixed = fixListingCopy(product.listingCopy, settings.trademarkBlocklist);
+        const missing = countMissingTags(fixed);
+        if (missing === 0) {
+            updateFinalizedProduct(product.concept.id, { listingCopy: fixed });
+            return;
+        }
+        const id = projectId;
+        const blueprint = activeBlueprint;
+        const blocklist = settings.trademarkBlocklist;
+        setError(null);
+        startJob('listing', `Replace ${missing} ${missing === 1 ? 'tag' : 'tags'} for "${product.concept.conceptTitle}"`, async ({ signal }) => {
+            const replacements = await generateReplacementTags(product.concept, fixed, missing, blueprint, { signal, projectId: id });
+            // Merged into the copy as it is now, so edits made while waiting are kept.
+            await applyToProject(id, p => mapProduct(p, product.concept.id, current => current.listingCopy
+                ? { ...current, listingCopy: mergeReplacementTags(fixListingCopy(current.listingCopy, blocklist), replacements, blocklist) }
+                : current));
+        });
+    };
+
+    const handleRewriteListingField = (product: FinalizedProduct, field: RewritableListingField, mode: ListingRewriteMode, rewriteAudience?: string) => {
+        const listingCopy = product.listingCopy;
+        if (!listingCopy) return;
+        const id = projectId;
+        const blueprint = activeBlueprint;
+        setError(null);
+        startJob('listing', `Rewrite the ${field} of "${product.concept.conceptTitle}"`, async ({ signal }) => {
+            const value = await rewriteListingField(product.concept, listingCopy, field, mode, blueprint, rewriteAudience, { signal, projectId: id });
+            await applyToProject(id, p => mapProduct(p, product.concept.id, current => current.listingCopy
+                ? { ...current, listingCopy: { ...current.listingCopy, [field]: value } }
+                : current));
+        });
+    };
+
+    const updateLocalizedListing = (conceptId: string, locale: string, localized?: LocalizedListing) => {
+        setFinalizedProducts(prev => prev.map(p => {
+            if (p.concept.id !== conceptId) return p;
+            const { [locale]: _removed, ...rest } = p.localizedListings ?? {};
+            return { ...p, localizedListings: localized ? { ...rest, [locale]: localized } : rest };
+        }));
+    };
+
+    const handleLocalizeListing = (product: FinalizedProduct, locale: string, localizeDesign: boolean) => {
+        const listingCopy = product.listingCopy;
+        if (!listingCopy) return;
+        const id = projectId;
+        const blueprint = activeBlueprint;
+        setError(null);
+        startJob('listing', `Localize "${product.concept.conceptTitle}" for ${getLocaleName(locale)} shoppers`, async ({ signal }) => {
+            const localized = await generateLocalizedListing(product.concept, listingCopy, locale, blueprint, localizeDesign, { signal, projectId: id });
+            await applyToProject(id, p => mapProduct(p, product.concept.id, current => ({
+                ...current,
+                localizedListings: { ...(current.localizedListings ?? {}), [locale]: localized },
+            })));
+        });
+    };
+
+    // Draw the localized slogan onto personalized art, or have the AI swap the text on a regular design.
+    const handleRenderLocalizedDesign = (product: FinalizedProduct, locale: string) => {
+        const localized = product.localizedListings?.[locale];
+        if (!localized?.displayText) return;
+        const id = projectId;
+        const designStyle = getConceptStyle(product.concept);
+        setError(null);
+        startJob('listing', `Render the ${getLocaleName(locale)} design of "${product.concept.conceptTitle}"`, async ({ signal }) => {
+            const personalization = product.concept.personalization;
+            const url = personalization && product.artUrl
+                ? await renderPersonalizedDesign(product.artUrl, fillPlaceholders(localized.displayText!, getSampleValues(personalization)), personalization.textLayer)
+                : await refineDesign(
+                    product.mockupSourceUrl ?? product.designUrl,
+                    product.concept,
+                    designStyle,
+                    `Replace the text "${product.concept.displayText}" with "${localized.displayText}", spelled exactly, in the same lettering style and position.`,
+                    { signal, projectId: id }
                 );
-                
-                allFinalAssets.push({
-                    concept: design.concept,
-                    designUrl: design.url,
-                    mockups: finalMockups,
-                    listingCopy: finalCopy,
-                    productType: design.productType
+            const { printArea, scale } = await getPlacedPrintArea(printifyToken, product.productType, settings.catalogSelections[product.productType], product.placements);
+            const result = await prepareDesignForPrint(url, printArea, scale, settings.printPrepOptions);
+            // Only the design is set, so copy edits made while it rendered are kept.
+            await applyToProject(id, p => mapProduct(p, product.concept.id, current => {
+                const latest = current.localizedListings?.[locale];
+                return latest ? { ...current, localizedListings: { ...current.localizedListings, [locale]: { ...latest, designUrl: result.printUrl } } } : current;
+            }));
+        });
+    };
+
+    const handleRerollMockup = (product: FinalizedProduct, index: number) => {
+        const mockup = product.mockups[index];
+        const id = projectId;
+        const occasion = product.concept.holiday ?? holiday;
+        setError(null);
+        startJob('mockup', `Re-roll "${getMockupLabel(mockup)}" for "${product.concept.conceptTitle}"`, ({ signal }) =>
+            renderMockup(id, occasion, product, mockup, signal)
+        );
+    };
+
+    const handleLoadShops = async () => {
+        if (!printifyToken) return;
+        setError(null);
+        try {
+            const shops = await getPrintifyShops(printifyToken);
+            const defaultShopId = shops.some(s => s.id === settings.defaultShopId) ? settings.defaultShopId : shops[0].id;
+            updateSettings({ printifyShops: shops, defaultShopId });
+        } catch (e) {
+            handleApiError(e);
+        }
+    };
+
+    const getTargetShopIds = (product: FinalizedProduct): string[] =>
+        product.targetShopIds ?? (settings.defaultShopId ? [settings.defaultShopId] : []);
+
+    const handleToggleTargetShop = (product: FinalizedProduct, shopId: string) => {
+        const current = getTargetShopIds(product);
+        const targetShopIds = current.includes(shopId) ? current.filter(id => id !== shopId) : [...current, shopId];
+        setFinalizedProducts(prev => prev.map(p =>
+            p.concept.id === product.concept.id ? { ...p, targetShopIds } : p
+        ));
+    };
+
+    const updateListing = (id: string, conceptId: string, shopId: string, patch: Partial<PrintifyListing>) =>
+        applyToProject(id, p => withListing(p, conceptId, shopId, patch));
+
+    // A migrated listing has no shop: find the shop on the account that holds its product.
+    const handleRelinkListing = async (conceptId: string, listing: PrintifyListing) => {
+        if (!printifyToken) {
+            setShowSettings(true);
+            return;
+        }
+        setError(null);
+        try {
+            const shops = await getPrintifyShops(printifyToken);
+            for (const shop of shops) {
+                const remote = await getPrintifyProduct(printifyToken, shop.id, listing.productId).catch(() => null);
+                if (!remote) continue;
+                await updateListing(projectId, conceptId, listing.shopId, {
+                    shopId: shop.id,
+                    shopTitle: shop.title,
+                    needsRelink: undefined,
+                    publishStatus: getPublishStatus(remote),
+                    externalUrl: remote.external?.handle,
+                    lastCheckedAt: Date.now(),
                 });
+                return;
             }
-            
-            setFinalizedProducts(allFinalAssets);
-            setStep('FINALIZE');
+            setError(`Printify product ${listing.productId} was not found in any shop on this account.`);
+        } catch (e) {
+            handleApiError(e);
+        }
+    };
 
-        } catch(e) {
+    const handleRefreshListingStatus = async (conceptId: string, listing: PrintifyListing) => {
+        if (listing.needsRelink) return;
+        if (!printifyToken) {
+            setShowSettings(true);
+            return;
+        }
+        try {
+            const remote = await getPrintifyProduct(printifyToken, listing.shopId, listing.productId);
+            if (remote.blueprint_id && remote.print_provider_id) {
+                await recordVariantCosts(remote.blueprint_id, remote.print_provider_id, remote.variants ?? []);
+            }
+            const publishStatus = getPublishStatus(remote);
+            // A product that is back to draft keeps a failure until retried, and a sent publish stays as it is until confirmed.
+            const keepsStatus = publishStatus === 'draft' && ['failed', 'pending', 'publishing'].includes(listing.publishStatus);
+            updateListing(projectId, conceptId, listing.shopId, {
+                publishStatus: keepsStatus ? listing.publishStatus : publishStatus,
+                externalUrl: remote.external?.handle,
+                lastCheckedAt: Date.now(),
+            });
+        } catch (e) {
             handleApiError(e);
-        } finally {
-            setIsLoading(false);
         }
     };
 
+    /**
+     * Follow a sent publish until the sales channel reports the listing. Printify can leave a
+     * product unlocked and unlisted for a while before the channel picks it up, so the listing
+     * is only failed once the whole poll window passes without confirmation. Cancelling the job
+     * leaves it pending, since the publish may still go through.
+     */
+    const pollListingStatus = async (id: string, conceptId: string, listing: PrintifyListing, { signal, checkpoint }: Pick<JobContext, 'signal' | 'checkpoint'>) => {
+        let lastError: string | undefined;
+        try {
+            for (let attempt = 1; attempt <= PUBLISH_POLL_ATTEMPTS; attempt++) {
+                await sleep(PUBLISH_POLL_INTERVAL_MS, signal);
+                await checkpoint();
+                try {
+                    const remote = await getPrintifyProduct(printifyToken, listing.shopId, listing.productId, signal);
+                    if (getPublishStatus(remote) === 'published') {
+                        await updateListing(id, conceptId, listing.shopId, { publishStatus: 'published', externalUrl: remote.external?.handle, publishError: undefined, lastCheckedAt: Date.now() });
+                        return;
+                    }
+                    lastError = undefined;
+                    await updateListing(id, conceptId, listing.shopId, { lastCheckedAt: Date.now() });
+                } catch (e) {
+                    if (isAbortError(e)) throw e;
+                    // A failed status check says nothing about the publish itself, so keep polling.
+                    lastError = e instanceof Error ? e.message : String(e);
+                }
+            }
+        } catch (e) {
+            if (isAbortError(e)) await updateListing(id, conceptId, listing.shopId, { publishStatus: 'pending' });
+            throw e;
+        }
+        await updateListing(id, conceptId, listing.shopId, {
+            publishStatus: 'failed',
+            publishError: lastError ?? 'Printify did not confirm the publish in time. Check the shop connection, refresh the status later or retry.',
+        });
+    };
+
+    /**
+     * Send a product to its shop's sales channel. Returns whether it was sent, so it can be followed.
+     */
+    const publishListing = async (id: string, conceptId: string, listing: PrintifyListing, signal: AbortSignal): Promise<boolean> => {
+        await updateListing(id, conceptId, listing.shopId, { publishStatus: 'publishing', publishError: undefined });
+        try {
+            await publishPrintifyProduct(printifyToken, listing.shopId, listing.productId, settings.publishFields, signal);
+            return true;
+        } catch (e) {
+            // Whether a cancelled request reached Printify is unknown, so the listing is left for a refresh.
+            const cancelled = isAbortError(e);
+            await updateListing(id, conceptId, listing.shopId, cancelled
+                ? { publishStatus: 'pending' }
+                : { publishStatus: 'failed', publishError: e instanceof Error ? e.message : String(e) });
+            if (cancelled) throw e;
+            return false;
+        }
+    };
+
+    const handleRetryPublish = (conceptId: string, listing: PrintifyListing) => {
+        if (listing.needsRelink) return;
+        if (!printifyToken) {
+            setShowSettings(true);
+            return;
+        }
+        const id = projectId;
+        startJob('publish', `Publish to "${listing.shopTitle}"`, async ({ signal, checkpoint }) => {
+            if (await publishListing(id, conceptId, listing, signal)) {
+                await pollListingStatus(id, conceptId, listing, { signal, checkpoint });
+            }
+        });
+    };
+
     const handlePrintifyPublish = async (product: FinalizedProduct) => {
         if (!printifyToken) {
             setShowSettings(true);
             return;
         }
+        if (!settings.catalogSelections[product.productType]) {
+            setCatalogProductType(product.productType);
+            return;
+        }
+        const listingCopy = product.listingCopy;
+        if (!listingCopy) {
+            setError(`"${product.concept.conceptTitle}" has no listing copy yet. Resume asset generation first.`);
+            return;
+        }
+        if (product.printifyListings?.some(l => l.needsRelink)) {
+            setError(`Re-link the existing Printify product of "${product.concept.conceptTitle}" first, so it is not created in its shop twice.`);
+            return;
+        }
+        const violations = validateListingCopy(listingCopy, settings.trademarkBlocklist);
+        if (violations.length > 0 && !window.confirm(`The listing copy breaks ${violations.length} Etsy ${violations.length === 1 ? 'rule' : 'rules'}, so Etsy may reject or remove it. Send it anyway?`)) {
+            return;
+        }
 
-        setIsLoading(true);
-        setLoadingMessage("Connecting to Printify...");
+        // 0. Screen the title, tags and slogan for IP risk. A screening is reused until the copy changes.
+        const subject = getListingRiskSubject(product.concept, listingCopy);
+        let screening = product.listingRiskScreening;
         setError(null);
         setSuccessMessage(null);
+        if (screening?.subject !== subject) {
+            const id = projectId;
+            setScreeningConceptId(product.concept.id);
+            try {
+                screening = (await screenForRisk({ listing: subject }, settings.trademarkBlocklist, { projectId: id })).listing;
+                const result = screening;
+                await applyToProject(id, p => mapProduct(p, product.concept.id, current => ({ ...current, listingRiskScreening: result })));
+            } catch (e) {
+                handleApiError(e);
+                return;
+            } finally {
+                setScreeningConceptId(null);
+            }
+            // Another project was opened while screening, so this one is not sent from here.
+            if (liveProjectRef.current!.id !== id) return;
+        }
+        if (isRiskBlocked(screening)) {
+            setError(`"${listingCopy.title}" was blocked by the IP risk screening: ${screening.findings.map(f => f.explanation).join(' ')} Reword it, or override the screening below if you're sure.`);
+            return;
+        }
+        if (screening.level === 'medium' && !screening.override
+            && !window.confirm(`This listing may carry IP risk:\n${screening.findings.map(f => `- ${f.explanation}`).join('\n')}\n\nSend it anyway?`)) {
+            return;
+        }
 
-        try {
-            // 1. Get Shop
-            const shop = await getPrintifyShop(printifyToken);
-            
-            // 2. Upload Image
-            setLoadingMessage("Uploading design to Printify Media Library...");
-            const filename = `${product.concept.conceptTitle.replace(/[^a-z0-9]/gi, '_')}.png`;
-            const imageId = await uploadImageToPrintify(printifyToken, product.designUrl, filename);
-
-            // 3. Create Product
-            setLoadingMessage(`Creating ${product.productType} listing...`);
-            const printifyProduct = await createPrintifyProduct(
-                printifyToken,
-                shop.id,
-                product.productType,
-                imageId,
-                product.listingCopy
-            );
+        const id = projectId;
+        const conceptId = product.concept.id;
+        const conceptTitle = product.concept.conceptTitle;
+        startJob('publish', `Publish "${listingCopy.title}"`, async ({ signal, checkpoint, runEach }) => {
+            // Read the product fresh, so a retry skips shops and uploads that already went through.
+            const current = (await readProject(id)).finalizedProducts.find(p => p.concept.id === conceptId);
+            if (!current) throw new Error(`"${conceptTitle}" is no longer in the project.`);
+
+            // 1. Resolve target shops
+            let shops = settings.printifyShops;
+            if (shops.length === 0) {
+                shops = await getPrintifyShops(printifyToken);
+                updateSettings({ printifyShops: shops, defaultShopId: shops[0].id });
+            }
+            const targetIds = current.targetShopIds ?? [settings.defaultShopId ?? shops[0].id];
+            const publishedIds = new Set((current.printifyListings ?? []).map(l => l.shopId));
+            const targets = shops.filter(s => targetIds.includes(s.id) && !publishedIds.has(s.id));
+            if (targets.length === 0) throw new Error("Choose at least one shop this product hasn't been published to yet.");
 
-            setSuccessMessage(`Successfully created "${printifyProduct.title}" in Printify!`);
+            // 2. Resolve the chosen provider and variants against the live catalog
+            await checkpoint();
+            const selection = settings.catalogSelections[current.productType];
+            const pricingRule = getPricingRule(current.productType, settings.pricingRules);
+            let catalogProduct = await resolveCatalogProduct(printifyToken, current.productType, selection);
+            let prices = priceVariants(catalogProduct.variants, pricingRule);
             
-            // Update local state to show it's published
-            setFinalizedProducts(prev => prev.map(p => 
-                p.concept.conceptTitle === product.concept.conceptTitle 
-                ? { ...p, printifyId: printifyProduct.id } 
-                : p
-            ));
+            // 3. Upload the design (uploads are shared by every shop on the account).
+            // Anything uploaded for this product before is reused by content hash.
+            const uploads: Record<string, PrintifyImageUploadResponse> = { ...(current.printifyUploads ?? {}) };
+            const uploadOnce = async (dataUrl: string, fileName: string): Promise<PrintifyImageUploadResponse> => {
+                const key = await getImageKey(dataUrl);
+                if (!uploads[key]) {
+                    await checkpoint();
+                    const upload = await uploadImageToPrintify(printifyToken, dataUrl, fileName);
+                    uploads[key] = upload;
+                    await applyToProject(id, p => mapProduct(p, conceptId, prev => ({ ...prev, printifyUploads: { ...(prev.printifyUploads ?? {}), [key]: upload } })));
+                }
+                return uploads[key];
+            };
 
-        } catch (e) {
-            handleApiError(e);
-        } finally {
-            setIsLoading(false);
-        }
+            const baseName = conceptTitle.replace(/[^a-z0-9]/gi, '_');
+            const designUpload = await uploadOnce(current.designUrl, `${baseName}.png`);
+
+            // 4. Create Product in each shop, recording each listing as soon as it exists
+            const created: PrintifyListing[] = [];
+            const sent: PrintifyListing[] = [];
+            // Printify has no translation fields, so a shop set to another language gets that
+            // locale's copy, and its design variant when one was rendered.
+            for (const shop of targets) {
+                const localized = current.localizedListings?.[settings.shopLocales[shop.id]];
+                const shopDesignUpload = localized?.designUrl
+                    ? await uploadOnce(localized.designUrl, `${baseName}_${localized.locale}.png`)
+                    : designUpload;
+                await checkpoint();
+                const printifyProduct = await createPrintifyProduct(
+                    printifyToken,
+                    shop.id,
+                    catalogProduct,
+                    prices,
+                    current.placements ?? [{ position: catalogProduct.placement, ...DEFAULT_PLACEMENT }],
+                    shopDesignUpload.id,
+                    localized?.listingCopy ?? listingCopy
+                );
+                const listing: PrintifyListing = { shopId: shop.id, shopTitle: shop.title, productId: printifyProduct.id, publishStatus: 'draft' };
+                created.push(listing);
+                await applyToProject(id, p => mapProduct(p, conceptId, prev => ({ ...prev, printifyListings: [...(prev.printifyListings ?? []), listing] })));
+
+                // Printify only reports real variant costs on a created product, so prices worked
+                // out from estimated costs are corrected before the listing goes live.
+                await recordVariantCosts(catalogProduct.blueprintId, catalogProduct.printProviderId, printifyProduct.variants ?? []);
+                if (prices.some(p => p.isEstimatedCost)) {
+                    catalogProduct = await resolveCatalogProduct(printifyToken, current.productType, selection);
+                    const estimatedPrices = new Map<number, number>(prices.map(p => [p.variantId, p.price]));
+                    prices = priceVariants(catalogProduct.variants, pricingRule);
+                    if (prices.some(p => p.price !== estimatedPrices.get(p.variantId))) {
+                        await checkpoint();
+                        await updatePrintifyProductPrices(printifyToken, shop.id, printifyProduct.id, prices);
+                    }
+                }
+
+                // 5. Push it to the shop's sales channel
+                await checkpoint();
+                if (await publishListing(id, conceptId, listing, signal)) sent.push(listing);
+            }
+
+            if (id === liveProjectRef.current!.id) {
+                setSuccessMessage(`Created "${listingCopy.title}" in ${created.map(l => `"${l.shopTitle}"`).join(', ')}. Publish status is shown below.`);
+            }
+
+            // 6. Follow every sent publish until its sales channel confirms it
+            await runEach(sent, sent.length, (listing: PrintifyListing) => pollListingStatus(id, conceptId, listing, { signal, checkpoint }));
+        });
     };
 
     const generateZip = useCallback(async (products: FinalizedProduct[]) => {
@@ -222,8 +1181,7 @@ const App: React.FC = () => {
           setError("Missing assets to generate a package.");
           return;
       }
-      setIsLoading(true);
-      setLoadingMessage(products.length === 1 ? "Packaging single asset..." : "Packaging your launch kit...");
+      setIsPackaging(true);
       try {
           const zip = new JSZip();
           
@@ -232,15 +1190,27 @@ const App: React.FC = () => {
               // If downloading single, put files in root. If multiple, use folders.
               const folder = products.length === 1 ? zip : zip.folder(safeTitle);
 
-              const copyContent = `Title:\n${product.listingCopy.title}\n\nDescription:\n${product.listingCopy.description}\n\nVariations:\n${(product.listingCopy.variations || []).join('\n')}\n\nTags:\n${(product.listingCopy.tags || []).join(', ')}`;
-              folder!.file("listing_copy.txt", copyContent);
+              folder!.file("concept.txt", formatConcept(product.concept));
+              if (product.listingCopy) {
+                  folder!.file("listing_copy.txt", formatListingCopy(product.listingCopy));
+              }
+              for (const localized of Object.values(product.localizedListings ?? {})) {
+                  folder!.file(`listing_copy.${localized.locale}.txt`, formatListingCopy(localized.listingCopy));
+                  if (localized.designUrl) {
+                      folder!.file(`design.${localized.locale}.png`, localized.designUrl.split('base64,')[1], { base64: true });
+                  }
+              }
 
               const designData = product.designUrl.split('base64,')[1];
               folder!.file("design.png", designData, { base64: true });
+              if (product.artUrl) {
+                  folder!.file("design_art.png", product.artUrl.split('base64,')[1], { base64: true });
+              }
               
               const mockupsFolder = folder!.folder("Mockups");
               for(let i = 0; i < product.mockups.length; i++) {
-                const mockupData = product.mockups[i].split('base64,')[1];
+                if (!product.mockups[i].url) continue;
+                const mockupData = product.mockups[i].url!.split('base64,')[1];
                 mockupsFolder!.file(`mockup_${i + 1}.jpg`, mockupData, { base64: true });
               }
           }
@@ -261,56 +1231,114 @@ const App: React.FC = () => {
       } catch (e) {
           setError(e instanceof Error ? e.message : "Failed to create zip file.");
       } finally {
-          setIsLoading(false);
+          setIsPackaging(false);
       }
     }, []);
     
+    const handleSaveStyle = async (preset: StylePreset) => {
+        try {
+            const saved = await saveStyle(preset);
+            setCustomStyles(prev => prev.some(s => s.id === saved.id) ? prev.map(s => s.id === saved.id ? saved : s) : [...prev, saved]);
+        } catch (e) {
+            handleApiError(e);
+        }
+    };
+
+    const handleDeleteStyle = async (id: string) => {
+        try {
+            await deleteStyle(id);
+            setCustomStyles(prev => prev.filter(s => s.id !== id));
+            if (style === id) setStyle(DEFAULT_STYLE_ID);
+        } catch (e) {
+            handleApiError(e);
+        }
+    };
+
+    const handleSaveBlueprint = async (blueprint: Blueprint, content: string, note?: string): Promise<Blueprint | undefined> => {
+        try {
+            const saved = await saveBlueprint(blueprint, content, note);
+            setBlueprints(await listBlueprints());
+            return saved;
+        } catch (e) {
+            handleApiError(e);
+        }
+    };
+
+    const handleDeleteBlueprint = async (id: string): Promise<Blueprint | undefined> => {
+        try {
+            await deleteBlueprint(id);
+            const remaining = await listBlueprints();
+            setBlueprints(remaining);
+            if (blueprintId === id) setBlueprintId(DEFAULT_BLUEPRINT_ID);
+            return resolveBlueprint(DEFAULT_BLUEPRINT_ID, remaining);
+        } catch (e) {
+            handleApiError(e);
+        }
+    };
+
     const resetProcess = () => {
+        setProjectId(createProjectId());
+        setProjectName('');
+        setProjectCreatedAt(Date.now());
+        setActiveProjectId(null);
         setStep('CONFIG');
         setVariations([]);
         setSelectedVariations([]);
+        setConceptFilter({});
+        setScoreFilter({});
         setGeneratedDesigns({});
+        setRefineInstructions({});
         setSelectedDesigns([]);
+        setPreparedDesigns([]);
         setFinalizedProducts([]);
+        setAiUsage([]);
         setError(null);
         setSuccessMessage(null);
-        setIsLoading(false);
     };
 
     const renderHeader = () => (
         <div className="flex items-center justify-between p-6 bg-gray-900 border-b border-gray-700 relative">
-             <div className="w-8"></div> {/* Spacer to balance the layout */}
+            <button 
+                onClick={handleOpenLibrary} 
+                className="text-gray-400 hover:text-white p-2 transition-colors rounded-full hover:bg-gray-800"
+                title="Project Library"
+            >
+                <FolderIcon className="w-6 h-6" />
+            </button>
             <div className="text-center">
                 <h1 className="text-3xl md:text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-amber-400">
                     The Alchemist's Forge
                 </h1>
                 <p className="text-gray-400 mt-2 hidden md:block">Your Personal Ideation & Creation Engine</p>
             </div>
-            <button 
-                onClick={() => setShowSettings(true)} 
-                className="text-gray-400 hover:text-white p-2 transition-colors rounded-full hover:bg-gray-800"
-                title="Settings & API Keys"
-            >
-                <SettingsIcon className="w-6 h-6" />
-            </button>
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={() => setShowCostSummary(true)}
+                    className={`text-sm font-semibold py-1 px-3 rounded-full border transition-colors ${
+                        settings.projectBudget !== null && projectSpend > settings.projectBudget
+                            ? 'border-red-600 text-red-300 hover:bg-red-900/30'
+                            : 'border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800'
+                    }`}
+                    title="Project AI spend"
+                >
+                    {formatCost(projectSpend)}
+                </button>
+                <button 
+                    onClick={() => setShowSettings(true)} 
+                    className="text-gray-400 hover:text-white p-2 transition-colors rounded-full hover:bg-gray-800"
+                    title="Settings & API Keys"
+                >
+                    <SettingsIcon className="w-6 h-6" />
+                </button>
+            </div>
         </div>
     );
     
-    const renderLoader = () => (
-        <div className="flex flex-col items-center justify-center text-center p-8">
-            <svg className="animate-spin h-12 w-12 text-purple-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-            </svg>
-            <p className="mt-4 text-lg text-amber-300 font-semibold whitespace-pre-line">{loadingMessage}</p>
-        </div>
-    );
-
     const renderSettingsModal = () => {
         if (!showSettings) return null;
         return (
             <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 backdrop-blur-sm" onClick={() => setShowSettings(false)}>
-                <div className="bg-gray-800 border border-gray-700 p-8 rounded-2xl max-w-md w-full shadow-2xl relative" onClick={e => e.stopPropagation()}>
+                <div className="bg-gray-800 border border-gray-700 p-8 rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto shadow-2xl relative" onClick={e => e.stopPropagation()}>
                     <div className="flex justify-between items-center mb-6 border-b border-gray-700 pb-4">
                         <h3 className="text-xl font-bold text-white">Settings</h3>
                         <button onClick={() => setShowSettings(false)} className="text-gray-400 hover:text-white transition-colors">
@@ -318,6 +1346,106 @@ const App: React.FC = () => {
                         </button>
                     </div>
                     <div className="space-y-6">
+                        <div>
+                             <label className="block text-sm font-semibold text-green-400 mb-2">
+                                AI Provider
+                             </label>
+                             <select
+                                value={settings.ai.provider}
+                                onChange={(e) => updateSettings({ ai: { ...settings.ai, provider: e.target.value as AppSettings['ai']['provider'] } })}
+                                className="w-full bg-gray-900 text-white border border-gray-600 rounded-lg px-4 py-3 focus:ring-green-500 focus:border-green-500 text-sm"
+                             >
+                                {Object.values(AI_PROVIDERS).map(provider => <option key={provider.id} value={provider.id}>{provider.label}</option>)}
+                             </select>
+                             <p className="text-xs text-gray-500 mt-2">
+                                The offline mock returns canned concepts and placeholder images, for demos and development without an API key.
+                             </p>
+                             <details className="mt-3">
+                                <summary className="text-xs font-semibold text-gray-400 cursor-pointer">Model per task</summary>
+                                <div className="mt-2 space-y-2">
+                                    {(Object.keys(AI_TASK_LABELS) as AiTask[]).map(task => (
+                                        <div key={task} className="flex items-center justify-between gap-3 text-sm text-gray-300">
+                                            <span className="truncate">{AI_TASK_LABELS[task]}</span>
+                                            <input
+                                                value={settings.ai.models[task] ?? ''}
+                                                onChange={(e) => updateSettings({ ai: { ...settings.ai, models: { ...settings.ai.models, [task]: e.target.value } } })}
+                                                placeholder={AI_PROVIDERS[settings.ai.provider].defaultModels[task]}
+                                                className="w-48 bg-gray-900 text-white border border-gray-600 rounded-md px-2 py-1 text-xs focus:ring-green-500 focus:border-green-500"
+                                            />
+                                        </div>
+                                    ))}
+                                    <p className="text-xs text-gray-500">Leave a field empty to use the provider's default model.</p>
+                                </div>
+                             </details>
+                             <details className="mt-3">
+                                <summary className="text-xs font-semibold text-gray-400 cursor-pointer">Rate limits per model</summary>
+                                <div className="mt-2 space-y-2">
+                                    {[...new Set([...Object.keys(settings.modelLimits), ...(Object.keys(AI_TASK_LABELS) as AiTask[]).map(task => getModel(task, settings.ai))])].map(model => {
+                                        const limit = settings.modelLimits[model] ?? DEFAULT_MODEL_LIMIT;
+                                        return (
+                                            <div key={model} className="flex items-center gap-2 text-xs text-gray-300">
+                                                <span className="flex-1 truncate" title={model}>{model}</span>
+                                                {(['concurrency', 'requestsPerMinute'] as const).map(field => (
+                                                    <input
+                                                        key={field}
+                                                        type="number"
+                                                        min={1}
+                                                        value={limit[field]}
+                                                        onChange={(e) => updateSettings({ modelLimits: { ...settings.modelLimits, [model]: { ...limit, [field]: Math.max(1, Math.round(Number(e.target.value))) } } })}
+                                                        title={field === 'concurrency' ? 'Calls at once' : 'Calls per minute'}
+                                                        className="w-16 bg-gray-900 text-white border border-gray-600 rounded-md px-1 py-1 text-xs focus:ring-green-500 focus:border-green-500"
+                                                    />
+                                                ))}
+                                            </div>
+                                        );
+                                    })}
+                                    <p className="text-xs text-gray-500">Columns: calls at once, calls per minute. Batches run in parallel within these limits.</p>
+                                </div>
+                             </details>
+                        </div>
+                        <div>
+                             <label className="block text-sm font-semibold text-green-400 mb-2">
+                                AI Budget per Project (USD)
+                             </label>
+                             <input
+                                type="number"
+                                min={0}
+                                step={0.5}
+                                value={settings.projectBudget ?? ''}
+                                onChange={(e) => updateSettings({ projectBudget: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+                                placeholder="No budget"
+                                className="w-full bg-gray-900 text-white border border-gray-600 rounded-lg px-4 py-3 focus:ring-green-500 focus:border-green-500 text-sm"
+                             />
+                             <p className="text-xs text-gray-500 mt-2">
+                                Batch actions expected to take a project past this ask before they run.
+                             </p>
+                             <details className="mt-3">
+                                <summary className="text-xs font-semibold text-gray-400 cursor-pointer">Prices (USD per 1M tokens, per image)</summary>
+                                <div className="mt-2 space-y-2">
+                                    {[...new Set([...Object.keys(settings.aiPrices), ...(Object.keys(AI_TASK_LABELS) as AiTask[]).map(task => getModel(task, settings.ai))])].map(model => {
+                                        const price = settings.aiPrices[model] ?? { inputPerMillion: 0, outputPerMillion: 0, perImage: 0 };
+                                        return (
+                                            <div key={model} className="flex items-center gap-2 text-xs text-gray-300">
+                                                <span className="flex-1 truncate" title={model}>{model}</span>
+                                                {(['inputPerMillion', 'outputPerMillion', 'perImage'] as const).map(field => (
+                                                    <input
+                                                        key={field}
+                                                        type="number"
+                                                        min={0}
+                                                        step={0.001}
+                                                        value={price[field]}
+                                                        onChange={(e) => updateSettings({ aiPrices: { ...settings.aiPrices, [model]: { ...price, [field]: Math.max(0, Number(e.target.value)) } } })}
+                                                        title={{ inputPerMillion: 'Input', outputPerMillion: 'Output', perImage: 'Per image' }[field]}
+                                                        className="w-16 bg-gray-900 text-white border border-gray-600 rounded-md px-1 py-1 text-xs focus:ring-green-500 focus:border-green-500"
+                                                    />
+                                                ))}
+                                            </div>
+                                        );
+                                    })}
+                                    <p className="text-xs text-gray-500">Columns: input, output, per image. Models without a price count as free.</p>
+                                </div>
+                             </details>
+                        </div>
                         <div>
                              <label className="block text-sm font-semibold text-green-400 mb-2">
                                 Printify API Token
@@ -333,6 +1461,104 @@ const App: React.FC = () => {
                                 Required to publish listings. Find this in your Printify Account &gt; Connections &gt; Tokens.
                              </p>
                         </div>
+                        <div>
+                             <div className="flex justify-between items-center mb-2">
+                                <label className="block text-sm font-semibold text-green-400">
+                                    Default Shop
+                                </label>
+                                <button
+                                    onClick={handleLoadShops}
+                                    disabled={!printifyToken}
+                                    className="text-xs text-amber-300 hover:text-amber-200 disabled:opacity-50"
+                                >
+                                    {settings.printifyShops.length > 0 ? 'Refresh Shops' : 'Load Shops'}
+                                </button>
+                             </div>
+                             <select
+                                value={settings.defaultShopId ?? ''}
+                                onChange={(e) => updateSettings({ defaultShopId: e.target.value || null })}
+                                disabled={settings.printifyShops.length === 0}
+                                className="w-full bg-gray-900 text-white border border-gray-600 rounded-lg px-4 py-3 focus:ring-green-500 focus:border-green-500 text-sm disabled:opacity-50"
+                             >
+                                {settings.printifyShops.length === 0 && <option value="">Load shops to choose</option>}
+                                {settings.printifyShops.map(shop => (
+                                    <option key={shop.id} value={shop.id}>
+                                        {shop.title}{shop.salesChannel ? ` (${shop.salesChannel})` : ''}
+                                    </option>
+                                ))}
+                             </select>
+                             <p className="text-xs text-gray-500 mt-2">
+                                New products are sent here unless you pick other shops on the product.
+                             </p>
+                             {settings.printifyShops.length > 0 && (
+                                <div className="mt-4 space-y-2">
+                                    <p className="text-xs font-semibold text-gray-400">Listing language per shop</p>
+                                    {settings.printifyShops.map(shop => (
+                                        <div key={shop.id} className="flex items-center justify-between gap-3 text-sm text-gray-300">
+                                            <span className="truncate">{shop.title}</span>
+                                            <select
+                                                value={settings.shopLocales[shop.id] ?? ''}
+                                                onChange={(e) => {
+                                                    const { [shop.id]: _removed, ...rest } = settings.shopLocales;
+                                                    updateSettings({ shopLocales: e.target.value ? { ...rest, [shop.id]: e.target.value } : rest });
+                                                }}
+                                                className="bg-gray-900 text-white border border-gray-600 rounded-md px-2 py-1 text-xs focus:ring-green-500 focus:border-green-500"
+                                            >
+                                                <option value="">English</option>
+                                                {LISTING_LOCALES.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+                                            </select>
+                                        </div>
+                                    ))}
+                                    <p className="text-xs text-gray-500">Shops in another language get that translation when one exists.</p>
+                                </div>
+                             )}
+                        </div>
+                        <div>
+                             <button
+                                onClick={() => { setShowSettings(false); setCatalogProductType(productType); }}
+                                className="w-full bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg text-sm border border-gray-600 transition-colors"
+                             >
+                                Choose Providers & Variants
+                             </button>
+                             <p className="text-xs text-gray-500 mt-2">
+                                Pick the print provider, colors and sizes used for each product type.
+                             </p>
+                        </div>
+                        <div>
+                             <label className="block text-sm font-semibold text-green-400 mb-2">
+                                Sync to Sales Channel
+                             </label>
+                             <div className="flex flex-wrap gap-x-4 gap-y-2">
+                                {(Object.keys(PUBLISH_FIELD_LABELS) as (keyof PublishFields)[]).map(field => (
+                                    <label key={field} className="flex items-center gap-2 text-sm text-gray-300">
+                                        <input
+                                            type="checkbox"
+                                            checked={settings.publishFields[field]}
+                                            onChange={(e) => updateSettings({ publishFields: { ...settings.publishFields, [field]: e.target.checked } })}
+                                            className="h-4 w-4 rounded border-gray-500 bg-gray-900/50 text-green-600 focus:ring-green-500 focus:ring-offset-0"
+                                        />
+                                        {PUBLISH_FIELD_LABELS[field]}
+                                    </label>
+                                ))}
+                             </div>
+                             <p className="text-xs text-gray-500 mt-2">
+                                Fields Printify pushes to your connected store (e.g. Etsy) when publishing.
+                             </p>
+                        </div>
+                        <div>
+                             <label className="block text-sm font-semibold text-green-400 mb-2">
+                                Trademark Blocklist
+                             </label>
+                             <textarea
+                                value={settings.trademarkBlocklist.join('\n')}
+                                onChange={(e) => updateSettings({ trademarkBlocklist: e.target.value.split('\n') })}
+                                rows={6}
+                                className="w-full bg-gray-900 text-white border border-gray-600 rounded-lg px-4 py-3 focus:ring-green-500 focus:border-green-500 text-sm resize-y"
+                             />
+                             <p className="text-xs text-gray-500 mt-2">
+                                One phrase per line. Concepts and listings that use one are blocked until you override them.
+                             </p>
+                        </div>
                     </div>
                     <div className="mt-8 flex justify-end">
                         <button 
@@ -347,43 +1573,154 @@ const App: React.FC = () => {
         );
     };
 
-    const HOLIDAYS = ['Christmas', 'Halloween', 'Thanksgiving', 'Valentine\'s Day', 'Easter', 'Mother\'s Day'];
-    const DESIGN_STYLES: DesignStyle[] = ['Minimalist Vector', 'Geometric Modern', 'Retro Script', 'Vintage Engraving', 'Watercolor Botanical', 'Cosmic Doodle', 'Art Deco', 'Cyberpunk Glitch'];
+    const GENERAL_AUDIENCE = 'General';
     const PRODUCT_TYPES: ProductType[] = ['Sweatshirt', 'Hoodie', 'Mug', 'Ornament', 'T-Shirt', 'Tote Bag', 'Pillow'];
 
-    const renderConfig = () => (
-        <div className="w-full max-w-4xl mx-auto flex flex-col items-center">
-            <h2 className="text-2xl font-bold text-amber-300 mb-2 text-center">Step 1: Define Your Creation</h2>
-            <p className="text-gray-400 mb-8 text-center">Choose the core elements. The Alchemist will handle the rest.</p>
+    // In batch mode each Step 1 section picks several values. The first of each stays the
+    // project's own selection, which names the project and backs concepts from before batches.
+    const handleToggleBatch = (enabled: boolean) => setMatrix(enabled
+        ? { holidays: [holiday], styles: [style], productTypes: [productType], conceptsPerCombination: DEFAULT_CONCEPTS_PER_COMBINATION }
+        : null);
+
+    const handleSelectHoliday = (name: string) => {
+        if (!matrix) return setHoliday(name);
+        const holidays = toggleValue(matrix.holidays, name);
+        setMatrix({ ...matrix, holidays });
+        setHoliday(holidays[0]);
+    };
+
+    const handleSelectStyle = (id: DesignStyle) => {
+        if (!matrix) return setStyle(id);
+        const selected = toggleValue(matrix.styles, id);
+        setMatrix({ ...matrix, styles: selected });
+        setStyle(selected[0]);
+    };
+
+    const handleSelectProductType = (type: ProductType) => {
+        if (!matrix) return setProductType(type);
+        const productTypes = toggleValue(matrix.productTypes, type);
+        setMatrix({ ...matrix, productTypes });
+        setProductType(productTypes[0]);
+    };
+
+    const renderConfig = () => {
+        // A saved project may use an occasion that has since been removed from the catalog.
+        const occasionNames = settings.occasions.map(o => o.name);
+        activeMatrix.holidays.forEach(name => { if (!occasionNames.includes(name)) occasionNames.push(name); });
+        const cellCount = getMatrixCells(activeMatrix).length;
+        const conceptCount = cellCount * activeMatrix.conceptsPerCombination;
+
+        return (
+            <div className="w-full max-w-4xl mx-auto flex flex-col items-center">
+                <h2 className="text-2xl font-bold text-amber-300 mb-2 text-center">Step 1: Define Your Creation</h2>
+                <p className="text-gray-400 mb-8 text-center">Choose the core elements. The Alchemist will handle the rest.</p>
+
+                <div className="w-full space-y-8">
+                    <ConfigSection title="Occasion" items={occasionNames} selected={activeMatrix.holidays} onSelect={handleSelectHoliday} />
+                    <div className="flex justify-center gap-6 -mt-4 text-sm">
+                        <button onClick={() => setShowCalendar(prev => !prev)} className="text-amber-300 hover:text-amber-200">
+                            {showCalendar ? 'Hide Calendar' : 'What Should I Forge Now?'}
+                        </button>
+                        <button onClick={() => setShowOccasionManager(true)} className="text-gray-400 hover:text-white">
+                            Edit Occasions & Audiences
+                        </button>
+                    </div>
+                    {showCalendar && <OccasionCalendar occasions={settings.occasions} selected={holiday} onSelect={handleSelectHoliday} />}
+                    <ConfigSection
+                        title="Audience / Niche"
+                        items={[GENERAL_AUDIENCE, ...settings.audiences]}
+                        selected={[audience || GENERAL_AUDIENCE]}
+                        onSelect={(item) => setAudience(item === GENERAL_AUDIENCE ? '' : item)}
+                    />
+                    <ConfigSection
+                        title="Design Style"
+                        items={styles.map(s => s.name)}
+                        selected={activeMatrix.styles.map(id => resolveStyle(id, styles).name)}
+                        onSelect={(name) => handleSelectStyle(styles.find(s => s.name === name)!.id)}
+                    />
+                    <div className="flex justify-center -mt-4 text-sm">
+                        <button onClick={() => setShowStyleManager(true)} className="text-gray-400 hover:text-white">
+                            Create & Edit Styles
+                        </button>
+                    </div>
+                    <ConfigSection title="Product Type" items={PRODUCT_TYPES} selected={activeMatrix.productTypes} onSelect={handleSelectProductType as (s: string) => void} />
+                    <div className="flex flex-col items-center gap-3 text-sm text-gray-300">
+                        <label className="flex items-center gap-3 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={!!matrix}
+                                onChange={(e) => handleToggleBatch(e.target.checked)}
+                                className="h-5 w-5 rounded border-gray-500 bg-gray-900/50 text-purple-600 focus:ring-purple-500 focus:ring-offset-0"
+                            />
+                            Batch mode (pick several occasions, styles and product types to ideate every combination)
+                        </label>
+                        {matrix && (
+                            <div className="flex items-center gap-3">
+                                <label htmlFor="concepts-per-combination">Concepts per combination</label>
+                                <input
+                                    id="concepts-per-combination"
+                                    type="number"
+                                    min={1}
+                                    max={MAX_CONCEPTS_PER_COMBINATION}
+                                    value={matrix.conceptsPerCombination}
+                                    onChange={(e) => setMatrix({ ...matrix, conceptsPerCombination: Math.min(MAX_CONCEPTS_PER_COMBINATION, Math.max(1, Math.round(Number(e.target.value)))) })}
+                                    className="w-16 bg-gray-900 text-white border border-gray-600 rounded-lg px-2 py-1 text-center focus:ring-purple-500 focus:border-purple-500"
+                                />
+                                <span className="text-gray-500">{cellCount} {cellCount === 1 ? 'combination' : 'combinations'} · up to {conceptCount} concepts</span>
+                            </div>
+                        )}
+                    </div>
+                    <label className="flex items-center justify-center gap-3 text-sm text-gray-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={personalized}
+                            onChange={(e) => setPersonalized(e.target.checked)}
+                            className="h-5 w-5 rounded border-gray-500 bg-gray-900/50 text-purple-600 focus:ring-purple-500 focus:ring-offset-0"
+                        />
+                        Personalized products (buyers add a name, year or other text)
+                    </label>
 
-            <div className="w-full space-y-8">
-                <ConfigSection title="Holiday Theme" items={HOLIDAYS} selected={holiday} onSelect={setHoliday} />
-                <ConfigSection title="Design Style" items={DESIGN_STYLES} selected={style} onSelect={setStyle as (s: string) => void} />
-                <ConfigSection title="Product Type" items={PRODUCT_TYPES} selected={productType} onSelect={setProductType as (s: string) => void} />
+                    <div className="max-w-md mx-auto w-full text-center">
+                        <h3 className="text-lg font-semibold text-purple-300 mb-4">Market Blueprint</h3>
+                        <select
+                            value={activeBlueprint.id}
+                            onChange={(e) => setBlueprintId(e.target.value)}
+                            className="w-full bg-gray-900 text-white border border-gray-600 rounded-lg px-4 py-2 focus:ring-purple-500 focus:border-purple-500"
+                        >
+                            {(blueprints.length > 0 ? blueprints : [activeBlueprint]).map(b => (
+                                <option key={b.id} value={b.id}>{b.name}</option>
+                            ))}
+                        </select>
+                        <button onClick={() => setShowBlueprintManager(true)} className="mt-2 text-sm text-gray-400 hover:text-white">
+                            Edit Knowledge Base
+                        </button>
+                    </div>
                 
-                <div className="max-w-md mx-auto pt-4 border-t border-gray-700 w-full text-center">
-                    <button 
-                        onClick={() => setShowSettings(true)}
-                        className="text-green-400 hover:text-green-300 text-sm font-semibold flex items-center justify-center gap-2 mx-auto transition-colors"
-                    >
-                        <SettingsIcon className="w-4 h-4" />
-                        Configure Printify API Token
-                    </button>
-                    <p className="text-xs text-gray-500 mt-1">Optional. Only needed for one-click publishing.</p>
+                    <div className="max-w-md mx-auto pt-4 border-t border-gray-700 w-full text-center">
+                        <button 
+                            onClick={() => setShowSettings(true)}
+                            className="text-green-400 hover:text-green-300 text-sm font-semibold flex items-center justify-center gap-2 mx-auto transition-colors"
+                        >
+                            <SettingsIcon className="w-4 h-4" />
+                            Configure Printify API Token
+                        </button>
+                        <p className="text-xs text-gray-500 mt-1">Optional. Only needed for one-click publishing.</p>
+                    </div>
                 </div>
-            </div>
 
-            <button
-                onClick={handleForgeConcepts}
-                className="mt-12 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white font-bold py-4 px-8 rounded-lg flex items-center gap-2 transition-transform transform hover:scale-105 text-lg"
-            >
-                <SparklesIcon className="w-6 h-6" />
-                Forge 3 Concept Variations
-            </button>
-        </div>
-    );
+                <button
+                    onClick={handleForgeConcepts}
+                    disabled={isJobRunning('ideation')}
+                    className="mt-12 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white font-bold py-4 px-8 rounded-lg flex items-center gap-2 transition-transform transform hover:scale-105 text-lg disabled:opacity-50 disabled:scale-100"
+                >
+                    <SparklesIcon className="w-6 h-6" />
+                    {isJobRunning('ideation') ? 'Forging Concepts...' : matrix ? `Forge ${conceptCount} Concepts` : `Forge ${conceptCount} Concept Variations`}
+                </button>
+            </div>
+        );
+    };
 
-    const ConfigSection = ({ title, items, selected, onSelect }: { title: string; items: string[]; selected: string; onSelect: (item: string) => void }) => (
+    const ConfigSection = ({ title, items, selected, onSelect }: { title: string; items: string[]; selected: string[]; onSelect: (item: string) => void }) => (
         <div>
             <h3 className="text-lg font-semibold text-purple-300 mb-4 text-center">{title}</h3>
             <div className="flex flex-wrap justify-center gap-3">
@@ -392,7 +1729,7 @@ const App: React.FC = () => {
                         key={item}
                         onClick={() => onSelect(item)}
                         className={`bg-gray-700/50 text-gray-300 py-2 px-4 rounded-full text-sm hover:bg-purple-800/40 hover:border-purple-600 hover:text-white transition-all transform hover:scale-105 ${
-                            selected === item
+                            selected.includes(item)
                             ? 'border-purple-500 ring-2 ring-purple-500 bg-purple-900/50 text-white'
                             : 'border border-gray-600'
                         }`}
@@ -404,53 +1741,177 @@ const App: React.FC = () => {
         </div>
     );
 
-    const renderIdeation = () => (
-        <div className="w-full max-w-5xl mx-auto flex flex-col items-center">
-            <h2 className="text-2xl font-bold text-amber-300 mb-2">Step 2: Select Your Variations</h2>
-            <p className="text-gray-400 mb-8">Choose one or more concepts to generate designs for.</p>
-            <div className="w-full grid md:grid-cols-3 gap-6">
-                {variations.map((concept, index) => (
-                    <label key={index} className="bg-gray-800 border-2 border-gray-700 rounded-xl p-5 transition-all cursor-pointer has-[:checked]:border-purple-500 has-[:checked]:ring-2 has-[:checked]:ring-purple-500">
-                        <div className="flex items-start gap-4">
-                            <input type="checkbox"
-                                checked={selectedVariations.some(c => c.conceptTitle === concept.conceptTitle)}
-                                onChange={() => handleToggleVariationSelection(concept)}
-                                className="mt-1 h-5 w-5 rounded border-gray-500 bg-gray-900/50 text-purple-600 focus:ring-purple-500 focus:ring-offset-0 flex-shrink-0"
-                            />
-                            <div>
-                                <h3 className="font-bold text-lg text-amber-400">{concept.conceptTitle}</h3>
-                                <p className="text-xs text-purple-400 mt-1 mb-2">
-                                    <span className="font-semibold">Fusion:</span> {concept.fusion.join(' + ')}
-                                </p>
-                                <p className="text-gray-300 mb-3 text-sm">{concept.vision}</p>
+    const renderIdeation = () => {
+        const cells = new Map<string, MatrixCell>(variations.map(c => [c.id, getConceptCell(c)]));
+        // Filters only appear for what the concepts actually vary on, i.e. after a batch.
+        const facets = CONCEPT_FILTERS
+            .map(filter => ({ ...filter, values: [...new Set([...cells.values()].map(cell => cell[filter.key]))] }))
+            .filter(facet => facet.values.length > 1);
+        const ageBands = AGE_BANDS.filter(band => variations.some(c => c.scores?.ageBand.band === band));
+        const isScored = variations.some(c => c.scores);
+        const shown = sortConcepts(variations.filter(c => matchesCellFilter(cells.get(c.id)!, conceptFilter) && matchesScoreFilter(c, scoreFilter)), conceptSort);
+        const formatValue = (key: keyof MatrixCell, value: string) => key === 'style' ? resolveStyle(value, styles).name : value;
+
+        return (
+            <div className="w-full max-w-5xl mx-auto flex flex-col items-center">
+                <h2 className="text-2xl font-bold text-amber-300 mb-2">Step 2: Select Your Variations</h2>
+                <p className="text-gray-400 mb-8">Choose one or more concepts to generate designs for.</p>
+                <div className="w-full max-w-3xl flex flex-wrap items-center justify-center gap-3 mb-6 text-sm">
+                    <input
+                        type="text"
+                        value={brainstormSteering}
+                        onChange={(e) => setBrainstormSteering(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleBrainstorm('steer', []); }}
+                        placeholder='Steer new ideas, e.g. "funnier" or "aimed at teachers"'
+                        className="flex-1 min-w-[16rem] bg-gray-900 text-white border border-gray-600 rounded-lg px-3 py-2 focus:ring-purple-500 focus:border-purple-500"
+                    />
+                    <button
+                        onClick={() => handleBrainstorm('steer', [])}
+                        disabled={!brainstormSteering.trim()}
+                        className="bg-purple-700 hover:bg-purple-600 text-white font-semibold py-2 px-4 rounded-lg disabled:opacity-50"
+                    >
+                        Brainstorm More
+                    </button>
+                    <button
+                        onClick={() => handleBrainstorm('remix', selectedVariations)}
+                        disabled={selectedVariations.length !== 2}
+                        title="Select exactly two concepts to fuse"
+                        className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg disabled:opacity-50"
+                    >
+                        Remix Selected
+                    </button>
+                </div>
+                {(facets.length > 0 || isScored) && (
+                    <div className="w-full flex flex-wrap items-center justify-center gap-3 mb-6 text-sm">
+                        {facets.map(({ key, label, values }) => (
+                            <select
+                                key={key}
+                                value={conceptFilter[key] ?? ''}
+                                onChange={(e) => setConceptFilter(prev => ({ ...prev, [key]: e.target.value || undefined }))}
+                                className="bg-gray-900 text-white border border-gray-600 rounded-lg px-3 py-2 focus:ring-purple-500 focus:border-purple-500"
+                            >
+                                <option value="">Any {label.toLowerCase()}</option>
+                                {values.map(value => <option key={value} value={value}>{formatValue(key, value)}</option>)}
+                            </select>
+                        ))}
+                        {isScored && (
+                            <>
+                                <select
+                                    value={scoreFilter.ageBand ?? ''}
+                                    onChange={(e) => setScoreFilter(prev => ({ ...prev, ageBand: (e.target.value || undefined) as AgeBand | undefined }))}
+                                    className="bg-gray-900 text-white border border-gray-600 rounded-lg px-3 py-2 focus:ring-purple-500 focus:border-purple-500"
+                                >
+                                    <option value="">Any age band</option>
+                                    {ageBands.map(band => <option key={band} value={band}>Ages {band}</option>)}
+                                </select>
+                                <select
+                                    value={scoreFilter.minOverall ?? ''}
+                                    onChange={(e) => setScoreFilter(prev => ({ ...prev, minOverall: e.target.value ? Number(e.target.value) : undefined }))}
+                                    className="bg-gray-900 text-white border border-gray-600 rounded-lg px-3 py-2 focus:ring-purple-500 focus:border-purple-500"
+                                >
+                                    <option value="">Any overall score</option>
+                                    {[5, 6, 7, 8].map(min => <option key={min} value={min}>{min}+ overall</option>)}
+                                </select>
+                                <select
+                                    value={conceptSort}
+                                    onChange={(e) => setConceptSort(e.target.value as ConceptSort)}
+                                    className="bg-gray-900 text-white border border-gray-600 rounded-lg px-3 py-2 focus:ring-purple-500 focus:border-purple-500"
+                                >
+                                    <option value="generated">Sort: as generated</option>
+                                    <option value="overall">Sort: overall score</option>
+                                    {SCORE_CRITERIA.map(c => (
+                                        <option key={c.key} value={c.key}>Sort: {c.higherIsBetter ? c.label.toLowerCase() : `least ${c.label.toLowerCase()}`}</option>
+                                    ))}
+                                </select>
+                            </>
+                        )}
+                        <span className="text-gray-500">Showing {shown.length} of {variations.length}</span>
+                        <button onClick={() => handleSelectConcepts(shown)} className="text-amber-300 hover:text-amber-200 font-semibold">Select shown</button>
+                        {selectedVariations.length > 0 && (
+                            <button onClick={() => setSelectedVariations([])} className="text-gray-400 hover:text-white">Clear selection</button>
+                        )}
+                    </div>
+                )}
+                <div className="w-full grid md:grid-cols-3 gap-6">
+                    {shown.map(concept => (
+                        <label key={concept.id} className="bg-gray-800 border-2 border-gray-700 rounded-xl p-5 transition-all cursor-pointer has-[:checked]:border-purple-500 has-[:checked]:ring-2 has-[:checked]:ring-purple-500">
+                            <div className="flex items-start gap-4">
+                                <input type="checkbox"
+                                    checked={selectedVariations.some(c => c.id === concept.id)}
+                                    disabled={isRiskBlocked(concept.riskScreening)}
+                                    onChange={() => handleToggleVariationSelection(concept)}
+                                    className="mt-1 h-5 w-5 rounded border-gray-500 bg-gray-900/50 text-purple-600 focus:ring-purple-500 focus:ring-offset-0 flex-shrink-0"
+                                />
+                                <div>
+                                    <h3 className="font-bold text-lg text-amber-400">{concept.conceptTitle}</h3>
+                                    {concept.lineage && (
+                                        <p className="text-xs text-gray-500 mt-1">{describeLineage(concept.lineage)}</p>
+                                    )}
+                                    {facets.length > 0 && (
+                                        <p className="text-xs text-gray-500 mt-1">
+                                            {CONCEPT_FILTERS.map(({ key }) => formatValue(key, cells.get(concept.id)![key])).join(' · ')}
+                                        </p>
+                                    )}
+                                    <p className="text-xs text-purple-400 mt-1 mb-2">
+                                        <span className="font-semibold">Fusion:</span> {concept.fusion.join(' + ')}
+                                    </p>
+                                    <p className="text-gray-300 mb-3 text-sm">{concept.vision}</p>
+                                    {concept.scores && (
+                                        <div className="mb-3">
+                                            <ConceptScoresPanel scores={concept.scores} />
+                                        </div>
+                                    )}
+                                    {concept.riskScreening && (
+                                        <div className="mb-3">
+                                            <RiskScreeningPanel
+                                                screening={concept.riskScreening}
+                                                onOverride={(reason) => updateConcept(concept.id, { riskScreening: overrideRisk(concept.riskScreening!, reason) })}
+                                            />
+                                        </div>
+                                    )}
+                                    {concept.personalization && (
+                                        <p className="text-xs text-gray-400">
+                                            <span className="font-semibold text-purple-400">"{concept.displayText}"</span>
+                                            {' · '}{concept.personalization.fields.map(f => `${f.label} (max ${f.maxLength})`).join(', ')}
+                                        </p>
+                                    )}
+                                    <button
+                                        onClick={(e) => { e.preventDefault(); handleBrainstorm('similar', [concept]); }}
+                                        className="mt-3 text-xs font-semibold text-amber-300 hover:text-amber-200"
+                                        title={brainstormSteering.trim() ? `Steered "${brainstormSteering.trim()}"` : undefined}
+                                    >
+                                        More Like This
+                                    </button>
+                                </div>
                             </div>
-                        </div>
-                    </label>
-                ))}
+                        </label>
+                    ))}
+                </div>
+                 <button
+                    onClick={handleForgeDesigns}
+                    disabled={selectedVariations.length === 0 || isJobRunning('design')}
+                    className="mt-10 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white font-bold py-3 px-6 rounded-lg flex items-center gap-2 transition-transform transform hover:scale-105 disabled:opacity-50 disabled:scale-100"
+                >
+                    <SparklesIcon className="w-5 h-5" />
+                    {isJobRunning('design') ? 'Forging Designs...' : `Forge ${selectedVariations.length} ${selectedVariations.length === 1 ? 'Design' : 'Designs'}`}
+                </button>
             </div>
-             <button
-                onClick={handleForgeDesigns}
-                disabled={selectedVariations.length === 0}
-                className="mt-10 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white font-bold py-3 px-6 rounded-lg flex items-center gap-2 transition-transform transform hover:scale-105 disabled:opacity-50 disabled:scale-100"
-            >
-                <SparklesIcon className="w-5 h-5" />
-                Forge {selectedVariations.length} {selectedVariations.length === 1 ? 'Design' : 'Designs'}
-            </button>
-        </div>
-    );
+        );
+    };
 
     const renderDesign = () => (
         <div className="w-full max-w-6xl mx-auto flex flex-col items-center">
             <h2 className="text-2xl font-bold text-amber-300 mb-2">Step 3: Choose Your Final Design(s)</h2>
             <p className="text-gray-400 mb-8">Select designs to process in bulk, or generate assets individually.</p>
             <div className="w-full grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {variations.filter(v => generatedDesigns[v.conceptTitle]).map(concept => {
-                    const url = generatedDesigns[concept.conceptTitle];
-                    const isSelected = selectedDesigns.some(d => d.url === url);
-                    const currentProductType = selectedDesigns.find(d => d.url === url)?.productType || productType;
+                {variations.filter(v => generatedDesigns[v.id]).map(concept => {
+                    const history = generatedDesigns[concept.id];
+                    const url = getActiveDesignUrl(concept.id)!;
+                    const isSelected = selectedDesigns.some(d => d.concept.id === concept.id);
+                    const currentProductType = selectedDesigns.find(d => d.concept.id === concept.id)?.productType || concept.productType || productType;
 
                     return (
-                        <div key={concept.conceptTitle} className="bg-gray-800/40 rounded-xl p-4 border border-transparent flex flex-col">
+                        <div key={concept.id} className="bg-gray-800/40 rounded-xl p-4 border border-transparent flex flex-col">
                              <h3 className="font-semibold text-amber-400 mb-2 text-center truncate" title={concept.conceptTitle}>"{concept.conceptTitle}"</h3>
                              <label className={`relative block bg-gray-800 border-2 border-gray-700 rounded-xl p-2 transition-all cursor-pointer ${isSelected ? 'border-purple-500 ring-2 ring-purple-500' : ''}`}>
                                 <input type="checkbox"
@@ -459,29 +1920,84 @@ const App: React.FC = () => {
                                        className="absolute top-3 left-3 h-6 w-6 rounded-md border-gray-500 bg-gray-900/50 text-purple-600 focus:ring-purple-500 focus:ring-offset-0 z-10"
                                 />
                                 <div className="aspect-square flex items-center justify-center rounded-lg overflow-hidden" 
-                                     style={{ backgroundImage: 'url("data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAABAAAAAQCAYAAAAf8/9hAAAAAXNSR0IArs4c6QAAAC1JREFUOE9jZGBgEGHAD97/p038/w8f/v8ZPigew8+fP/8/f/78/w8f/g8A7pkBFCj/PcoAAAAASUVORK5CYII=")', backgroundRepeat: 'repeat' }}>
+                                     style={CHECKERBOARD_STYLE}>
                                     <img src={url} alt={`Design for ${concept.conceptTitle}`} className="max-w-full max-h-full object-contain" />
                                 </div>
                             </label>
+
+                            {history.versions.length > 1 && (
+                                <div className="mt-3 flex gap-2 overflow-x-auto pb-1">
+                                    {history.versions.map((version, index) => (
+                                        <button
+                                            key={version.id}
+                                            onClick={() => activateDesignVersion(concept, version, false)}
+                                            title={`v${index + 1} · ${version.instruction ?? (version.source === 'refine' ? 'Refined' : version.source === 'regenerate' ? 'Regenerated' : 'Original')}`}
+                                            className={`relative flex-shrink-0 w-14 h-14 rounded-md overflow-hidden border-2 ${version.id === history.activeVersionId ? 'border-purple-500' : 'border-gray-700 opacity-70 hover:opacity-100'}`}
+                                            style={CHECKERBOARD_STYLE}
+                                        >
+                                            <img src={version.url} alt={`Version ${index + 1}`} className="w-full h-full object-contain" />
+                                            <span className="absolute bottom-0 right-0 bg-gray-900/80 text-[10px] text-gray-300 px-1 rounded-tl">v{index + 1}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
                             
+                            {concept.personalization && (
+                                <details className="mt-3" open>
+                                    <summary className="text-sm text-purple-300 cursor-pointer">Personalization</summary>
+                                    <div className="mt-2">
+                                        <PersonalizationEditor
+                                            artUrl={url}
+                                            displayText={concept.displayText}
+                                            personalization={concept.personalization}
+                                            onChange={(personalization) => updateConcept(concept.id, { personalization })}
+                                        />
+                                    </div>
+                                </details>
+                            )}
+
                             <div className="mt-3 space-y-3">
+                                <div className="flex gap-2">
+                                    <input
+                                        value={refineInstructions[concept.id] ?? ''}
+                                        onChange={(e) => setRefineInstructions(prev => ({ ...prev, [concept.id]: e.target.value }))}
+                                        onKeyDown={(e) => { if (e.key === 'Enter') handleRefineDesign(concept); }}
+                                        placeholder='e.g. "make the text bolder"'
+                                        className="flex-1 min-w-0 bg-gray-700 text-white border border-gray-600 rounded-md px-2 py-1.5 text-sm focus:ring-purple-500 focus:border-purple-500"
+                                    />
+                                    <button
+                                        onClick={() => handleRefineDesign(concept)}
+                                        disabled={!refineInstructions[concept.id]?.trim()}
+                                        className="bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold py-1.5 px-3 rounded-md text-sm border border-gray-600 transition-colors disabled:opacity-50"
+                                    >
+                                        Refine
+                                    </button>
+                                    <button
+                                        onClick={() => handleRegenerateDesign(concept)}
+                                        title="Regenerate from scratch"
+                                        className="bg-gray-700 hover:bg-gray-600 text-gray-200 p-1.5 rounded-md border border-gray-600 transition-colors"
+                                    >
+                                        <RefreshIcon className="w-5 h-5" />
+                                    </button>
+                                </div>
                                 <div>
-                                    <label htmlFor={`product-type-${concept.conceptTitle}`} className="block text-sm font-medium text-gray-400 mb-1 text-center">Product Type</label>
+                                    <label htmlFor={`product-type-${concept.id}`} className="block text-sm font-medium text-gray-400 mb-1 text-center">Product Type</label>
                                     <select
-                                        id={`product-type-${concept.conceptTitle}`}
+                                        id={`product-type-${concept.id}`}
                                         value={currentProductType}
-                                        onChange={(e) => handleProductTypeChangeForDesign(url, e.target.value as ProductType)}
+                                        onChange={(e) => handleProductTypeChangeForDesign(concept.id, e.target.value as ProductType)}
                                         className="w-full bg-gray-700 text-white border border-gray-600 rounded-md px-2 py-1.5 text-sm focus:ring-purple-500 focus:border-purple-500"
                                     >
                                         {PRODUCT_TYPES.map(pt => <option key={pt} value={pt}>{pt}</option>)}
                                     </select>
                                 </div>
                                 <button
-                                    onClick={() => handleForgeAssets({ concept, url, productType: currentProductType })}
-                                    className="w-full bg-indigo-600/20 hover:bg-indigo-600/40 text-indigo-300 border border-indigo-500/50 font-semibold py-2 px-4 rounded-lg text-sm flex items-center justify-center gap-2 transition-colors"
+                                    onClick={() => handlePrepareDesigns([{ concept, url, productType: currentProductType }])}
+                                    disabled={isJobRunning('prepare')}
+                                    className="w-full bg-indigo-600/20 hover:bg-indigo-600/40 text-indigo-300 border border-indigo-500/50 font-semibold py-2 px-4 rounded-lg text-sm flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
                                 >
                                     <SparklesIcon className="w-4 h-4" />
-                                    Generate Assets
+                                    Prepare for Print
                                 </button>
                             </div>
                         </div>
@@ -489,147 +2005,418 @@ const App: React.FC = () => {
                 })}
             </div>
              <button
-                onClick={() => handleForgeAssets()}
-                disabled={selectedDesigns.length === 0}
+                onClick={() => handlePrepareDesigns(selectedDesigns)}
+                disabled={selectedDesigns.length === 0 || isJobRunning('prepare')}
                 className="mt-12 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white font-bold py-3 px-6 rounded-lg flex items-center gap-2 transition-transform transform hover:scale-105 disabled:opacity-50 disabled:scale-100"
             >
                 <SparklesIcon className="w-5 h-5" />
-                Generate Assets for {selectedDesigns.length} Selected {selectedDesigns.length === 1 ? 'Design' : 'Designs'}
+                Prepare {selectedDesigns.length} Selected {selectedDesigns.length === 1 ? 'Design' : 'Designs'} for Print
             </button>
         </div>
     );
-    
-    const renderFinalize = () => (
-        <div className="w-full max-w-7xl mx-auto flex flex-col items-center">
-             <div className="flex items-center justify-between w-full max-w-5xl mb-6">
-                <button 
-                    onClick={() => setStep('DESIGN')}
-                    className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors"
-                >
-                    <ArrowLeftIcon className="w-5 h-5" />
-                    Back to Designs
-                </button>
-                <h2 className="text-3xl font-bold text-amber-300 text-center flex-1">Your Creations are Forged!</h2>
-                <div className="w-24"></div> {/* Spacer for centering */}
-             </div>
-             
-             <p className="text-gray-400 mb-8 text-center">All assets for your generated design(s) are ready.</p>
-             
-             {successMessage && (
-                <div className="mb-6 bg-green-900/50 border border-green-500 text-green-300 px-6 py-4 rounded-lg w-full max-w-3xl text-center">
-                    {successMessage}
+
+    const renderPrintCheck = (check?: PrintCheck) => check && (
+        <div className="text-xs space-y-1">
+            <p className="text-gray-400">
+                {check.width}&times;{check.height}px &middot; {check.sourceDpi} DPI from the original design on a {check.printAreaWidth}&times;{check.printAreaHeight}px{check.position && ` ${check.position.replace(/_/g, ' ')}`} print area
+                {check.backgroundRemoved && ' · background removed'}
+            </p>
+            {check.sourceDpi < TARGET_DPI && (
+                <p className="text-red-300">Below {TARGET_DPI} DPI before upscaling, which can't add detail: this will print soft at this placement. Shrink the design for a sharper print.</p>
+            )}
+        </div>
+    );
+
+    const renderPrepare = () => {
+        const options = settings.printPrepOptions;
+        const setOptions = (patch: Partial<typeof options>) => updateSettings({ printPrepOptions: { ...options, ...patch } });
+
+        return (
+            <div className="w-full max-w-6xl mx-auto flex flex-col items-center">
+                <div className="flex items-center justify-between w-full mb-6">
+                    <button 
+                        onClick={() => setStep('DESIGN')}
+                        className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors"
+                    >
+                        <ArrowLeftIcon className="w-5 h-5" />
+                        Back to Designs
+                    </button>
+                    <h2 className="text-2xl font-bold text-amber-300 text-center flex-1">Step 4: Prepare for Print</h2>
+                    <div className="w-24"></div> {/* Spacer for centering */}
                 </div>
-             )}
-
-            <div className="w-full space-y-12">
-                {finalizedProducts.map((product, idx) => (
-                    <div key={idx} className="bg-gray-800/50 border border-gray-700 rounded-2xl p-6 relative">
-                        <div className="flex flex-col md:flex-row items-center justify-between mb-6 gap-4">
-                             <div className="text-center md:text-left">
-                                <h3 className="text-2xl font-bold text-amber-400">"{product.concept.conceptTitle}"</h3>
-                                <p className="text-purple-300 font-semibold mt-1">{product.productType}</p>
-                            </div>
-                            <div className="flex gap-3">
-                                <button
-                                    onClick={() => handlePrintifyPublish(product)}
-                                    disabled={!!product.printifyId}
-                                    className={`text-white font-semibold py-2 px-4 rounded-lg flex items-center gap-2 text-sm border transition-colors ${
-                                        product.printifyId 
-                                        ? 'bg-green-900/50 border-green-600 text-green-400 cursor-default' 
-                                        : 'bg-green-600 hover:bg-green-700 border-green-500'
-                                    }`}
-                                >
-                                    {product.printifyId ? 'Published' : 'Send to Printify'}
-                                </button>
-                                <button
-                                    onClick={() => generateZip([product])}
-                                    className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg flex items-center gap-2 text-sm border border-gray-600 transition-colors"
-                                >
-                                    <DownloadIcon className="w-4 h-4" />
-                                    Download Package
-                                </button>
+                <p className="text-gray-400 mb-8 text-center">Backgrounds are keyed out, empty margins trimmed and each design upscaled to its print area.</p>
+
+                <div className="w-full bg-gray-800 border border-gray-700 rounded-xl p-4 mb-8 flex flex-wrap items-center gap-6 text-sm text-gray-300">
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={options.removeBackground} onChange={(e) => setOptions({ removeBackground: e.target.checked })}
+                            className="h-4 w-4 rounded border-gray-500 bg-gray-900/50 text-purple-600 focus:ring-purple-500 focus:ring-offset-0" />
+                        Remove background
+                    </label>
+                    <label className="flex items-center gap-2">
+                        Tolerance
+                        <input type="range" min={4} max={96} value={options.backgroundTolerance} disabled={!options.removeBackground}
+                            onChange={(e) => setOptions({ backgroundTolerance: Number(e.target.value) })} />
+                        <span className="w-6 text-gray-400">{options.backgroundTolerance}</span>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={options.trim} onChange={(e) => setOptions({ trim: e.target.checked })}
+                            className="h-4 w-4 rounded border-gray-500 bg-gray-900/50 text-purple-600 focus:ring-purple-500 focus:ring-offset-0" />
+                        Trim margins
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={options.upscale} onChange={(e) => setOptions({ upscale: e.target.checked })}
+                            className="h-4 w-4 rounded border-gray-500 bg-gray-900/50 text-purple-600 focus:ring-purple-500 focus:ring-offset-0" />
+                        Upscale to print area
+                    </label>
+                    <button
+                        onClick={() => handlePrepareDesigns(preparedDesigns.map(({ prepared, ...design }) => design))}
+                        disabled={isJobRunning('prepare')}
+                        className="ml-auto text-amber-300 hover:text-amber-200 font-semibold disabled:opacity-50"
+                    >
+                        {isJobRunning('prepare') ? 'Preparing...' : 'Re-run Pipeline'}
+                    </button>
+                </div>
+
+                <div className="w-full grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {preparedDesigns.map(design => (
+                        <div key={design.concept.id} className="bg-gray-800/40 rounded-xl p-4 border border-gray-700 flex flex-col gap-3">
+                            <div className="flex justify-between items-baseline gap-2">
+                                <h3 className="font-semibold text-amber-400 truncate" title={design.concept.conceptTitle}>"{design.concept.conceptTitle}"</h3>
+                                <span className="text-sm text-purple-300">{design.productType}</span>
                             </div>
-                        </div>
-                        
-                        <div className="grid lg:grid-cols-5 gap-8">
-                            <div className="lg:col-span-2 space-y-6">
+                            <div className="grid grid-cols-2 gap-3">
                                 <div>
-                                    <h4 className="text-xl font-bold text-purple-400 mb-3">Final Design</h4>
-                                    <div className="bg-gray-800 p-2 rounded-xl border border-gray-700" style={{ backgroundImage: 'url("data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAABAAAAAQCAYAAAAf8/9hAAAAAXNSR0IArs4c6QAAAC1JREFUOE9jZGBgEGHAD97/p038/w8f/v8ZPigew8+fP/8/f/78/w8f/g8A7pkBFCj/PcoAAAAASUVORK5CYII=")', backgroundRepeat: 'repeat' }}>
-                                        <img src={product.designUrl} alt="Final Design" className="rounded-lg w-full object-contain" />
+                                    <p className="text-xs text-gray-500 mb-1 text-center">Original</p>
+                                    <div className="aspect-square flex items-center justify-center rounded-lg overflow-hidden" style={CHECKERBOARD_STYLE}>
+                                        <img src={design.url} alt="Original design" className="max-w-full max-h-full object-contain" />
                                     </div>
                                 </div>
                                 <div>
-                                    <h4 className="text-xl font-bold text-purple-400 mb-3">Listing Copy</h4>
-                                    <div className="bg-gray-800 p-4 rounded-xl border border-gray-700 space-y-4 text-sm">
-                                        <CopyBlock title="Title" content={product.listingCopy?.title} />
-                                        <CopyBlock title="Description" content={product.listingCopy?.description} isTextArea={true} />
-                                        <CopyBlock title="Variations" content={product.listingCopy?.variations?.join(', ')} />
-                                        <CopyBlock title="Tags (13)" content={product.listingCopy?.tags?.join(', ')} />
+                                    <p className="text-xs text-gray-500 mb-1 text-center">Print-Ready</p>
+                                    <div className="aspect-square flex items-center justify-center rounded-lg overflow-hidden" style={CHECKERBOARD_STYLE}>
+                                        <img src={design.prepared?.cleanUrl ?? design.url} alt="Print-ready design" className="max-w-full max-h-full object-contain" />
                                     </div>
                                 </div>
                             </div>
-                            <div className="lg:col-span-3">
-                                <h4 className="text-xl font-bold text-purple-400 mb-3">Product Mockups ({product.mockups.length})</h4>
-                                <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-5 gap-4 bg-gray-800 p-4 rounded-xl border border-gray-700">
-                                    {product.mockups.map((url, index) => (
-                                        <img key={index} src={url} alt={`Mockup ${index + 1}`} className="rounded-md aspect-square object-cover w-full h-full" />
-                                    ))}
+                            {design.prepared ? (
+                                <div className="flex justify-between items-start gap-3">
+                                    {renderPrintCheck(design.prepared.check)}
+                                    <button onClick={() => handleUseOriginalDesign(design.concept.id)} className="text-xs text-gray-400 hover:text-white flex-shrink-0">
+                                        Use Original
+                                    </button>
                                 </div>
-                            </div>
+                            ) : (
+                                <p className="text-xs text-gray-400">
+                                    {isJobRunning('prepare') ? 'Preparing for print...' : 'Using the original design. Re-run the pipeline to process it again.'}
+                                </p>
+                            )}
+                            <details className="border-t border-gray-700 pt-3">
+                                <summary className="text-sm text-gray-300 cursor-pointer">
+                                    Mockup shots ({(design.mockupShots ?? DEFAULT_MOCKUP_SHOTS).length})
+                                </summary>
+                                <div className="mt-3">
+                                    <MockupShotPicker
+                                        shots={design.mockupShots ?? DEFAULT_MOCKUP_SHOTS}
+                                        onChange={(mockupShots) => setPreparedDesigns(prev => prev.map(d => d.concept.id === design.concept.id ? { ...d, mockupShots } : d))}
+                                    />
+                                </div>
+                            </details>
                         </div>
-                    </div>
-                ))}
-            </div>
+                    ))}
+                </div>
 
-            <div className="mt-12 flex flex-col items-center gap-6">
                 <button
-                    onClick={() => generateZip(finalizedProducts)}
-                    className="bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-gray-900 font-bold py-4 px-8 rounded-lg flex items-center gap-3 transition-transform transform hover:scale-105 text-lg"
+                    onClick={() => handleForgeAssets(preparedDesigns)}
+                    disabled={preparedDesigns.length === 0 || preparedDesigns.some(d => d.mockupShots?.length === 0) || isJobRunning('prepare')}
+                    className="mt-12 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white font-bold py-3 px-6 rounded-lg flex items-center gap-2 transition-transform transform hover:scale-105 disabled:opacity-50 disabled:scale-100"
                 >
-                    <DownloadIcon className="w-6 h-6" />
-                    Download Full Launch Pack (.zip)
+                    <SparklesIcon className="w-5 h-5" />
+                    Generate Assets for {preparedDesigns.length} {preparedDesigns.length === 1 ? 'Design' : 'Designs'}
                 </button>
-                 <button onClick={resetProcess} className="text-gray-400 hover:text-amber-300">
-                    + Forge Another Creation
-                 </button>
             </div>
-        </div>
-    );
+        );
+    };
     
-    const CopyBlock = ({ title, content, isTextArea = false }: { title: string; content?: string; isTextArea?: boolean }) => {
-        const [copied, setCopied] = useState(false);
-        const handleCopy = () => {
-            if (content) {
-                navigator.clipboard.writeText(content);
-                setCopied(true);
-                setTimeout(() => setCopied(false), 2000);
-            }
-        };
-
-        const DisplayComponent = isTextArea ? 'textarea' : 'input';
+    const renderFinalize = () => {
+        const pendingMockupCount = finalizedProducts.reduce((count, p) => count + p.mockups.filter(m => m.status !== 'done').length, 0);
+        const missingCopyCount = finalizedProducts.filter(p => !p.listingCopy).length;
 
         return (
-            <div>
-                <div className="flex justify-between items-center mb-1">
-                    <label className="font-semibold text-gray-300">{title}</label>
-                    <button onClick={handleCopy} className="text-xs text-amber-300 hover:text-amber-200">{copied ? 'Copied!' : 'Copy'}</button>
+            <div className="w-full max-w-7xl mx-auto flex flex-col items-center">
+                 <div className="flex items-center justify-between w-full max-w-5xl mb-6">
+                    <button 
+                        onClick={() => setStep('DESIGN')}
+                        className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors"
+                    >
+                        <ArrowLeftIcon className="w-5 h-5" />
+                        Back to Designs
+                    </button>
+                    <h2 className="text-3xl font-bold text-amber-300 text-center flex-1">Your Creations are Forged!</h2>
+                    <div className="w-24"></div> {/* Spacer for centering */}
+                 </div>
+             
+                 <p className="text-gray-400 mb-8 text-center">All assets for your generated design(s) are ready.</p>
+             
+                 {pendingMockupCount + missingCopyCount > 0 && !isJobRunning('mockup') && (
+                    <div className="mb-6 bg-amber-900/30 border border-amber-600 text-amber-200 px-6 py-4 rounded-lg w-full max-w-3xl flex items-center justify-between gap-4">
+                        <span>
+                            {[
+                                pendingMockupCount > 0 && `${pendingMockupCount} ${pendingMockupCount === 1 ? 'mockup is' : 'mockups are'} not rendered yet`,
+                                missingCopyCount > 0 && `${missingCopyCount} ${missingCopyCount === 1 ? 'product is' : 'products are'} missing listing copy`,
+                            ].filter(Boolean).join('; ')}.
+                        </span>
+                        <button onClick={handleResumeAssets} className="bg-amber-600 hover:bg-amber-500 text-white font-semibold py-2 px-4 rounded-lg flex-shrink-0">
+                            Resume
+                        </button>
+                    </div>
+                 )}
+
+                 {successMessage && (
+                    <div className="mb-6 bg-green-900/50 border border-green-500 text-green-300 px-6 py-4 rounded-lg w-full max-w-3xl text-center">
+                        {successMessage}
+                    </div>
+                 )}
+
+                <div className="w-full space-y-12">
+                    {finalizedProducts.map((product, idx) => {
+                        const targetShopIds = getTargetShopIds(product);
+                        const publishedShopIds = (product.printifyListings ?? []).map(l => l.shopId);
+                        const pendingShopCount = targetShopIds.filter(id => !publishedShopIds.includes(id)).length;
+                        const isFullyPublished = publishedShopIds.length > 0 && pendingShopCount === 0;
+                        const isLive = isFullyPublished && (product.printifyListings ?? []).every(l => l.publishStatus === 'published');
+                        const violations = product.listingCopy ? validateListingCopy(product.listingCopy, settings.trademarkBlocklist) : [];
+
+                        return (
+                            <div key={idx} className="bg-gray-800/50 border border-gray-700 rounded-2xl p-6 relative">
+                                <div className="flex flex-col md:flex-row items-center justify-between mb-6 gap-4">
+                                     <div className="text-center md:text-left">
+                                        <h3 className="text-2xl font-bold text-amber-400">"{product.concept.conceptTitle}"</h3>
+                                        <p className="text-purple-300 font-semibold mt-1">
+                                            {product.productType}
+                                            <span className="text-xs text-gray-500 font-normal ml-2">AI spend {formatCost(sumUsage(aiUsage.filter(u => u.conceptId === product.concept.id)).cost)}</span>
+                                        </p>
+                                    <button
+                                        onClick={() => setCatalogProductType(product.productType)}
+                                        className="text-xs text-gray-400 hover:text-amber-300 mt-1"
+                                    >
+                                        {settings.catalogSelections[product.productType] ? 'Edit Printify variants' : 'Choose Printify variants'}
+                                    </button>
+                                    </div>
+                                    <div className="flex gap-3">
+                                        <button
+                                            onClick={() => handlePrintifyPublish(product)}
+                                            disabled={isFullyPublished || screeningConceptId === product.concept.id}
+                                            className={`text-white font-semibold py-2 px-4 rounded-lg flex items-center gap-2 text-sm border transition-colors ${
+                                                isFullyPublished 
+                                                ? 'bg-green-900/50 border-green-600 text-green-400 cursor-default' 
+                                                : 'bg-green-600 hover:bg-green-700 border-green-500'
+                                            }`}
+                                        >
+                                            {isLive ? 'Published' : isFullyPublished ? 'Sent to Printify' : screeningConceptId === product.concept.id ? 'Screening for IP risk...' : pendingShopCount > 1 ? `Send to ${pendingShopCount} Shops` : 'Send to Printify'}
+                                        </button>
+                                        <button
+                                            onClick={() => generateZip([product])}
+                                            disabled={isPackaging}
+                                            className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg flex items-center gap-2 text-sm border border-gray-600 transition-colors disabled:opacity-50"
+                                        >
+                                            <DownloadIcon className="w-4 h-4" />
+                                            Download Package
+                                        </button>
+                                    </div>
+                                </div>
+
+                                {settings.printifyShops.length > 0 && (
+                                    <div className="flex flex-wrap items-center gap-2 mb-6">
+                                        <span className="text-sm text-gray-400 mr-1">Shops:</span>
+                                        {settings.printifyShops.map(shop => {
+                                            const listing = product.printifyListings?.find(l => l.shopId === shop.id);
+                                            const isTarget = targetShopIds.includes(shop.id);
+                                            return (
+                                                <button
+                                                    key={shop.id}
+                                                    onClick={() => handleToggleTargetShop(product, shop.id)}
+                                                    disabled={!!listing}
+                                                    title={listing ? `Printify product ${listing.productId}` : undefined}
+                                                    className={`py-1 px-3 rounded-full text-xs border transition-colors ${
+                                                        listing
+                                                        ? 'bg-green-900/50 border-green-600 text-green-400 cursor-default'
+                                                        : isTarget
+                                                            ? 'bg-purple-900/50 border-purple-500 text-white'
+                                                            : 'bg-gray-700/50 border-gray-600 text-gray-400 hover:text-white'
+                                                    }`}
+                                                >
+                                                    {listing ? '✓ ' : ''}{shop.title}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                        
+                                {(product.printifyListings ?? []).length > 0 && (
+                                    <div className="mb-6 bg-gray-800 p-4 rounded-xl border border-gray-700 space-y-2 text-sm">
+                                        {product.printifyListings!.map(listing => {
+                                            const status = listing.publishStatus ?? 'draft';
+                                            return (
+                                                <div key={listing.shopId} className="flex flex-wrap items-center gap-3">
+                                                    <span className="font-semibold text-gray-300">{listing.shopTitle}</span>
+                                                    <span className={`py-0.5 px-2 rounded-full text-xs border ${PUBLISH_STATUS_STYLES[status]}`}>
+                                                        {status === 'publishing' ? 'Publishing...' : status === 'pending' ? 'Pending confirmation' : status.charAt(0).toUpperCase() + status.slice(1)}
+                                                    </span>
+                                                    {listing.externalUrl && (
+                                                        <a href={listing.externalUrl} target="_blank" rel="noreferrer" className="text-xs text-amber-300 hover:text-amber-200">View listing</a>
+                                                    )}
+                                                    {listing.publishError && <span className="text-xs text-red-300">{listing.publishError}</span>}
+                                                    <div className="ml-auto flex gap-3">
+                                                        {listing.needsRelink ? (
+                                                            <button onClick={() => handleRelinkListing(product.concept.id, listing)} className="text-xs text-amber-300 hover:text-amber-200 font-semibold">
+                                                                Re-link Shop
+                                                            </button>
+                                                        ) : (
+                                                            <>
+                                                                {(status === 'failed' || status === 'draft') && (
+                                                                    <button onClick={() => handleRetryPublish(product.concept.id, listing)} className="text-xs text-green-400 hover:text-green-300 font-semibold">
+                                                                        {status === 'failed' ? 'Retry Publish' : 'Publish'}
+                                                                    </button>
+                                                                )}
+                                                                <button onClick={() => handleRefreshListingStatus(product.concept.id, listing)} className="text-xs text-gray-400 hover:text-white">
+                                                                    Refresh
+                                                                </button>
+                                                            </>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            
+                                <div className="grid lg:grid-cols-5 gap-8">
+                                    <div className="lg:col-span-2 space-y-6">
+                                        <div>
+                                            <h4 className="text-xl font-bold text-purple-400 mb-3">Final Design</h4>
+                                            <div className="bg-gray-800 p-2 rounded-xl border border-gray-700" style={CHECKERBOARD_STYLE}>
+                                                <img src={product.designUrl} alt="Final Design" className="rounded-lg w-full object-contain" />
+                                            </div>
+                                            {product.printCheck && <div className="mt-2">{renderPrintCheck(product.printCheck)}</div>}
+                                        </div>
+                                        <div>
+                                            <h4 className="text-xl font-bold text-purple-400 mb-3">Listing Copy</h4>
+                                            {product.listingRiskScreening && (
+                                                <div className="mb-3">
+                                                    <RiskScreeningPanel
+                                                        screening={product.listingRiskScreening}
+                                                        onOverride={(reason) => updateFinalizedProduct(product.concept.id, { listingRiskScreening: overrideRisk(product.listingRiskScreening!, reason) })}
+                                                    />
+                                                </div>
+                                            )}
+                                            <ListingCopyEditor
+                                                copy={product.listingCopy}
+                                                violations={violations}
+                                                onChange={(listingCopy) => updateFinalizedProduct(product.concept.id, { listingCopy })}
+                                                onRewrite={(field, mode, rewriteAudience) => handleRewriteListingField(product, field, mode, rewriteAudience)}
+                                                onFix={() => handleFixListingCopy(product)}
+                                                onReplaceTags={() => handleReplaceTags(product)}
+                                            />
+                                        </div>
+                                        <div>
+                                            <h4 className="text-xl font-bold text-purple-400 mb-3">Translations</h4>
+                                            <LocalizedListings
+                                                listings={product.localizedListings ?? {}}
+                                                blocklist={settings.trademarkBlocklist}
+                                                canLocalize={!!product.listingCopy}
+                                                onLocalize={(locale, localizeDesign) => handleLocalizeListing(product, locale, localizeDesign)}
+                                                onChange={(locale, listingCopy) => updateLocalizedListing(product.concept.id, locale, { ...product.localizedListings![locale], listingCopy })}
+                                                onRenderDesign={(locale) => handleRenderLocalizedDesign(product, locale)}
+                                                onRemove={(locale) => updateLocalizedListing(product.concept.id, locale, undefined)}
+                                            />
+                                        </div>
+                                        {product.concept.personalization && product.artUrl && (
+                                            <div>
+                                                <h4 className="text-xl font-bold text-purple-400 mb-3">Personalize an Order</h4>
+                                                <PersonalizedOrderForm
+                                                    personalization={product.concept.personalization}
+                                                    onRender={(values) => handleDownloadPersonalizedOrder(product, values)}
+                                                />
+                                            </div>
+                                        )}
+                                    </div>
+                                    <div className="lg:col-span-3">
+                                        <h4 className="text-xl font-bold text-purple-400 mb-3">
+                                            Product Mockups ({product.mockups.filter(m => m.url).length}/{product.mockups.length})
+                                        </h4>
+                                        <p className="text-xs text-gray-400 mb-2">
+                                            Printify's API can't add custom images to a listing, so mockups ship in the launch pack for upload in Printify or Etsy.
+                                        </p>
+                                        <MockupGallery
+                                            mockups={product.mockups}
+                                            onReroll={(index) => handleRerollMockup(product, index)}
+                                        />
+                                    </div>
+                                </div>
+                                <div className="mt-8">
+                                    <h4 className="text-xl font-bold text-purple-400 mb-3">Placement</h4>
+                                    <PlacementEditor
+                                        token={printifyToken}
+                                        productType={product.productType}
+                                        selection={settings.catalogSelections[product.productType]}
+                                        designUrl={product.designUrl}
+                                        sourceWidth={product.printCheck?.sourceWidth}
+                                        placements={product.placements}
+                                        onChange={(placements) => handlePlacementsChange(product, placements)}
+                                    />
+                                </div>
+                                <div className="mt-8">
+                                    <h4 className="text-xl font-bold text-purple-400 mb-3">Pricing & Projected Profit</h4>
+                                    <PricingPanel
+                                        token={printifyToken}
+                                        productType={product.productType}
+                                        selection={settings.catalogSelections[product.productType]}
+                                        rule={getPricingRule(product.productType, settings.pricingRules)}
+                                        onRuleChange={(rule) => updateSettings({ pricingRules: { ...settings.pricingRules, [product.productType]: rule } })}
+                                        onChooseVariants={() => setCatalogProductType(product.productType)}
+                                    />
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="mt-12 flex flex-col items-center gap-6">
+                    <button
+                        onClick={() => generateZip(finalizedProducts)}
+                        disabled={isPackaging}
+                        className="bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-gray-900 font-bold py-4 px-8 rounded-lg flex items-center gap-3 transition-transform transform hover:scale-105 text-lg disabled:opacity-50 disabled:scale-100"
+                    >
+                        <DownloadIcon className="w-6 h-6" />
+                        {isPackaging ? 'Packaging your launch kit...' : 'Download Full Launch Pack (.zip)'}
+                    </button>
+                     <button onClick={handleNewProject} className="text-gray-400 hover:text-amber-300">
+                        + Forge Another Creation
+                     </button>
                 </div>
-                <DisplayComponent
-                    readOnly
-                    value={content || ''}
-                    className="w-full bg-gray-700/50 text-gray-300 border border-gray-600 rounded-md px-2 py-1 text-xs"
-                    rows={isTextArea ? 5 : undefined}
-                />
             </div>
         );
     };
-
+    
     const renderContent = () => {
-        if (isLoading) return renderLoader();
+        if (showLibrary) {
+            return (
+                <ProjectLibrary
+                    projects={projects}
+                    activeProjectId={projectId}
+                    onOpen={project => handleOpenProject(project.id)}
+                    onDuplicate={handleDuplicateProject}
+                    onDelete={handleDeleteProject}
+                    onRename={handleRenameProject}
+                    onNew={handleNewProject}
+                    onClose={() => setShowLibrary(false)}
+                />
+            );
+        }
 
         switch (step) {
             case 'FINALIZE': return renderFinalize();
+            case 'PREPARE': return renderPrepare();
             case 'DESIGN': return renderDesign();
             case 'IDEATION': return renderIdeation();
             case 'CONFIG':
@@ -650,6 +2437,66 @@ const App: React.FC = () => {
                 )}
                 {renderContent()}
                 {renderSettingsModal()}
+                <JobsPanel
+                    jobs={jobs}
+                    currentProjectId={projectId}
+                    onPause={pauseJob}
+                    onResume={resumeJob}
+                    onCancel={cancelJob}
+                    onRetry={retryJob}
+                    onDismiss={dismissJob}
+                    onClearFinished={clearFinishedJobs}
+                    onOpenProject={handleOpenProject}
+                />
+                {showCostSummary && (
+                    <CostSummary
+                        usage={aiUsage}
+                        concepts={variations}
+                        budget={settings.projectBudget}
+                        onClose={() => setShowCostSummary(false)}
+                    />
+                )}
+                {showBlueprintManager && blueprints.length > 0 && (
+                    <BlueprintManager
+                        blueprints={blueprints}
+                        initialBlueprintId={activeBlueprint.id}
+                        onSave={handleSaveBlueprint}
+                        onDelete={handleDeleteBlueprint}
+                        onClose={() => setShowBlueprintManager(false)}
+                    />
+                )}
+                {showStyleManager && (
+                    <StyleManager
+                        styles={styles}
+                        initialStyleId={activeStyle.id}
+                        onSave={handleSaveStyle}
+                        onDelete={handleDeleteStyle}
+                        onClose={() => setShowStyleManager(false)}
+                    />
+                )}
+                {showOccasionManager && (
+                    <OccasionManager
+                        occasions={settings.occasions}
+                        audiences={settings.audiences}
+                        onSave={(occasions, audiences) => { updateSettings({ occasions, audiences }); setShowOccasionManager(false); }}
+                        onClose={() => setShowOccasionManager(false)}
+                    />
+                )}
+                {catalogProductType && (
+                    <CatalogModal
+                        token={printifyToken}
+                        productTypes={PRODUCT_TYPES}
+                        initialProductType={catalogProductType}
+                        selections={settings.catalogSelections}
+                        onSave={(catalogSelections) => {
+                            updateSettings({ catalogSelections });
+                            setCatalogProductType(null);
+                            // New variants can mean new print areas, so every print check is redone.
+                            recheckPrint(finalizedProducts, catalogSelections).catch(handleApiError);
+                        }}
+                        onClose={() => setCatalogProductType(null)}
+                    />
+                )}
             </main>
         </div>
     );
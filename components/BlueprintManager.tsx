@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import type { Blueprint } from '../types';
+import { createBlueprint, cloneBlueprint, getBlueprintContent, DEFAULT_BLUEPRINT_ID } from '../services/blueprintService';
+import { DuplicateIcon, TrashIcon } from './icons';
+
+interface BlueprintManagerProps {
+    blueprints: Blueprint[];
+    initialBlueprintId: string;
+    onSave: (blueprint: Blueprint, content: string, note?: string) => Promise<Blueprint | undefined>;
+    onDelete: (id: string) => Promise<Blueprint | undefined>; // Resolves to the blueprint to show next
+    onClose: () => void;
+}
+
+const INPUT_CLASS = "w-full bg-gray-900 text-white border border-gray-600 rounded-md px-3 py-2 text-sm focus:ring-purple-500 focus:border-purple-500";
+
+const formatTimestamp = (timestamp: number) =>
+    timestamp === 0 ? 'Shipped with the app' : new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const BlueprintManager: React.FC<BlueprintManagerProps> = ({ blueprints, initialBlueprintId, onSave, onDelete, onClose }) => {
+    const initial = blueprints.find(b => b.id === initialBlueprintId) ?? blueprints[0];
+    const [activeId, setActiveId] = useState(initial.id);
+    const [name, setName] = useState(initial.name);
+    const [content, setContent] = useState(getBlueprintContent(initial));
+    const [note, setNote] = useState('');
+
+    const blueprint = blueprints.find(b => b.id === activeId) ?? blueprints[0];
+    const isDirty = name !== blueprint.name || content !== getBlueprintContent(blueprint);
+    const isDefault = blueprint.id === DEFAULT_BLUEPRINT_ID;
+
+    const load = (next: Blueprint) => {
+        setActiveId(next.id);
+        setName(next.name);
+        setContent(getBlueprintContent(next));
+        setNote('');
+    };
+
+    const confirmDiscard = () => !isDirty || window.confirm(`Discard unsaved changes to "${blueprint.name}"?`);
+
+    const handleCreate = async (next: Blueprint) => {
+        if (!confirmDiscard()) return;
+        const saved = await onSave(next, getBlueprintContent(next));
+        if (saved) load(saved);
+    };
+
+    const handleSave = async () => {
+        const saved = await onSave({ ...blueprint, name: name.trim() }, content, note.trim());
+        if (saved) load(saved);
+    };
+
+    const handleDelete = async () => {
+        const message = isDefault
+            ? `Reset "${blueprint.name}" to the original text? Its revision history is discarded.`
+            : `Delete "${blueprint.name}"? Projects using it fall back to the default blueprint.`;
+        if (!window.confirm(message)) return;
+        const next = await onDelete(blueprint.id);
+        if (next) load(next);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 backdrop-blur-sm" onClick={onClose}>
+            <div className="bg-gray-800 border border-gray-700 p-8 rounded-2xl max-w-6xl w-full max-h-[90vh] overflow-y-auto shadow-2xl relative" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6 border-b border-gray-700 pb-4">
+                    <h3 className="text-xl font-bold text-white">Knowledge Base</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+                        <span className="text-2xl">&times;</span>
+                    </button>
+                </div>
+
+                <div className="grid md:grid-cols-4 gap-6">
+                    <div className="flex flex-col gap-1">
+                        <button
+                            onClick={() => handleCreate(createBlueprint('New Blueprint'))}
+                            className="mb-3 w-full bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold py-2 rounded-lg transition-colors"
+                        >
+                            + New Blueprint
+                        </button>
+                        {blueprints.map(b => (
+                            <button
+                                key={b.id}
+                                onClick={() => confirmDiscard() && load(b)}
+                                className={`text-left py-1.5 px-3 rounded-lg text-sm transition-colors ${
+                                    b.id === activeId ? 'bg-purple-900/50 text-white ring-2 ring-purple-500' : 'text-gray-400 hover:bg-gray-700'
+                                }`}
+                            >
+                                {b.name}
+                                <span className="block text-xs text-gray-500">{b.revisions.length} {b.revisions.length === 1 ? 'revision' : 'revisions'}</span>
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="md:col-span-2 space-y-3 text-sm">
+                        <div className="flex items-center gap-3">
+                            <input value={name} onChange={(e) => setName(e.target.value)} className={`${INPUT_CLASS} text-lg font-semibold`} />
+                            <button
+                                onClick={() => handleCreate(cloneBlueprint(blueprint, `${blueprint.name} (Copy)`))}
+                                title="Clone"
+                                className="text-gray-400 hover:text-white p-2 rounded-lg hover:bg-gray-700 transition-colors"
+                            >
+                                <DuplicateIcon className="w-5 h-5" />
+                            </button>
+                            {(!isDefault || blueprint.updatedAt > 0) && (
+                                <button onClick={handleDelete} title={isDefault ? 'Reset to original' : 'Delete'} className="text-gray-400 hover:text-red-400 p-2 rounded-lg hover:bg-gray-700 transition-colors">
+                                    <TrashIcon className="w-5 h-5" />
+                                </button>
+                            )}
+                        </div>
+                        <textarea
+                            value={content}
+                            onChange={(e) => setContent(e.target.value)}
+                            rows={20}
+                            placeholder="Core trends, best-selling products, audiences, pricing notes..."
+                            className={`${INPUT_CLASS} font-mono text-xs resize-y`}
+                        />
+                        <div className="flex gap-3">
+                            <input
+                                value={note}
+                                onChange={(e) => setNote(e.target.value)}
+                                placeholder="What changed? (optional)"
+                                className={INPUT_CLASS}
+                            />
+                            <button
+                                onClick={handleSave}
+                                disabled={!isDirty || !name.trim()}
+                                className="bg-purple-600 hover:bg-purple-700 text-white font-semibold py-2 px-6 rounded-lg transition-colors disabled:opacity-50 flex-shrink-0"
+                            >
+                                Save Revision
+                            </button>
+                        </div>
+                    </div>
+
+                    <div>
+                        <p className="text-xs uppercase tracking-wide text-gray-500 mb-2">History</p>
+                        <ol className="space-y-2 text-xs">
+                            {[...blueprint.revisions].reverse().map((revision, index) => (
+                                <li key={revision.id} className="bg-gray-900/40 border border-gray-700 rounded-lg p-2">
+                                    <p className="text-gray-300">
+                                        v{blueprint.revisions.length - index}{index === 0 && <span className="text-green-400"> · current</span>}
+                                    </p>
+                                    <p className="text-gray-500">{formatTimestamp(revision.createdAt)}</p>
+                                    {revision.note && <p className="text-gray-400 mt-1">{revision.note}</p>}
+                                    {revision.content !== content && (
+                                        <button onClick={() => setContent(revision.content)} className="text-amber-300 hover:text-amber-200 mt-1">
+                                            Load into editor
+                                        </button>
+                                    )}
+                                </li>
+                            ))}
+                        </ol>
+                        <p className="text-xs text-gray-500 mt-2">Loading an old revision and saving it adds it as a new revision.</p>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
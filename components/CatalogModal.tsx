@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import type { ProductType, CatalogSelection, PrintifyPrintProvider, PrintifyCatalogVariant } from '../types';
+import { DEFAULT_BLUEPRINTS, getBlueprint, getPrintProviders, getCatalogVariants, getVariantOptions, filterVariants } from '../services/printifyCatalogService';
+import { RefreshIcon } from './icons';
+
+// Printify rejects products with more enabled variants than this.
+const MAX_ENABLED_VARIANTS = 100;
+
+interface CatalogModalProps {
+    token: string;
+    productTypes: ProductType[];
+    initialProductType: ProductType;
+    selections: Partial<Record<ProductType, CatalogSelection>>;
+    onSave: (selections: Partial<Record<ProductType, CatalogSelection>>) => void;
+    onClose: () => void;
+}
+
+const defaultSelection = (productType: ProductType): CatalogSelection => ({
+    blueprintId: DEFAULT_BLUEPRINTS[productType].blueprint_id,
+    printProviderId: DEFAULT_BLUEPRINTS[productType].print_provider_id,
+    options: {},
+});
+
+export const CatalogModal: React.FC<CatalogModalProps> = ({ token, productTypes, initialProductType, selections, onSave, onClose }) => {
+    const [activeType, setActiveType] = useState<ProductType>(initialProductType);
+    const [drafts, setDrafts] = useState<Partial<Record<ProductType, CatalogSelection>>>(() => ({
+        ...selections,
+        [initialProductType]: selections[initialProductType] ?? defaultSelection(initialProductType),
+    }));
+    const [blueprintTitle, setBlueprintTitle] = useState('');
+    const [providers, setProviders] = useState<PrintifyPrintProvider[]>([]);
+    const [variants, setVariants] = useState<PrintifyCatalogVariant[]>([]);
+    const [isFetching, setIsFetching] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const draft = drafts[activeType] ?? defaultSelection(activeType);
+
+    const updateDraft = (patch: Partial<CatalogSelection>) => {
+        setDrafts(prev => ({ ...prev, [activeType]: { ...draft, ...patch } }));
+    };
+
+    const loadCatalog = async (refresh: boolean, isCancelled: () => boolean = () => false) => {
+        if (!token) return;
+        setIsFetching(true);
+        setError(null);
+        try {
+            const [blueprint, providerList, variantList] = await Promise.all([
+                getBlueprint(token, draft.blueprintId, refresh),
+                getPrintProviders(token, draft.blueprintId, refresh),
+                getCatalogVariants(token, draft.blueprintId, draft.printProviderId, refresh),
+            ]);
+            if (isCancelled()) return;
+            setBlueprintTitle(blueprint.title);
+            setProviders(providerList);
+            setVariants(variantList);
+        } catch (e) {
+            if (!isCancelled()) setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            if (!isCancelled()) setIsFetching(false);
+        }
+    };
+
+    useEffect(() => {
+        let cancelled = false;
+        setVariants([]);
+        loadCatalog(false, () => cancelled);
+        return () => { cancelled = true; };
+    }, [token, draft.blueprintId, draft.printProviderId]);
+
+    const handleSelectType = (productType: ProductType) => {
+        setActiveType(productType);
+        setDrafts(prev => prev[productType] ? prev : { ...prev, [productType]: defaultSelection(productType) });
+    };
+
+    const handleToggleOption = (key: string, value: string) => {
+        const current = draft.options[key] ?? [];
+        const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+        updateDraft({ options: { ...draft.options, [key]: next } });
+    };
+
+    const options = getVariantOptions(variants);
+    const matchCount = filterVariants(variants, draft).length;
+
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 backdrop-blur-sm" onClick={onClose}>
+            <div className="bg-gray-800 border border-gray-700 p-8 rounded-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto shadow-2xl relative" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6 border-b border-gray-700 pb-4">
+                    <h3 className="text-xl font-bold text-white">Printify Catalog</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+                        <span className="text-2xl">&times;</span>
+                    </button>
+                </div>
+
+                {!token ? (
+                    <p className="text-gray-400 text-center py-8">Add your Printify API Token in Settings to browse the catalog.</p>
+                ) : (
+                    <div className="grid md:grid-cols-4 gap-6">
+                        <div className="flex md:flex-col flex-wrap gap-2">
+                            {productTypes.map(pt => (
+                                <button
+                                    key={pt}
+                                    onClick={() => handleSelectType(pt)}
+                                    className={`text-left py-2 px-3 rounded-lg text-sm transition-colors ${
+                                        pt === activeType ? 'bg-purple-900/50 text-white ring-2 ring-purple-500' : 'text-gray-400 hover:bg-gray-700'
+                                    }`}
+                                >
+                                    {pt}
+                                    {drafts[pt] && <span className="block text-xs text-gray-500">Configured</span>}
+                                </button>
+                            ))}
+                        </div>
+
+                        <div className="md:col-span-3 space-y-6">
+                            <div className="flex justify-between items-start gap-4">
+                                <div>
+                                    <p className="text-xs text-gray-500">Blueprint #{draft.blueprintId}</p>
+                                    <p className="text-lg font-semibold text-amber-400">{blueprintTitle || activeType}</p>
+                                </div>
+                                <button
+                                    onClick={() => loadCatalog(true)}
+                                    disabled={isFetching}
+                                    className="text-xs text-amber-300 hover:text-amber-200 flex items-center gap-1 disabled:opacity-50"
+                                >
+                                    <RefreshIcon className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
+                                    Refresh
+                                </button>
+                            </div>
+
+                            {error && <p className="text-sm text-red-300 bg-red-900/40 border border-red-700 rounded-lg px-3 py-2">{error}</p>}
+
+                            <div>
+                                <label className="block text-sm font-semibold text-green-400 mb-2">Print Provider</label>
+                                <select
+                                    value={draft.printProviderId}
+                                    onChange={(e) => updateDraft({ printProviderId: Number(e.target.value), options: {} })}
+                                    className="w-full bg-gray-900 text-white border border-gray-600 rounded-lg px-4 py-3 focus:ring-green-500 focus:border-green-500 text-sm"
+                                >
+                                    {!providers.some(p => p.id === draft.printProviderId) && (
+                                        <option value={draft.printProviderId}>Provider #{draft.printProviderId}</option>
+                                    )}
+                                    {providers.map(p => <option key={p.id} value={p.id}>{p.title}</option>)}
+                                </select>
+                            </div>
+
+                            {Object.entries(options).map(([key, values]) => (
+                                <div key={key}>
+                                    <label className="block text-sm font-semibold text-purple-300 mb-2 capitalize">
+                                        {key} <span className="text-xs text-gray-500 font-normal normal-case">(none selected means all)</span>
+                                    </label>
+                                    <div className="flex flex-wrap gap-2">
+                                        {values.map(value => {
+                                            const isSelected = draft.options[key]?.includes(value);
+                                            return (
+                                                <button
+                                                    key={value}
+                                                    onClick={() => handleToggleOption(key, value)}
+                                                    className={`py-1 px-3 rounded-full text-xs border transition-colors ${
+                                                        isSelected ? 'bg-purple-900/50 border-purple-500 text-white' : 'bg-gray-700/50 border-gray-600 text-gray-400 hover:text-white'
+                                                    }`}
+                                                >
+                                                    {value}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            ))}
+
+                            {!isFetching && variants.length > 0 && (
+                                <p className={`text-sm ${matchCount > MAX_ENABLED_VARIANTS || matchCount === 0 ? 'text-red-300' : 'text-gray-400'}`}>
+                                    {matchCount} of {variants.length} variants selected
+                                    {matchCount > MAX_ENABLED_VARIANTS && ` (Printify allows at most ${MAX_ENABLED_VARIANTS})`}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                <div className="mt-8 flex justify-end">
+                    <button
+                        onClick={() => onSave(drafts)}
+                        disabled={!token}
+                        className="bg-purple-600 hover:bg-purple-700 text-white font-semibold py-2 px-6 rounded-lg transition-colors shadow-lg shadow-purple-900/20 disabled:opacity-50"
+                    >
+                        Save & Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import type { ConceptScores } from '../types';
+import { SCORE_CRITERIA, getOverallScore } from '../services/ideationService';
+
+interface ConceptScoresPanelProps {
+    scores: ConceptScores;
+}
+
+// Green for a good score, amber for middling, red for poor, whichever way the criterion runs.
+const scoreColor = (score: number, higherIsBetter: boolean): string => {
+    const goodness = higherIsBetter ? score : 11 - score;
+    return goodness >= 7 ? 'bg-green-500' : goodness >= 4 ? 'bg-amber-500' : 'bg-red-500';
+};
+
+/**
+ * A concept's scores as bars, with each rationale one click away so cards stay compact.
+ */
+export const ConceptScoresPanel: React.FC<ConceptScoresPanelProps> = ({ scores }) => (
+    <details className="text-xs text-gray-300">
+        <summary className="cursor-pointer select-none">
+            <span className="font-semibold text-amber-300">{getOverallScore(scores).toFixed(1)}/10 overall</span>
+            <span className="text-gray-500"> · ages {scores.ageBand.band}</span>
+        </summary>
+        <div className="mt-2 space-y-2">
+            {SCORE_CRITERIA.map(({ key, label, higherIsBetter }) => (
+                <div key={key}>
+                    <div className="flex items-center justify-between gap-2">
+                        <span>{label}</span>
+                        <span className="text-gray-400">{scores[key].score}/10</span>
+                    </div>
+                    <div className="h-1 bg-gray-700 rounded-full overflow-hidden">
+                        <div className={`h-full ${scoreColor(scores[key].score, higherIsBetter)}`} style={{ width: `${scores[key].score * 10}%` }} />
+                    </div>
+                    <p className="text-gray-500 mt-0.5">{scores[key].rationale}</p>
+                </div>
+            ))}
+            <p><span className="text-gray-400">Age band {scores.ageBand.band}:</span> <span className="text-gray-500">{scores.ageBand.rationale}</span></p>
+        </div>
+    </details>
+);
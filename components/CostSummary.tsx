@@ -0,0 +1,92 @@
+import React from 'react';
+import type { AiTask, AiUsageRecord, AppStep, ProductConcept } from '../types';
+import { TASK_STEPS, sumUsage, groupUsage, formatCost, type CostTotals } from '../services/costService';
+import { AI_TASK_LABELS } from '../services/aiProvider';
+
+interface CostSummaryProps {
+    usage: AiUsageRecord[];
+    concepts: ProductConcept[]; // Names the products usage is attributed to
+    budget: number | null;
+    onClose: () => void;
+}
+
+const STEP_LABELS: Partial<Record<AppStep, string>> = {
+    IDEATION: 'Concepts & screening',
+    DESIGN: 'Designs',
+    FINALIZE: 'Listings & mockups',
+};
+
+const formatTokens = (totals: CostTotals): string =>
+    `${totals.inputTokens.toLocaleString()} in · ${totals.outputTokens.toLocaleString()} out${totals.images > 0 ? ` · ${totals.images} images` : ''}`;
+
+const CostRow: React.FC<{ label: string; totals: CostTotals; indent?: boolean }> = ({ label, totals, indent }) => (
+    <div className={`flex items-baseline justify-between gap-3 ${indent ? 'pl-4 text-xs text-gray-400' : 'text-sm text-gray-200'}`}>
+        <span className="truncate">{label}</span>
+        <span className="flex items-baseline gap-3 shrink-0">
+            <span className="text-xs text-gray-500">{formatTokens(totals)}</span>
+            <span className="font-semibold w-16 text-right">{formatCost(totals.cost)}</span>
+        </span>
+    </div>
+);
+
+/**
+ * What the project's AI calls have cost so far, by pipeline step and by product.
+ */
+export const CostSummary: React.FC<CostSummaryProps> = ({ usage, concepts, budget, onClose }) => {
+    const total = sumUsage(usage);
+    const bySteps = groupUsage(usage, r => TASK_STEPS[r.task]);
+    const byTasks = groupUsage(usage, r => r.task);
+    const byProducts = groupUsage(usage, r => r.conceptId);
+    const titles = new Map<string, string>(concepts.map(c => [c.id, c.conceptTitle]));
+
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 backdrop-blur-sm" onClick={onClose}>
+            <div className="bg-gray-800 border border-gray-700 p-8 rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto shadow-2xl" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6 border-b border-gray-700 pb-4">
+                    <h3 className="text-xl font-bold text-white">Project AI Spend</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+                        <span className="text-2xl">&times;</span>
+                    </button>
+                </div>
+
+                <div className="flex items-baseline justify-between mb-6">
+                    <p className="text-3xl font-bold text-amber-300">{formatCost(total.cost)}</p>
+                    <p className="text-sm text-gray-400">
+                        {total.calls} calls{budget !== null && <> · budget {formatCost(budget)}{total.cost > budget && <span className="text-red-300"> (over)</span>}</>}
+                    </p>
+                </div>
+
+                {usage.length === 0 ? (
+                    <p className="text-sm text-gray-500">No AI calls have been made for this project yet.</p>
+                ) : (
+                    <div className="space-y-6">
+                        <div className="space-y-2">
+                            <h4 className="text-sm font-semibold text-purple-300">By step</h4>
+                            {(Object.keys(STEP_LABELS) as AppStep[]).filter(step => bySteps[step]).map(step => (
+                                <div key={step} className="space-y-1">
+                                    <CostRow label={STEP_LABELS[step]!} totals={bySteps[step]} />
+                                    {(Object.keys(byTasks) as AiTask[]).filter(task => TASK_STEPS[task] === step).map(task => (
+                                        <CostRow key={task} label={AI_TASK_LABELS[task]} totals={byTasks[task]} indent />
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+
+                        {Object.keys(byProducts).length > 0 && (
+                            <div className="space-y-1">
+                                <h4 className="text-sm font-semibold text-purple-300 mb-2">By product</h4>
+                                {Object.entries(byProducts).map(([conceptId, totals]) => (
+                                    <CostRow key={conceptId} label={titles.get(conceptId) ?? 'Removed concept'} totals={totals} />
+                                ))}
+                            </div>
+                        )}
+
+                        <p className="text-xs text-gray-500">
+                            Costs use the price table in Settings at the time of each call. Models without a price count as free.
+                        </p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import type { Job, JobStatus } from '../types';
+import { isJobActive } from '../services/jobService';
+
+interface JobsPanelProps {
+    jobs: Job[];
+    currentProjectId: string;
+    onPause: (id: string) => void;
+    onResume: (id: string) => void;
+    onCancel: (id: string) => void;
+    onRetry: (id: string) => void;
+    onDismiss: (id: string) => void;
+    onClearFinished: () => void;
+    onOpenProject: (projectId: string) => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+    queued: 'text-gray-400',
+    running: 'text-amber-300',
+    paused: 'text-blue-300',
+    done: 'text-green-400',
+    failed: 'text-red-300',
+    cancelled: 'text-gray-500',
+};
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+    queued: 'Queued',
+    running: 'Running',
+    paused: 'Paused',
+    done: 'Done',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+};
+
+const ACTION_CLASS = "text-xs font-semibold text-amber-300 hover:text-amber-200";
+
+/**
+ * Background jobs, newest first, docked in the corner so the rest of the app stays usable.
+ */
+export const JobsPanel: React.FC<JobsPanelProps> = ({ jobs, currentProjectId, onPause, onResume, onCancel, onRetry, onDismiss, onClearFinished, onOpenProject }) => {
+    const [isOpen, setIsOpen] = useState(true);
+    if (jobs.length === 0) return null;
+
+    const activeCount = jobs.filter(isJobActive).length;
+
+    return (
+        <div className="fixed bottom-4 right-4 z-40 w-80 bg-gray-800 border border-gray-700 rounded-xl shadow-2xl text-sm">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700">
+                <button onClick={() => setIsOpen(!isOpen)} className="font-semibold text-white hover:text-amber-300">
+                    Jobs{activeCount > 0 && <span className="text-amber-300"> · {activeCount} active</span>} {isOpen ? '▾' : '▸'}
+                </button>
+                {jobs.length > activeCount && (
+                    <button onClick={onClearFinished} className="text-xs text-gray-400 hover:text-white">Clear finished</button>
+                )}
+            </div>
+            {isOpen && (
+                <div className="max-h-80 overflow-y-auto divide-y divide-gray-700">
+                    {[...jobs].reverse().map(job => (
+                        <div key={job.id} className="px-4 py-3 space-y-1">
+                            <div className="flex items-baseline justify-between gap-2">
+                                <span className="text-gray-200 truncate" title={job.label}>{job.label}</span>
+                                <span className={`text-xs flex-shrink-0 ${STATUS_STYLES[job.status]}`}>
+                                    {STATUS_LABELS[job.status]}{job.total > 0 && ` ${job.done}/${job.total}`}
+                                </span>
+                            </div>
+                            {job.projectId !== currentProjectId && (
+                                <button onClick={() => onOpenProject(job.projectId)} className="text-xs text-purple-300 hover:text-purple-200 truncate block max-w-full">
+                                    {job.projectName}
+                                </button>
+                            )}
+                            {isJobActive(job) && (
+                                <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                                    {/* Jobs without countable steps show a pulsing bar while they run. */}
+                                    <div
+                                        className={`h-full bg-amber-400 transition-all ${job.total === 0 && job.status === 'running' ? 'animate-pulse opacity-50' : ''}`}
+                                        style={{ width: job.total > 0 ? `${(job.done / job.total) * 100}%` : job.status === 'running' ? '100%' : '0%' }}
+                                    />
+                                </div>
+                            )}
+                            {job.error && <p className="text-xs text-red-300">{job.error}</p>}
+                            <div className="flex gap-3">
+                                {job.status === 'running' && <button onClick={() => onPause(job.id)} className={ACTION_CLASS} title="Calls in flight finish; no new ones start">Pause</button>}
+                                {job.status === 'paused' && <button onClick={() => onResume(job.id)} className={ACTION_CLASS}>Resume</button>}
+                                {isJobActive(job) && <button onClick={() => onCancel(job.id)} className="text-xs font-semibold text-gray-400 hover:text-red-400">Cancel</button>}
+                                {(job.status === 'failed' || job.status === 'cancelled') && <button onClick={() => onRetry(job.id)} className={ACTION_CLASS}>Retry</button>}
+                                {!isJobActive(job) && <button onClick={() => onDismiss(job.id)} className="text-xs text-gray-500 hover:text-white">Dismiss</button>}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import type { ListingCopy, ListingViolation, RewritableListingField, ListingRewriteMode } from '../types';
+import { TAG_COUNT, TAG_MAX_LENGTH } from '../services/listingValidationService';
+
+interface ListingCopyEditorProps {
+    copy?: ListingCopy; // Undefined until written
+    violations: ListingViolation[];
+    onChange: (copy: ListingCopy) => void;
+    onRewrite?: (field: RewritableListingField, mode: ListingRewriteMode, audience?: string) => void; // AI actions are hidden without it
+    onFix: () => void;
+    onReplaceTags?: () => void;
+}
+
+const REWRITE_OPTIONS: { mode: ListingRewriteMode; label: string }[] = [
+    { mode: 'shorter', label: 'Shorter' },
+    { mode: 'funnier', label: 'Funnier' },
+    { mode: 'more-keywords', label: 'More keywords' },
+    { mode: 'different-audience', label: 'Different audience' },
+];
+
+const INPUT_CLASS = "w-full bg-gray-700/50 text-gray-200 border rounded-md px-2 py-1 text-xs focus:ring-purple-500 focus:border-purple-500";
+
+const CopyButton = ({ content }: { content: string }) => {
+    const [copied, setCopied] = useState(false);
+    const handleCopy = () => {
+        navigator.clipboard.writeText(content);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+    return <button onClick={handleCopy} className="text-xs text-amber-300 hover:text-amber-200">{copied ? 'Copied!' : 'Copy'}</button>;
+};
+
+const RewriteMenu = ({ onRewrite }: { onRewrite: (mode: ListingRewriteMode, audience?: string) => void }) => (
+    <select
+        value=""
+        onChange={(e) => {
+            const mode = e.target.value as ListingRewriteMode;
+            if (mode !== 'different-audience') return onRewrite(mode);
+            const audience = window.prompt('Rewrite for which audience? Leave empty to let the AI choose.');
+            if (audience !== null) onRewrite(mode, audience.trim() || undefined);
+        }}
+        className="bg-gray-700 text-purple-300 border border-gray-600 rounded-md px-1 py-0.5 text-xs"
+    >
+        <option value="" disabled>Rewrite...</option>
+        {REWRITE_OPTIONS.map(o => <option key={o.mode} value={o.mode}>{o.label}</option>)}
+    </select>
+);
+
+const Violations = ({ violations }: { violations: ListingViolation[] }) => (
+    <>
+        {violations.map((violation, index) => (
+            <p key={index} className="text-xs text-red-300 mt-1">{violation.message}</p>
+        ))}
+    </>
+);
+
+/**
+ * The listing copy as editable fields, each with its own AI rewrite actions. Tags are chips.
+ */
+export const ListingCopyEditor: React.FC<ListingCopyEditorProps> = ({ copy, violations, onChange, onRewrite, onFix, onReplaceTags }) => {
+    const [newTag, setNewTag] = useState('');
+
+    if (!copy) {
+        return (
+            <div className="bg-gray-800 p-4 rounded-xl border border-gray-700 text-sm text-gray-500">
+                Listing copy has not been written yet.
+            </div>
+        );
+    }
+
+    const update = (patch: Partial<ListingCopy>) => onChange({ ...copy, ...patch });
+    const fieldViolations = (field: ListingViolation['field']) => violations.filter(v => v.field === field);
+    const borderClass = (field: ListingViolation['field']) => fieldViolations(field).length > 0 ? 'border-red-600' : 'border-gray-600';
+    const badTags = new Set(violations.filter(v => v.tag).map(v => v.tag));
+
+    const handleAddTag = () => {
+        // Pasting a comma-separated list adds each tag.
+        const added = newTag.split(',').map(t => t.trim()).filter(Boolean);
+        if (added.length > 0) update({ tags: [...copy.tags, ...added] });
+        setNewTag('');
+    };
+
+    const renderHeader = (title: string, content: string, field?: RewritableListingField) => (
+        <div className="flex justify-between items-center gap-2 mb-1">
+            <label className="font-semibold text-gray-300">{title}</label>
+            <div className="flex items-center gap-3">
+                {field && onRewrite && <RewriteMenu onRewrite={(mode, audience) => onRewrite(field, mode, audience)} />}
+                <CopyButton content={content} />
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="bg-gray-800 p-4 rounded-xl border border-gray-700 space-y-4 text-sm">
+            {violations.length > 0 && (
+                <div className="flex flex-wrap items-center gap-3 bg-red-900/30 border border-red-700 rounded-lg px-3 py-2 text-xs text-red-200">
+                    <span className="flex-1">{violations.length} Etsy listing {violations.length === 1 ? 'issue' : 'issues'}</span>
+                    <button onClick={onFix} className="text-amber-300 hover:text-amber-200 font-semibold">
+                        Trim & Dedupe
+                    </button>
+                    {fieldViolations('tags').length > 0 && onReplaceTags && (
+                        <button onClick={onReplaceTags} className="text-amber-300 hover:text-amber-200 font-semibold">
+                            Replace Bad Tags
+                        </button>
+                    )}
+                </div>
+            )}
+
+            <div>
+                {renderHeader(`Title (${copy.title.length}/140)`, copy.title, 'title')}
+                <input value={copy.title} onChange={(e) => update({ title: e.target.value })} className={`${INPUT_CLASS} ${borderClass('title')}`} />
+                <Violations violations={fieldViolations('title')} />
+            </div>
+
+            <div>
+                {renderHeader('Description', copy.description, 'description')}
+                <textarea
+                    value={copy.description}
+                    onChange={(e) => update({ description: e.target.value })}
+                    rows={8}
+                    className={`${INPUT_CLASS} resize-y ${borderClass('description')}`}
+                />
+                <Violations violations={fieldViolations('description')} />
+            </div>
+
+            <div>
+                {renderHeader('Variations', copy.variations.join(', '))}
+                <input
+                    value={copy.variations.join(', ')}
+                    onChange={(e) => update({ variations: e.target.value.split(',').map(v => v.trimStart()) })}
+                    className={`${INPUT_CLASS} border-gray-600`}
+                />
+            </div>
+
+            <div>
+                {renderHeader(`Tags (${copy.tags.length}/${TAG_COUNT})`, copy.tags.join(', '), 'tags')}
+                <div className="flex flex-wrap gap-1.5">
+                    {copy.tags.map((tag, index) => (
+                        <span
+                            key={index}
+                            title={tag.length > TAG_MAX_LENGTH ? `${tag.length}/${TAG_MAX_LENGTH} characters` : undefined}
+                            className={`py-0.5 pl-2 pr-1 rounded-full text-xs border flex items-center gap-1 ${
+                                badTags.has(tag) ? 'bg-red-900/40 border-red-600 text-red-200' : 'bg-gray-700/50 border-gray-600 text-gray-300'
+                            }`}
+                        >
+                            {tag}
+                            <button onClick={() => update({ tags: copy.tags.filter((_, i) => i !== index) })} className="text-gray-500 hover:text-red-400 px-1">
+                                &times;
+                            </button>
+                        </span>
+                    ))}
+                </div>
+                {copy.tags.length < TAG_COUNT && (
+                    <input
+                        value={newTag}
+                        onChange={(e) => setNewTag(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleAddTag(); }}
+                        onBlur={handleAddTag}
+                        placeholder="Add a tag and press Enter"
+                        className={`${INPUT_CLASS} border-gray-600 mt-2`}
+                    />
+                )}
+                <Violations violations={fieldViolations('tags')} />
+            </div>
+
+            {copy.personalizationInstructions !== undefined && (
+                <div>
+                    {renderHeader(`Personalization (limit ${copy.personalizationCharLimit} characters)`, copy.personalizationInstructions)}
+                    <textarea
+                        value={copy.personalizationInstructions}
+                        onChange={(e) => update({ personalizationInstructions: e.target.value })}
+                        rows={3}
+                        className={`${INPUT_CLASS} border-gray-600 resize-y`}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import type { ListingCopy, LocalizedListing } from '../types';
+import { LISTING_LOCALES, getLocaleName } from '../services/localeService';
+import { validateListingCopy, fixListingCopy } from '../services/listingValidationService';
+import { ListingCopyEditor } from './ListingCopyEditor';
+import { TrashIcon } from './icons';
+
+interface LocalizedListingsProps {
+    listings: Record<string, LocalizedListing>;
+    blocklist: string[];
+    canLocalize: boolean; // False until the English copy exists
+    onLocalize: (locale: string, localizeDesign: boolean) => void;
+    onChange: (locale: string, listingCopy: ListingCopy) => void;
+    onRenderDesign: (locale: string) => void;
+    onRemove: (locale: string) => void;
+}
+
+/**
+ * Translations of a product's listing, one tab per locale, each checked against the same Etsy
+ * rules as the English copy.
+ */
+export const LocalizedListings: React.FC<LocalizedListingsProps> = ({ listings, blocklist, canLocalize, onLocalize, onChange, onRenderDesign, onRemove }) => {
+    const locales = Object.keys(listings);
+    const available = LISTING_LOCALES.filter(l => !listings[l.code]);
+    const [activeLocale, setActiveLocale] = useState<string | null>(null);
+    const [newLocale, setNewLocale] = useState(available[0]?.code ?? '');
+    const [localizeDesign, setLocalizeDesign] = useState(false);
+
+    const shownLocale = activeLocale && listings[activeLocale] ? activeLocale : locales[0];
+    const shown = shownLocale ? listings[shownLocale] : undefined;
+    const localeToAdd = available.some(l => l.code === newLocale) ? newLocale : available[0]?.code;
+
+    return (
+        <div className="space-y-3 text-sm">
+            {available.length > 0 && (
+                <div className="flex flex-wrap items-center gap-3">
+                    <select
+                        value={localeToAdd}
+                        onChange={(e) => setNewLocale(e.target.value)}
+                        className="bg-gray-700 text-white border border-gray-600 rounded-md px-2 py-1.5 text-sm focus:ring-purple-500 focus:border-purple-500"
+                    >
+                        {available.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+                    </select>
+                    <label className="flex items-center gap-2 text-xs text-gray-400">
+                        <input
+                            type="checkbox"
+                            checked={localizeDesign}
+                            onChange={(e) => setLocalizeDesign(e.target.checked)}
+                            className="h-4 w-4 rounded border-gray-500 bg-gray-900/50 text-purple-600 focus:ring-purple-500"
+                        />
+                        Localize design text too
+                    </label>
+                    <button
+                        onClick={() => { onLocalize(localeToAdd, localizeDesign); setActiveLocale(localeToAdd); }}
+                        disabled={!canLocalize}
+                        className="bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold py-1.5 px-3 rounded-md text-sm border border-gray-600 transition-colors disabled:opacity-50"
+                    >
+                        Translate
+                    </button>
+                </div>
+            )}
+
+            {locales.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {locales.map(locale => {
+                        const issueCount = validateListingCopy(listings[locale].listingCopy, blocklist).length;
+                        return (
+                            <button
+                                key={locale}
+                                onClick={() => setActiveLocale(locale)}
+                                className={`py-1 px-3 rounded-full text-xs border transition-colors ${
+                                    locale === shownLocale ? 'bg-purple-900/50 border-purple-500 text-white' : 'bg-gray-700/50 border-gray-600 text-gray-400 hover:text-white'
+                                }`}
+                            >
+                                {getLocaleName(locale)}{issueCount > 0 && <span className="text-red-300"> · {issueCount}</span>}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            {shown && (
+                <div className="space-y-3">
+                    <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+                        {shown.displayText && <span>Design text: <span className="text-purple-300 font-semibold">"{shown.displayText}"</span></span>}
+                        {shown.displayText && (
+                            <button onClick={() => onRenderDesign(shown.locale)} className="text-amber-300 hover:text-amber-200 font-semibold">
+                                {shown.designUrl ? 'Re-render Design Variant' : 'Render Design Variant'}
+                            </button>
+                        )}
+                        <button onClick={() => onRemove(shown.locale)} title={`Remove ${getLocaleName(shown.locale)}`} className="ml-auto text-gray-500 hover:text-red-400">
+                            <TrashIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                    {shown.designUrl && (
+                        <img src={shown.designUrl} alt={`${getLocaleName(shown.locale)} design`} className="w-32 h-32 object-contain rounded-lg border border-gray-700 bg-gray-900" />
+                    )}
+                    <ListingCopyEditor
+                        copy={shown.listingCopy}
+                        violations={validateListingCopy(shown.listingCopy, blocklist)}
+                        onChange={(listingCopy) => onChange(shown.locale, listingCopy)}
+                        onFix={() => onChange(shown.locale, fixListingCopy(shown.listingCopy, blocklist))}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
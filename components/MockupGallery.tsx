@@ -0,0 +1,45 @@
+import React from 'react';
+import type { ProductMockup } from '../types';
+import { getMockupLabel } from '../services/geminiService';
+import { RefreshIcon } from './icons';
+
+interface MockupGalleryProps {
+    mockups: ProductMockup[];
+    onReroll: (index: number) => void;
+}
+
+export const MockupGallery: React.FC<MockupGalleryProps> = ({ mockups, onReroll }) => (
+    <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-5 gap-4 bg-gray-800 p-4 rounded-xl border border-gray-700">
+        {mockups.map((mockup, index) => {
+            const label = getMockupLabel(mockup);
+            return (
+                <div key={mockup.id} className="relative group">
+                    {mockup.url ? (
+                        <img
+                            src={mockup.url}
+                            alt={label}
+                            title={label}
+                            className="rounded-md aspect-square object-cover w-full h-full"
+                        />
+                    ) : (
+                        <div className="rounded-md aspect-square w-full bg-gray-700/50 border border-dashed border-gray-600 flex flex-col items-center justify-center gap-2 p-2 text-center">
+                            <span className="text-xs text-gray-300">{label}</span>
+                            {mockup.status === 'failed' ? (
+                                <span className="text-xs text-red-300 line-clamp-3" title={mockup.error}>Failed: {mockup.error}</span>
+                            ) : (
+                                <span className="text-xs text-gray-500">Not rendered yet</span>
+                            )}
+                        </div>
+                    )}
+                    <button
+                        onClick={() => onReroll(index)}
+                        title={mockup.url ? `Re-roll ${label}` : `Render ${label}`}
+                        className={`absolute top-1 right-1 bg-gray-900/80 text-white rounded p-1 transition-opacity ${mockup.url ? 'opacity-0 group-hover:opacity-100' : ''}`}
+                    >
+                        <RefreshIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            );
+        })}
+    </div>
+);
@@ -0,0 +1,43 @@
+import React from 'react';
+import type { MockupShot } from '../types';
+import { MOCKUP_SCENES, MOCKUP_COLORS } from '../services/geminiService';
+
+interface MockupShotPickerProps {
+    shots: MockupShot[];
+    onChange: (shots: MockupShot[]) => void;
+}
+
+const isSameShot = (a: MockupShot, b: MockupShot) => a.sceneId === b.sceneId && a.color === b.color;
+
+export const MockupShotPicker: React.FC<MockupShotPickerProps> = ({ shots, onChange }) => {
+    const handleToggle = (shot: MockupShot) => {
+        onChange(shots.some(s => isSameShot(s, shot)) ? shots.filter(s => !isSameShot(s, shot)) : [...shots, shot]);
+    };
+
+    const chipClass = (isSelected: boolean) => `py-0.5 px-2 rounded-full text-xs border transition-colors ${
+        isSelected ? 'bg-purple-900/50 border-purple-500 text-white' : 'bg-gray-700/50 border-gray-600 text-gray-400 hover:text-white'
+    }`;
+
+    return (
+        <div className="space-y-2 text-xs">
+            <p className="text-gray-400">{shots.length} {shots.length === 1 ? 'mockup' : 'mockups'} will be rendered</p>
+            {MOCKUP_SCENES.map(scene => (
+                <div key={scene.id} className="flex flex-wrap items-center gap-1.5">
+                    <span className="w-28 flex-shrink-0 text-gray-300">{scene.label}</span>
+                    {scene.usesColor ? MOCKUP_COLORS.map(color => {
+                        const shot = { sceneId: scene.id, color };
+                        return (
+                            <button key={color} onClick={() => handleToggle(shot)} className={chipClass(shots.some(s => isSameShot(s, shot)))}>
+                                {color}
+                            </button>
+                        );
+                    }) : (
+                        <button onClick={() => handleToggle({ sceneId: scene.id })} className={chipClass(shots.some(s => isSameShot(s, { sceneId: scene.id })))}>
+                            Include
+                        </button>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import type { Occasion, OccasionSchedule, ForgeTiming } from '../types';
+import { getOccasionSchedules, describeOccasionDate, MONTH_NAMES } from '../services/occasionService';
+
+interface OccasionCalendarProps {
+    occasions: Occasion[];
+    selected: string;
+    onSelect: (name: string) => void;
+}
+
+const TIMING_STYLES: Record<ForgeTiming, string> = {
+    'forge-now': 'bg-green-900/50 border-green-500 text-green-200',
+    'upcoming': 'bg-amber-900/40 border-amber-500 text-amber-200',
+    'later': 'bg-gray-700/50 border-gray-600 text-gray-400',
+    'year-round': 'bg-blue-900/40 border-blue-500 text-blue-200',
+};
+
+const TIMING_LABELS: Record<ForgeTiming, string> = {
+    'forge-now': 'Forge now',
+    'upcoming': 'Coming up',
+    'later': 'Later',
+    'year-round': 'Year-round',
+};
+
+const formatDate = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export const OccasionCalendar: React.FC<OccasionCalendarProps> = ({ occasions, selected, onSelect }) => {
+    const today = new Date();
+    const schedules = getOccasionSchedules(occasions, today);
+
+    // The next twelve months, starting with the current one.
+    const months = Array.from({ length: 12 }, (_, i) => new Date(today.getFullYear(), today.getMonth() + i, 1));
+    const inMonth = (schedule: OccasionSchedule, month: Date) =>
+        !!schedule.date && schedule.date.getFullYear() === month.getFullYear() && schedule.date.getMonth() === month.getMonth();
+
+    const renderChip = (schedule: OccasionSchedule) => (
+        <button
+            key={schedule.occasion.id}
+            onClick={() => onSelect(schedule.occasion.name)}
+            title={schedule.orderBy
+                ? `${describeOccasionDate(schedule.occasion.date)}. List from ${formatDate(schedule.forgeFrom!)}; last order ${formatDate(schedule.orderBy)}.`
+                : 'Sells all year'}
+            className={`w-full text-left py-1 px-2 rounded border text-xs transition-colors ${TIMING_STYLES[schedule.timing]} ${
+                schedule.occasion.name === selected ? 'ring-2 ring-purple-500' : ''
+            }`}
+        >
+            {schedule.occasion.name}
+        </button>
+    );
+
+    const forgeNow = schedules.filter(s => s.timing === 'forge-now' || s.timing === 'upcoming');
+    const yearRound = schedules.filter(s => s.timing === 'year-round');
+
+    return (
+        <div className="space-y-4">
+            <div className="bg-gray-800 border border-gray-700 rounded-xl p-4">
+                <h4 className="text-sm font-semibold text-purple-300 mb-3">What to forge now</h4>
+                {forgeNow.length === 0 ? (
+                    <p className="text-xs text-gray-500">No seasonal occasions are in their selling window. Year-round occasions are always open.</p>
+                ) : (
+                    <ul className="space-y-2 text-sm">
+                        {forgeNow.map(s => (
+                            <li key={s.occasion.id} className="flex flex-wrap items-center gap-3">
+                                <span className={`py-0.5 px-2 rounded-full border text-xs ${TIMING_STYLES[s.timing]}`}>{TIMING_LABELS[s.timing]}</span>
+                                <button onClick={() => onSelect(s.occasion.name)} className="font-semibold text-white hover:text-amber-300">{s.occasion.name}</button>
+                                <span className="text-xs text-gray-400">
+                                    {formatDate(s.date!)} · {s.timing === 'forge-now' ? 'listings should be live' : `start listing ${formatDate(s.forgeFrom!)}`} · last order {formatDate(s.orderBy!)}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2">
+                {months.map(month => (
+                    <div key={month.getTime()} className="bg-gray-800/60 border border-gray-700 rounded-lg p-2 min-h-[5rem]">
+                        <p className="text-xs font-semibold text-gray-400 mb-1">
+                            {MONTH_NAMES[month.getMonth()]}{month.getFullYear() !== today.getFullYear() && ` ${month.getFullYear()}`}
+                        </p>
+                        <div className="space-y-1">{schedules.filter(s => inMonth(s, month)).map(renderChip)}</div>
+                    </div>
+                ))}
+            </div>
+
+            {yearRound.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-xs text-gray-500">Year-round:</span>
+                    {yearRound.map(s => <div key={s.occasion.id} className="w-auto">{renderChip(s)}</div>)}
+                </div>
+            )}
+        </div>
+    );
+};
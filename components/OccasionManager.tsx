@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import type { Occasion, OccasionDate } from '../types';
+import { createOccasion, MONTH_NAMES, WEEKDAY_NAMES } from '../services/occasionService';
+import { TrashIcon } from './icons';
+
+interface OccasionManagerProps {
+    occasions: Occasion[];
+    audiences: string[];
+    onSave: (occasions: Occasion[], audiences: string[]) => void;
+    onClose: () => void;
+}
+
+const DEFAULT_DATES: Record<OccasionDate['kind'], OccasionDate> = {
+    'fixed': { kind: 'fixed', month: 1, day: 1 },
+    'weekday': { kind: 'weekday', month: 1, weekday: 0, nth: 1 },
+    'easter': { kind: 'easter', offsetDays: 0 },
+    'year-round': { kind: 'year-round' },
+};
+
+const INPUT_CLASS = "bg-gray-900 text-white border border-gray-600 rounded-md px-2 py-1 text-sm focus:ring-purple-500 focus:border-purple-500";
+
+const NumberInput = ({ value, onChange, min, max, className = 'w-16' }: { value: number; onChange: (value: number) => void; min?: number; max?: number; className?: string }) => (
+    <input type="number" value={value} min={min} max={max} onChange={(e) => onChange(Number(e.target.value))} className={`${INPUT_CLASS} ${className}`} />
+);
+
+const DateEditor = ({ date, onChange }: { date: OccasionDate; onChange: (date: OccasionDate) => void }) => {
+    const monthSelect = (month: number, update: (month: number) => void) => (
+        <select value={month} onChange={(e) => update(Number(e.target.value))} className={INPUT_CLASS}>
+            {MONTH_NAMES.map((name, i) => <option key={name} value={i + 1}>{name}</option>)}
+        </select>
+    );
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <select
+                value={date.kind}
+                onChange={(e) => onChange(DEFAULT_DATES[e.target.value as OccasionDate['kind']])}
+                className={INPUT_CLASS}
+            >
+                <option value="fixed">Fixed date</option>
+                <option value="weekday">Nth weekday</option>
+                <option value="easter">Relative to Easter</option>
+                <option value="year-round">Year-round</option>
+            </select>
+            {date.kind === 'fixed' && (
+                <>
+                    {monthSelect(date.month, month => onChange({ ...date, month }))}
+                    <NumberInput value={date.day} min={1} max={31} onChange={day => onChange({ ...date, day })} />
+                </>
+            )}
+            {date.kind === 'weekday' && (
+                <>
+                    <select value={date.nth} onChange={(e) => onChange({ ...date, nth: Number(e.target.value) })} className={INPUT_CLASS}>
+                        {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>#{n}</option>)}
+                        <option value={-1}>Last</option>
+                    </select>
+                    <select value={date.weekday} onChange={(e) => onChange({ ...date, weekday: Number(e.target.value) })} className={INPUT_CLASS}>
+                        {WEEKDAY_NAMES.map((name, i) => <option key={name} value={i}>{name}</option>)}
+                    </select>
+                    {monthSelect(date.month, month => onChange({ ...date, month }))}
+                </>
+            )}
+            {date.kind === 'easter' && (
+                <label className="flex items-center gap-1 text-xs text-gray-400">
+                    <NumberInput value={date.offsetDays} onChange={offsetDays => onChange({ ...date, offsetDays })} />
+                    days from Easter
+                </label>
+            )}
+        </div>
+    );
+};
+
+export const OccasionManager: React.FC<OccasionManagerProps> = ({ occasions, audiences, onSave, onClose }) => {
+    const [drafts, setDrafts] = useState<Occasion[]>(occasions);
+    const [audienceDrafts, setAudienceDrafts] = useState<string[]>(audiences);
+    const [newAudience, setNewAudience] = useState('');
+
+    const updateDraft = (id: string, patch: Partial<Occasion>) => {
+        setDrafts(prev => prev.map(o => o.id === id ? { ...o, ...patch } : o));
+    };
+
+    const handleAddAudience = () => {
+        const audience = newAudience.trim();
+        if (audience && !audienceDrafts.some(a => a.toLowerCase() === audience.toLowerCase())) {
+            setAudienceDrafts(prev => [...prev, audience]);
+        }
+        setNewAudience('');
+    };
+
+    const names = drafts.map(o => o.name.trim().toLowerCase());
+    const hasInvalidName = names.some((name, i) => !name || names.indexOf(name) !== i);
+
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 backdrop-blur-sm" onClick={onClose}>
+            <div className="bg-gray-800 border border-gray-700 p-8 rounded-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto shadow-2xl relative" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6 border-b border-gray-700 pb-4">
+                    <h3 className="text-xl font-bold text-white">Occasions & Audiences</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+                        <span className="text-2xl">&times;</span>
+                    </button>
+                </div>
+
+                <h4 className="text-sm font-semibold text-purple-300 mb-2">Occasions</h4>
+                <p className="text-xs text-gray-500 mb-3">
+                    Lead time is production plus shipping. The selling window is how long before the last order date shoppers start buying.
+                </p>
+                <div className="space-y-3">
+                    {drafts.map(o => (
+                        <div key={o.id} className="bg-gray-900/40 border border-gray-700 rounded-lg p-3 flex flex-wrap items-center gap-3">
+                            <input
+                                value={o.name}
+                                onChange={(e) => updateDraft(o.id, { name: e.target.value })}
+                                className={`${INPUT_CLASS} w-40`}
+                            />
+                            <DateEditor date={o.date} onChange={date => updateDraft(o.id, { date })} />
+                            {o.date.kind !== 'year-round' && (
+                                <>
+                                    <label className="flex items-center gap-1 text-xs text-gray-400">
+                                        Lead <NumberInput value={o.leadTimeDays} min={0} onChange={leadTimeDays => updateDraft(o.id, { leadTimeDays })} /> days
+                                    </label>
+                                    <label className="flex items-center gap-1 text-xs text-gray-400">
+                                        Window <NumberInput value={o.sellingWindowDays} min={0} onChange={sellingWindowDays => updateDraft(o.id, { sellingWindowDays })} /> days
+                                    </label>
+                                </>
+                            )}
+                            <button
+                                onClick={() => setDrafts(prev => prev.filter(d => d.id !== o.id))}
+                                title={`Remove ${o.name}`}
+                                className="ml-auto text-gray-500 hover:text-red-400 transition-colors"
+                            >
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <button onClick={() => setDrafts(prev => [...prev, createOccasion()])} className="mt-3 text-sm text-amber-300 hover:text-amber-200">
+                    + Add Occasion
+                </button>
+
+                <h4 className="text-sm font-semibold text-purple-300 mt-8 mb-2">Audiences & Niches</h4>
+                <div className="flex flex-wrap gap-2 mb-3">
+                    {audienceDrafts.map(audience => (
+                        <span key={audience} className="bg-gray-700/50 border border-gray-600 text-gray-300 py-1 px-3 rounded-full text-xs flex items-center gap-2">
+                            {audience}
+                            <button onClick={() => setAudienceDrafts(prev => prev.filter(a => a !== audience))} className="text-gray-500 hover:text-red-400">&times;</button>
+                        </span>
+                    ))}
+                </div>
+                <div className="flex gap-2 max-w-sm">
+                    <input
+                        value={newAudience}
+                        onChange={(e) => setNewAudience(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleAddAudience(); }}
+                        placeholder='e.g. "Dog Mom"'
+                        className={`${INPUT_CLASS} flex-1`}
+                    />
+                    <button onClick={handleAddAudience} className="bg-gray-700 hover:bg-gray-600 text-gray-200 py-1 px-3 rounded-md text-sm border border-gray-600">Add</button>
+                </div>
+
+                <div className="flex justify-end items-center gap-4 mt-8 pt-4 border-t border-gray-700">
+                    {hasInvalidName && <span className="text-xs text-red-300">Every occasion needs a unique name.</span>}
+                    <button
+                        onClick={() => onSave(drafts.map(o => ({ ...o, name: o.name.trim() })), audienceDrafts)}
+                        disabled={hasInvalidName}
+                        className="bg-purple-600 hover:bg-purple-700 text-white font-semibold py-2 px-6 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import type { Personalization, PersonalizationField, TextLayer } from '../types';
+import { PERSONALIZATION_FONTS, fillPlaceholders, getSampleValues, renderPersonalizedDesign } from '../services/personalizationService';
+
+const INPUT_CLASS = "w-full bg-gray-700 text-white border border-gray-600 rounded-md px-2 py-1 text-sm focus:ring-purple-500 focus:border-purple-500";
+
+interface PersonalizationEditorProps {
+    artUrl: string; // Text-free art
+    displayText: string;
+    personalization: Personalization;
+    onChange: (personalization: Personalization) => void;
+}
+
+/**
+ * Styles the text layer of a personalized design and edits the buyer fields, with a live preview
+ * using the sample values.
+ */
+export const PersonalizationEditor: React.FC<PersonalizationEditorProps> = ({ artUrl, displayText, personalization, onChange }) => {
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const { fields, textLayer } = personalization;
+    const text = fillPlaceholders(displayText, getSampleValues(personalization));
+
+    useEffect(() => {
+        let isCurrent = true;
+        renderPersonalizedDesign(artUrl, text, textLayer)
+            .then(url => { if (isCurrent) setPreviewUrl(url); })
+            .catch(e => console.error("Error rendering personalization preview:", e));
+        return () => { isCurrent = false; };
+    }, [artUrl, text, textLayer]);
+
+    const updateLayer = (patch: Partial<TextLayer>) => onChange({ ...personalization, textLayer: { ...textLayer, ...patch } });
+    const updateField = (key: string, patch: Partial<PersonalizationField>) =>
+        onChange({ ...personalization, fields: fields.map(f => f.key === key ? { ...f, ...patch } : f) });
+
+    return (
+        <div className="space-y-3 text-sm">
+            <div className="aspect-square flex items-center justify-center rounded-lg overflow-hidden bg-gray-900 border border-gray-700">
+                {previewUrl
+                    ? <img src={previewUrl} alt="Personalized preview" className="max-w-full max-h-full object-contain" />
+                    : <span className="text-xs text-gray-500">Rendering preview...</span>}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                <select value={textLayer.font} onChange={(e) => updateLayer({ font: e.target.value })} className={`${INPUT_CLASS} col-span-2`}>
+                    {PERSONALIZATION_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+                </select>
+                <label className="flex items-center gap-2 text-xs text-gray-400">
+                    Text
+                    <input type="color" value={textLayer.color} onChange={(e) => updateLayer({ color: e.target.value })} className="w-8 h-8 bg-transparent" />
+                </label>
+                <label className="flex items-center gap-2 text-xs text-gray-400">
+                    <input
+                        type="checkbox"
+                        checked={!!textLayer.outlineColor}
+                        onChange={(e) => updateLayer({ outlineColor: e.target.checked ? '#ffffff' : undefined })}
+                        className="h-4 w-4 rounded border-gray-500 bg-gray-900/50 text-purple-600 focus:ring-purple-500"
+                    />
+                    Outline
+                    {textLayer.outlineColor && (
+                        <input type="color" value={textLayer.outlineColor} onChange={(e) => updateLayer({ outlineColor: e.target.value })} className="w-8 h-8 bg-transparent" />
+                    )}
+                </label>
+                <label className="text-xs text-gray-400">
+                    Size
+                    <input type="range" min={0.04} max={0.25} step={0.01} value={textLayer.size} onChange={(e) => updateLayer({ size: Number(e.target.value) })} className="w-full" />
+                </label>
+                <label className="text-xs text-gray-400">
+                    Position
+                    <input type="range" min={0.05} max={0.95} step={0.01} value={textLayer.y} onChange={(e) => updateLayer({ y: Number(e.target.value) })} className="w-full" />
+                </label>
+            </div>
+
+            <div className="space-y-2">
+                {fields.map(field => (
+                    <div key={field.key} className="grid grid-cols-5 gap-2 items-center">
+                        <input value={field.label} onChange={(e) => updateField(field.key, { label: e.target.value })} title={`{${field.key}}`} className={`${INPUT_CLASS} col-span-2`} />
+                        <input
+                            value={field.sample}
+                            maxLength={field.maxLength}
+                            onChange={(e) => updateField(field.key, { sample: e.target.value })}
+                            placeholder="Sample"
+                            className={`${INPUT_CLASS} col-span-2`}
+                        />
+                        <input
+                            type="number"
+                            min={1}
+                            value={field.maxLength}
+                            onChange={(e) => updateField(field.key, { maxLength: Math.max(1, Number(e.target.value)) })}
+                            title="Maximum characters"
+                            className={INPUT_CLASS}
+                        />
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+interface PersonalizedOrderFormProps {
+    personalization: Personalization;
+    onRender: (values: Record<string, string>) => Promise<void>;
+}
+
+/**
+ * Buyer values for one order, turned into a print file by `onRender`.
+ */
+export const PersonalizedOrderForm: React.FC<PersonalizedOrderFormProps> = ({ personalization, onRender }) => {
+    const [values, setValues] = useState<Record<string, string>>({});
+    const isComplete = personalization.fields.every(f => values[f.key]?.trim());
+
+    return (
+        <div className="bg-gray-800 p-4 rounded-xl border border-gray-700 space-y-2 text-sm">
+            {personalization.fields.map(field => (
+                <label key={field.key} className="block text-gray-300">
+                    {field.label} <span className="text-xs text-gray-500">({(values[field.key] ?? '').length}/{field.maxLength})</span>
+                    <input
+                        value={values[field.key] ?? ''}
+                        maxLength={field.maxLength}
+                        onChange={(e) => setValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+                        placeholder={field.sample}
+                        className={`${INPUT_CLASS} mt-1`}
+                    />
+                </label>
+            ))}
+            <button
+                onClick={() => onRender(Object.fromEntries(personalization.fields.map(f => [f.key, values[f.key].trim()])))}
+                disabled={!isComplete}
+                className="w-full bg-indigo-600/20 hover:bg-indigo-600/40 text-indigo-300 border border-indigo-500/50 font-semibold py-2 px-4 rounded-lg text-sm transition-colors disabled:opacity-50"
+            >
+                Download Print File
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,192 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { ProductType, CatalogSelection, DesignPlacement, PrintifyPlaceholder } from '../types';
+import { getPrintAreas } from '../services/printifyCatalogService';
+import { DEFAULT_PLACEMENT } from '../services/printifyService';
+import { getEffectiveDpi, TARGET_DPI } from '../services/imageProcessingService';
+
+interface PlacementEditorProps {
+    token: string;
+    productType: ProductType;
+    selection: CatalogSelection | undefined;
+    designUrl: string;
+    sourceWidth?: number; // Design width before upscaling; measured from designUrl when not given
+    placements: DesignPlacement[] | undefined; // Undefined means the default placement on the default area
+    onChange: (placements: DesignPlacement[]) => void;
+}
+
+const PRESETS: { label: string; placement: Omit<DesignPlacement, 'position'> }[] = [
+    { label: 'Center', placement: DEFAULT_PLACEMENT },
+    { label: 'Left Chest', placement: { x: 0.7, y: 0.22, scale: 0.25, angle: 0 } }, // Wearer's left is the viewer's right
+    { label: 'Upper Back', placement: { x: 0.5, y: 0.2, scale: 0.6, angle: 0 } },
+    { label: 'Full Width', placement: { x: 0.5, y: 0.5, scale: 1, angle: 0 } },
+];
+
+const formatPosition = (position: string) =>
+    position.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+export const PlacementEditor: React.FC<PlacementEditorProps> = ({ token, productType, selection, designUrl, sourceWidth, placements, onChange }) => {
+    const [areas, setAreas] = useState<PrintifyPlaceholder[]>([]);
+    const [isEstimate, setIsEstimate] = useState(true);
+    const [activePosition, setActivePosition] = useState<string | null>(null);
+    const [imageWidth, setImageWidth] = useState(0);
+    const areaRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ pointerId: number; startX: number; startY: number; origin: DesignPlacement } | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        getPrintAreas(token, productType, selection).then(result => {
+            if (cancelled) return;
+            setAreas(result.areas);
+            setIsEstimate(result.isEstimate);
+        });
+        return () => { cancelled = true; };
+    }, [token, productType, selection]);
+
+    const current: DesignPlacement[] = placements ?? (areas[0] ? [{ position: areas[0].position, ...DEFAULT_PLACEMENT }] : []);
+    const position = activePosition ?? current[0]?.position ?? areas[0]?.position;
+    const area = areas.find(a => a.position === position);
+    const placement = current.find(p => p.position === position);
+
+    const updatePlacement = (patch: Partial<DesignPlacement>) => {
+        if (!placement) return;
+        onChange(current.map(p => p.position === placement.position ? { ...p, ...patch } : p));
+    };
+
+    const handleTogglePosition = () => {
+        if (!position) return;
+        onChange(placement
+            ? current.filter(p => p.position !== position)
+            : [...current, { position, ...DEFAULT_PLACEMENT }]);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLImageElement>) => {
+        if (!placement) return;
+        e.preventDefault();
+        (e.target as HTMLImageElement).setPointerCapture(e.pointerId);
+        dragRef.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, origin: placement };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLImageElement>) => {
+        const drag = dragRef.current;
+        const rect = areaRef.current?.getBoundingClientRect();
+        if (!drag || drag.pointerId !== e.pointerId || !rect) return;
+        updatePlacement({
+            x: clamp(drag.origin.x + (e.clientX - drag.startX) / rect.width, 0, 1),
+            y: clamp(drag.origin.y + (e.clientY - drag.startY) / rect.height, 0, 1),
+        });
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+    };
+
+    if (areas.length === 0) return <p className="text-sm text-gray-400">Loading print areas...</p>;
+
+    // An upscaled design only looks sharp on paper, so DPI is judged from the size it was generated at.
+    const designWidth = sourceWidth ?? imageWidth;
+    const dpi = placement && area && designWidth ? getEffectiveDpi(designWidth, area.width, placement.scale) : null;
+
+    return (
+        <div className="bg-gray-800 p-4 rounded-xl border border-gray-700 grid md:grid-cols-2 gap-6 text-sm">
+            <div>
+                <div className="flex flex-wrap gap-2 mb-4">
+                    {areas.map(a => {
+                        const isUsed = current.some(p => p.position === a.position);
+                        return (
+                            <button
+                                key={a.position}
+                                onClick={() => setActivePosition(a.position)}
+                                className={`py-1 px-3 rounded-full text-xs border transition-colors ${
+                                    a.position === position ? 'ring-2 ring-purple-500 ' : ''
+                                }${isUsed ? 'bg-purple-900/50 border-purple-500 text-white' : 'bg-gray-700/50 border-gray-600 text-gray-400 hover:text-white'}`}
+                            >
+                                {isUsed ? '● ' : ''}{formatPosition(a.position)}
+                            </button>
+                        );
+                    })}
+                </div>
+                {area && (
+                    <div
+                        ref={areaRef}
+                        className="relative mx-auto w-full max-w-xs overflow-hidden border-2 border-dashed border-gray-500 bg-gray-700/40 rounded"
+                        style={{ aspectRatio: `${area.width} / ${area.height}` }}
+                    >
+                        {placement ? (
+                            <img
+                                src={designUrl}
+                                alt="Design placement"
+                                draggable={false}
+                                onLoad={(e) => setImageWidth((e.target as HTMLImageElement).naturalWidth)}
+                                onPointerDown={handlePointerDown}
+                                onPointerMove={handlePointerMove}
+                                onPointerUp={handlePointerUp}
+                                className="absolute cursor-move select-none touch-none"
+                                style={{
+                                    left: `${placement.x * 100}%`,
+                                    top: `${placement.y * 100}%`,
+                                    width: `${placement.scale * 100}%`,
+                                    transform: `translate(-50%, -50%) rotate(${placement.angle}deg)`,
+                                }}
+                            />
+                        ) : (
+                            <p className="absolute inset-0 flex items-center justify-center text-xs text-gray-500">Nothing printed here</p>
+                        )}
+                    </div>
+                )}
+                {area && (
+                    <p className="text-xs text-gray-500 mt-2 text-center">
+                        {area.width}&times;{area.height}px print area{isEstimate && ' (typical size; choose Printify variants for exact areas)'}
+                    </p>
+                )}
+            </div>
+
+            <div className="space-y-4">
+                <label className="flex items-center gap-2 text-gray-300">
+                    <input
+                        type="checkbox"
+                        checked={!!placement}
+                        onChange={handleTogglePosition}
+                        className="h-4 w-4 rounded border-gray-500 bg-gray-900/50 text-purple-600 focus:ring-purple-500 focus:ring-offset-0"
+                    />
+                    Print on {position ? formatPosition(position) : 'this area'}
+                </label>
+
+                {placement && (
+                    <>
+                        <div className="flex flex-wrap gap-2">
+                            {PRESETS.map(preset => (
+                                <button
+                                    key={preset.label}
+                                    onClick={() => updatePlacement(preset.placement)}
+                                    className="bg-gray-700 hover:bg-gray-600 text-gray-300 py-1 px-3 rounded-lg text-xs border border-gray-600 transition-colors"
+                                >
+                                    {preset.label}
+                                </button>
+                            ))}
+                        </div>
+                        <label className="block text-xs text-gray-400">
+                            Scale ({Math.round(placement.scale * 100)}% of print width)
+                            <input type="range" min={0.05} max={1.5} step={0.01} value={placement.scale}
+                                onChange={(e) => updatePlacement({ scale: Number(e.target.value) })} className="w-full" />
+                        </label>
+                        <label className="block text-xs text-gray-400">
+                            Rotation ({placement.angle}&deg;)
+                            <input type="range" min={-180} max={180} step={1} value={placement.angle}
+                                onChange={(e) => updatePlacement({ angle: Number(e.target.value) })} className="w-full" />
+                        </label>
+                        <p className="text-xs text-gray-400">
+                            Center at {Math.round(placement.x * 100)}%, {Math.round(placement.y * 100)}%. Drag the design to move it.
+                        </p>
+                        {dpi !== null && (
+                            <p className={`text-xs ${dpi < TARGET_DPI ? 'text-red-300' : 'text-gray-400'}`}>
+                                Prints at {dpi} DPI from the original design{dpi < TARGET_DPI && ` (below ${TARGET_DPI}; shrink the design for a sharper print)`}
+                            </p>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
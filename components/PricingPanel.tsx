@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import type { ProductType, CatalogSelection, PricingRule, PrintifyCatalogVariant } from '../types';
+import { resolveCatalogProduct } from '../services/printifyCatalogService';
+import { priceVariants, formatCents } from '../services/pricingService';
+
+interface PricingPanelProps {
+    token: string;
+    productType: ProductType;
+    selection: CatalogSelection | undefined;
+    rule: PricingRule;
+    onRuleChange: (rule: PricingRule) => void;
+    onChooseVariants: () => void;
+}
+
+const RuleInput = ({ label, value, onChange, suffix }: { label: string; value: number; onChange: (value: number) => void; suffix?: string }) => (
+    <label className="flex flex-col text-xs text-gray-400 gap-1">
+        {label}
+        <div className="flex items-center gap-1">
+            <input
+                type="number"
+                min={0}
+                value={value}
+                onChange={(e) => onChange(Number(e.target.value))}
+                className="w-20 bg-gray-900 text-white border border-gray-600 rounded-md px-2 py-1 text-sm focus:ring-purple-500 focus:border-purple-500"
+            />
+            {suffix && <span>{suffix}</span>}
+        </div>
+    </label>
+);
+
+export const PricingPanel: React.FC<PricingPanelProps> = ({ token, productType, selection, rule, onRuleChange, onChooseVariants }) => {
+    const [variants, setVariants] = useState<PrintifyCatalogVariant[]>([]);
+    const [isFetching, setIsFetching] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!token || !selection) return;
+        let cancelled = false;
+        setIsFetching(true);
+        setError(null);
+        resolveCatalogProduct(token, productType, selection)
+            .then(resolved => { if (!cancelled) setVariants(resolved.variants); })
+            .catch(e => { if (!cancelled) setError(e instanceof Error ? e.message : String(e)); })
+            .finally(() => { if (!cancelled) setIsFetching(false); });
+        return () => { cancelled = true; };
+    }, [token, productType, selection]);
+
+    const prices = priceVariants(variants, rule);
+    const hasEstimates = prices.some(p => p.isEstimatedCost);
+
+    return (
+        <div className="bg-gray-800 p-4 rounded-xl border border-gray-700 space-y-4 text-sm">
+            <div className="flex flex-wrap gap-4 items-end">
+                <RuleInput label="Target margin" value={rule.targetMarginPercent} suffix="%" onChange={(targetMarginPercent) => onRuleChange({ ...rule, targetMarginPercent })} />
+                <label className="flex flex-col text-xs text-gray-400 gap-1">
+                    Charm pricing
+                    <select
+                        value={rule.charmEnding ?? ''}
+                        onChange={(e) => onRuleChange({ ...rule, charmEnding: e.target.value === '' ? null : Number(e.target.value) })}
+                        className="bg-gray-900 text-white border border-gray-600 rounded-md px-2 py-1 text-sm focus:ring-purple-500 focus:border-purple-500"
+                    >
+                        <option value="">Off</option>
+                        <option value={99}>.99</option>
+                        <option value={95}>.95</option>
+                        <option value={0}>.00</option>
+                    </select>
+                </label>
+                <RuleInput label="Est. 2XL+ extra cost / step" value={rule.sizeUpcharge} suffix="¢" onChange={(sizeUpcharge) => onRuleChange({ ...rule, sizeUpcharge })} />
+                <RuleInput label="Estimated base cost" value={rule.fallbackCost} suffix="¢" onChange={(fallbackCost) => onRuleChange({ ...rule, fallbackCost })} />
+            </div>
+
+            {!token || !selection ? (
+                <p className="text-gray-400">
+                    {token ? 'Choose Printify variants' : 'Add your Printify API Token'} to project profit per variant.{' '}
+                    {token && <button onClick={onChooseVariants} className="text-amber-300 hover:text-amber-200">Choose variants</button>}
+                </p>
+            ) : isFetching ? (
+                <p className="text-gray-400">Loading variants...</p>
+            ) : error ? (
+                <p className="text-red-300">{error}</p>
+            ) : (
+                <div className="max-h-64 overflow-y-auto">
+                    {hasEstimates && (
+                        <p className="text-xs text-amber-300 mb-2">Costs marked ~ are estimated from the rule. Printify reports real costs once a product with those variants is created, and prices are corrected then.</p>
+                    )}
+                    <table className="w-full text-xs">
+                        <thead className="text-gray-400 text-left">
+                            <tr>
+                                <th className="py-1 font-semibold">Variant</th>
+                                <th className="py-1 font-semibold text-right">Cost</th>
+                                <th className="py-1 font-semibold text-right">Price</th>
+                                <th className="py-1 font-semibold text-right">Profit</th>
+                                <th className="py-1 font-semibold text-right">Margin</th>
+                            </tr>
+                        </thead>
+                        <tbody className="text-gray-300">
+                            {prices.map(p => (
+                                <tr key={p.variantId} className="border-t border-gray-700">
+                                    <td className="py-1">{p.title}</td>
+                                    <td className={`py-1 text-right ${p.isEstimatedCost ? 'text-amber-300' : ''}`}>{p.isEstimatedCost && '~'}{formatCents(p.cost)}</td>
+                                    <td className="py-1 text-right">{formatCents(p.price)}</td>
+                                    <td className={`py-1 text-right ${p.profit > 0 ? 'text-green-400' : 'text-red-400'}`}>{formatCents(p.profit)}</td>
+                                    <td className="py-1 text-right">{p.marginPercent}%</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="text-xs text-gray-500 mt-2">Profit is before marketplace fees and shipping.</p>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import type { ForgeProject, AppStep } from '../types';
+import { sumUsage, formatCost } from '../services/costService';
+import { ArrowLeftIcon, DuplicateIcon, TrashIcon, SparklesIcon } from './icons';
+
+interface ProjectLibraryProps {
+    projects: ForgeProject[];
+    activeProjectId: string;
+    onOpen: (project: ForgeProject) => void;
+    onDuplicate: (project: ForgeProject) => void;
+    onDelete: (project: ForgeProject) => void;
+    onRename: (project: ForgeProject, name: string) => void;
+    onNew: () => void;
+    onClose: () => void;
+}
+
+const STEP_LABELS: Record<AppStep, string> = {
+    CONFIG: 'Step 1 · Config',
+    IDEATION: 'Step 2 · Concepts',
+    DESIGN: 'Step 3 · Designs',
+    PREPARE: 'Step 4 · Print Prep',
+    FINALIZE: 'Step 5 · Finalized',
+};
+
+const getThumbnail = (project: ForgeProject): string | undefined => {
+    const history = Object.values(project.generatedDesigns)[0];
+    return project.finalizedProducts[0]?.mockups.find(m => m.url)?.url
+        ?? project.finalizedProducts[0]?.designUrl
+        ?? history?.versions.find(v => v.id === history.activeVersionId)?.url;
+};
+
+interface ProjectCardProps {
+    project: ForgeProject;
+    isActive: boolean;
+    onOpen: () => void;
+    onDuplicate: () => void;
+    onDelete: () => void;
+    onRename: (name: string) => void;
+}
+
+const ProjectCard: React.FC<ProjectCardProps> = ({ project, isActive, onOpen, onDuplicate, onDelete, onRename }) => {
+    const [name, setName] = useState(project.name);
+    const thumbnail = getThumbnail(project);
+
+    const commitRename = () => {
+        const trimmed = name.trim();
+        if (trimmed && trimmed !== project.name) {
+            onRename(trimmed);
+        } else {
+            setName(project.name);
+        }
+    };
+
+    return (
+        <div className={`bg-gray-800 border-2 rounded-xl p-4 flex flex-col gap-3 ${isActive ? 'border-purple-500' : 'border-gray-700'}`}>
+            <button onClick={onOpen} className="aspect-video rounded-lg overflow-hidden bg-gray-900 flex items-center justify-center">
+                {thumbnail
+                    ? <img src={thumbnail} alt={project.name} className="w-full h-full object-cover" />
+                    : <SparklesIcon className="w-10 h-10 text-gray-600" />}
+            </button>
+            <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                className="bg-transparent text-amber-400 font-bold text-lg border-b border-transparent focus:border-purple-500 focus:outline-none"
+            />
+            <div className="text-xs text-gray-400 space-y-1">
+                <p className="text-purple-300">{project.holiday} · {project.style} · {project.productType}</p>
+                <p>
+                    {STEP_LABELS[project.step]} · {project.variations.length} concepts · {Object.keys(project.generatedDesigns).length} designs · {project.finalizedProducts.length} products{project.usage?.length ? ` · ${formatCost(sumUsage(project.usage).cost)} AI spend` : ''}
+                </p>
+                <p>Updated {new Date(project.updatedAt).toLocaleString()}</p>
+            </div>
+            <div className="flex gap-2 mt-auto">
+                <button
+                    onClick={onOpen}
+                    className="flex-1 bg-purple-600 hover:bg-purple-700 text-white font-semibold py-2 px-3 rounded-lg text-sm transition-colors"
+                >
+                    {isActive ? 'Continue' : 'Open'}
+                </button>
+                <button onClick={onDuplicate} title="Duplicate" className="bg-gray-700 hover:bg-gray-600 text-gray-300 p-2 rounded-lg border border-gray-600 transition-colors">
+                    <DuplicateIcon className="w-5 h-5" />
+                </button>
+                <button onClick={onDelete} title="Delete" className="bg-gray-700 hover:bg-red-900/60 text-gray-300 hover:text-red-300 p-2 rounded-lg border border-gray-600 transition-colors">
+                    <TrashIcon className="w-5 h-5" />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ projects, activeProjectId, onOpen, onDuplicate, onDelete, onRename, onNew, onClose }) => (
+    <div className="w-full max-w-6xl mx-auto flex flex-col items-center">
+        <div className="flex items-center justify-between w-full mb-6">
+            <button onClick={onClose} className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors">
+                <ArrowLeftIcon className="w-5 h-5" />
+                Back
+            </button>
+            <h2 className="text-3xl font-bold text-amber-300 text-center flex-1">Project Library</h2>
+            <button onClick={onNew} className="text-gray-400 hover:text-amber-300 font-semibold">
+                + New Project
+            </button>
+        </div>
+        <p className="text-gray-400 mb-8 text-center">Every forge is saved on this device. Reopen one to pick up where you left off.</p>
+
+        {projects.length === 0 ? (
+            <p className="text-gray-500 text-center py-12">No saved projects yet. Forge some concepts and they will appear here.</p>
+        ) : (
+            <div className="w-full grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {projects.map(project => (
+                    <ProjectCard
+                        key={project.id}
+                        project={project}
+                        isActive={project.id === activeProjectId}
+                        onOpen={() => onOpen(project)}
+                        onDuplicate={() => onDuplicate(project)}
+                        onDelete={() => onDelete(project)}
+                        onRename={(name) => onRename(project, name)}
+                    />
+                ))}
+            </div>
+        )}
+    </div>
+);
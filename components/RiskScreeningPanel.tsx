@@ -0,0 +1,50 @@
+import React from 'react';
+import type { RiskScreening, RiskLevel } from '../types';
+
+interface RiskScreeningPanelProps {
+    screening: RiskScreening;
+    onOverride: (reason: string) => void;
+}
+
+const LEVEL_STYLES: Record<RiskLevel, string> = {
+    low: 'bg-green-900/40 border-green-600 text-green-300',
+    medium: 'bg-amber-900/40 border-amber-600 text-amber-200',
+    high: 'bg-red-900/40 border-red-600 text-red-200',
+};
+
+const LEVEL_LABELS: Record<RiskLevel, string> = {
+    low: 'Low IP risk',
+    medium: 'Flagged: possible IP risk',
+    high: 'Blocked: likely trademark or copyright issue',
+};
+
+/**
+ * The outcome of a trademark screening, with an override that asks for the reason and keeps it.
+ */
+export const RiskScreeningPanel: React.FC<RiskScreeningPanelProps> = ({ screening, onOverride }) => {
+    const handleOverride = () => {
+        const reason = window.prompt('Why is this safe to use? Your reason is saved with the project.');
+        if (reason?.trim()) onOverride(reason.trim());
+    };
+
+    return (
+        <div className={`border rounded-lg px-3 py-2 text-xs space-y-1 ${LEVEL_STYLES[screening.level]}`}>
+            <p className="font-semibold">{LEVEL_LABELS[screening.level]}</p>
+            {screening.findings.map((finding, index) => (
+                <p key={index}>
+                    <span className="uppercase text-[10px] opacity-70 mr-1">{finding.source === 'blocklist' ? 'Blocklist' : 'AI'}</span>
+                    {finding.explanation}
+                </p>
+            ))}
+            {screening.override ? (
+                <p className="text-gray-300">
+                    Overridden {new Date(screening.override.overriddenAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}: "{screening.override.reason}"
+                </p>
+            ) : screening.level !== 'low' && (
+                <button onClick={(e) => { e.preventDefault(); handleOverride(); }} className="font-semibold underline hover:no-underline">
+                    Override
+                </button>
+            )}
+        </div>
+    );
+};
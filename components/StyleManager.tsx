@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import type { StylePreset } from '../types';
+import { createStyle, cloneStyle, getUniqueStyleName } from '../services/styleService';
+import { DuplicateIcon, TrashIcon } from './icons';
+
+// Every reference image is sent with each design request, so keep the set small.
+const MAX_REFERENCE_IMAGES = 3;
+const MAX_REFERENCE_BYTES = 4 * 1024 * 1024;
+
+interface StyleManagerProps {
+    styles: StylePreset[]; // Built-ins first, then custom styles
+    initialStyleId: string;
+    onSave: (style: StylePreset) => Promise<void>;
+    onDelete: (id: string) => Promise<void>;
+    onClose: () => void;
+}
+
+const INPUT_CLASS = "w-full bg-gray-900 text-white border border-gray-600 rounded-md px-3 py-2 text-sm focus:ring-purple-500 focus:border-purple-500 disabled:opacity-60";
+
+const readFileAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read "${file.name}".`));
+    reader.readAsDataURL(file);
+});
+
+export const StyleManager: React.FC<StyleManagerProps> = ({ styles, initialStyleId, onSave, onDelete, onClose }) => {
+    const [activeId, setActiveId] = useState(initialStyleId);
+    const [draft, setDraft] = useState<StylePreset>(() => styles.find(s => s.id === initialStyleId) ?? styles[0]);
+    const [isDirty, setIsDirty] = useState(false);
+    const [newColor, setNewColor] = useState('#f59e0b');
+    const [error, setError] = useState<string | null>(null);
+
+    const isReadOnly = !!draft.isBuiltIn;
+    const nameTaken = styles.some(s => s.id !== draft.id && s.name.trim().toLowerCase() === draft.name.trim().toLowerCase());
+
+    const selectStyle = (style: StylePreset) => {
+        if (isDirty && !window.confirm(`Discard unsaved changes to "${draft.name}"?`)) return;
+        setActiveId(style.id);
+        setDraft(style);
+        setIsDirty(false);
+        setError(null);
+    };
+
+    const updateDraft = (patch: Partial<StylePreset>) => {
+        setDraft(prev => ({ ...prev, ...patch }));
+        setIsDirty(true);
+    };
+
+    const handleCreate = async (style: StylePreset) => {
+        if (isDirty && !window.confirm(`Discard unsaved changes to "${draft.name}"?`)) return;
+        await onSave(style);
+        setActiveId(style.id);
+        setDraft(style);
+        setIsDirty(false);
+    };
+
+    const handleSave = async () => {
+        await onSave({ ...draft, name: draft.name.trim() });
+        setIsDirty(false);
+    };
+
+    const handleDelete = async () => {
+        if (!window.confirm(`Delete the "${draft.name}" style? Projects using it fall back to ${styles[0].name}.`)) return;
+        await onDelete(draft.id);
+        setIsDirty(false);
+        setActiveId(styles[0].id);
+        setDraft(styles[0]);
+    };
+
+    const handleAddImages = async (files: FileList | null) => {
+        if (!files) return;
+        setError(null);
+        const added: string[] = [];
+        for (const file of Array.from(files)) {
+            if (draft.referenceImages.length + added.length >= MAX_REFERENCE_IMAGES) {
+                setError(`A style can have at most ${MAX_REFERENCE_IMAGES} reference images.`);
+                break;
+            }
+            if (file.size > MAX_REFERENCE_BYTES) {
+                setError(`"${file.name}" is larger than 4 MB.`);
+                continue;
+            }
+            added.push(await readFileAsDataUrl(file));
+        }
+        if (added.length > 0) updateDraft({ referenceImages: [...draft.referenceImages, ...added] });
+    };
+
+    const customStyles = styles.filter(s => !s.isBuiltIn);
+
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 backdrop-blur-sm" onClick={onClose}>
+            <div className="bg-gray-800 border border-gray-700 p-8 rounded-2xl max-w-5xl w-full max-h-[90vh] overflow-y-auto shadow-2xl relative" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6 border-b border-gray-700 pb-4">
+                    <h3 className="text-xl font-bold text-white">Design Styles</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+                        <span className="text-2xl">&times;</span>
+                    </button>
+                </div>
+
+                <div className="grid md:grid-cols-4 gap-6">
+                    <div className="space-y-4">
+                        <button
+                            onClick={() => handleCreate(createStyle(getUniqueStyleName('New Style', styles)))}
+                            className="w-full bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold py-2 rounded-lg transition-colors"
+                        >
+                            + New Style
+                        </button>
+                        {[{ title: 'Your Styles', items: customStyles }, { title: 'Built-in', items: styles.filter(s => s.isBuiltIn) }].map(group => group.items.length > 0 && (
+                            <div key={group.title}>
+                                <p className="text-xs uppercase tracking-wide text-gray-500 mb-2">{group.title}</p>
+                                <div className="flex flex-col gap-1">
+                                    {group.items.map(style => (
+                                        <button
+                                            key={style.id}
+                                            onClick={() => selectStyle(style)}
+                                            className={`text-left py-1.5 px-3 rounded-lg text-sm transition-colors ${
+                                                style.id === activeId ? 'bg-purple-900/50 text-white ring-2 ring-purple-500' : 'text-gray-400 hover:bg-gray-700'
+                                            }`}
+                                        >
+                                            {style.name}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="md:col-span-3 space-y-4 text-sm">
+                        <div className="flex items-center gap-3">
+                            <input
+                                value={draft.name}
+                                disabled={isReadOnly}
+                                onChange={(e) => updateDraft({ name: e.target.value })}
+                                className={`${INPUT_CLASS} text-lg font-semibold`}
+                            />
+                            <button
+                                onClick={() => handleCreate(cloneStyle(draft, getUniqueStyleName(`${draft.name} (Copy)`, styles)))}
+                                title="Clone"
+                                className="text-gray-400 hover:text-white p-2 rounded-lg hover:bg-gray-700 transition-colors"
+                            >
+                                <DuplicateIcon className="w-5 h-5" />
+                            </button>
+                            {!isReadOnly && (
+                                <button onClick={handleDelete} title="Delete" className="text-gray-400 hover:text-red-400 p-2 rounded-lg hover:bg-gray-700 transition-colors">
+                                    <TrashIcon className="w-5 h-5" />
+                                </button>
+                            )}
+                        </div>
+                        {isReadOnly && <p className="text-xs text-gray-500">Built-in styles are read-only. Clone one to make it your own.</p>}
+                        {nameTaken && <p className="text-xs text-red-300">Another style already uses this name.</p>}
+
+                        <label className="block text-gray-300">
+                            Style deep dive
+                            <textarea
+                                value={draft.prompt}
+                                disabled={isReadOnly}
+                                onChange={(e) => updateDraft({ prompt: e.target.value })}
+                                rows={6}
+                                placeholder="Describe the look: medium, line work, texture, composition, mood..."
+                                className={`${INPUT_CLASS} mt-1 resize-y`}
+                            />
+                        </label>
+
+                        <label className="block text-gray-300">
+                            Font guidance
+                            <input
+                                value={draft.fontGuidance}
+                                disabled={isReadOnly}
+                                onChange={(e) => updateDraft({ fontGuidance: e.target.value })}
+                                placeholder="e.g. Chunky rounded serif, like Cooper Black"
+                                className={`${INPUT_CLASS} mt-1`}
+                            />
+                        </label>
+
+                        <div>
+                            <p className="text-gray-300 mb-2">Color palette</p>
+                            <div className="flex flex-wrap items-center gap-2">
+                                {draft.palette.map(color => (
+                                    <button
+                                        key={color}
+                                        onClick={() => !isReadOnly && updateDraft({ palette: draft.palette.filter(c => c !== color) })}
+                                        title={isReadOnly ? color : `Remove ${color}`}
+                                        className="w-8 h-8 rounded-full border-2 border-gray-600"
+                                        style={{ backgroundColor: color }}
+                                    />
+                                ))}
+                                {draft.palette.length === 0 && <span className="text-xs text-gray-500">No palette constraint.</span>}
+                                {!isReadOnly && (
+                                    <span className="flex items-center gap-2 ml-2">
+                                        <input type="color" value={newColor} onChange={(e) => setNewColor(e.target.value)} className="w-8 h-8 bg-transparent" />
+                                        <button
+                                            onClick={() => !draft.palette.includes(newColor) && updateDraft({ palette: [...draft.palette, newColor] })}
+                                            className="text-amber-300 hover:text-amber-200 text-xs"
+                                        >
+                                            Add color
+                                        </button>
+                                    </span>
+                                )}
+                            </div>
+                        </div>
+
+                        <div>
+                            <p className="text-gray-300 mb-2">Reference images</p>
+                            <div className="flex flex-wrap gap-3">
+                                {draft.referenceImages.map((url, index) => (
+                                    <div key={index} className="relative w-24 h-24">
+                                        <img src={url} alt={`Reference ${index + 1}`} className="w-full h-full object-cover rounded-lg border border-gray-600" />
+                                        {!isReadOnly && (
+                                            <button
+                                                onClick={() => updateDraft({ referenceImages: draft.referenceImages.filter((_, i) => i !== index) })}
+                                                className="absolute top-1 right-1 bg-gray-900/80 text-white rounded-full w-5 h-5 text-xs"
+                                            >
+                                                &times;
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                                {!isReadOnly && draft.referenceImages.length < MAX_REFERENCE_IMAGES && (
+                                    <label className="w-24 h-24 flex items-center justify-center rounded-lg border-2 border-dashed border-gray-600 text-gray-400 hover:text-white hover:border-gray-400 cursor-pointer text-xs text-center">
+                                        + Add image
+                                        <input type="file" accept="image/*" multiple className="hidden" onChange={(e) => { handleAddImages(e.target.files); e.target.value = ''; }} />
+                                    </label>
+                                )}
+                                {draft.referenceImages.length === 0 && isReadOnly && <span className="text-xs text-gray-500">None.</span>}
+                            </div>
+                            {error && <p className="text-xs text-red-300 mt-2">{error}</p>}
+                        </div>
+
+                        {!isReadOnly && (
+                            <div className="flex justify-end pt-4 border-t border-gray-700">
+                                <button
+                                    onClick={handleSave}
+                                    disabled={!isDirty || !draft.name.trim() || nameTaken}
+                                    className="bg-purple-600 hover:bg-purple-700 text-white font-semibold py-2 px-6 rounded-lg transition-colors disabled:opacity-50"
+                                >
+                                    Save Style
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
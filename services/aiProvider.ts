@@ -0,0 +1,115 @@
+import type { AiTask, AiProviderId, AiConfig, AiUsage, AiUsageRecord } from '../types';
+import { geminiProvider, hasGeminiApiKey } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+import { scheduleAiCall } from './aiScheduler';
+
+// Provider-neutral subset of JSON Schema used for structured text responses.
+export interface JsonSchema {
+    type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+    description?: string;
+    enum?: string[];
+    items?: JsonSchema;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+}
+
+// Per-call options the generators pass through to the provider layer.
+export interface AiCallOptions {
+    signal?: AbortSignal;
+    projectId?: string; // The project the call's usage is recorded against; the open project if unset
+}
+
+export interface JsonRequest extends AiCallOptions {
+    task: AiTask;
+    conceptId?: string; // Attributes the call's cost to a product
+    prompt: string;
+    systemInstruction?: string;
+    schema: JsonSchema;
+}
+
+export interface ImageRequest extends AiCallOptions {
+    task: AiTask;
+    conceptId?: string;
+    prompt: string;
+    images: string[]; // Data URLs sent ahead of the prompt, in order
+    outputMimeType: 'image/png' | 'image/jpeg';
+}
+
+export interface AiResult<T> {
+    value: T;
+    usage: AiUsage;
+}
+
+// Providers make a single attempt and report failures as AiRequestError, which the scheduler
+// uses to decide whether to retry.
+export interface AiProvider {
+    id: AiProviderId;
+    label: string;
+    defaultModels: Record<AiTask, string>;
+    generateJson: (request: JsonRequest, model: string) => Promise<AiResult<unknown>>;
+    generateImage: (request: ImageRequest, model: string) => Promise<AiResult<string>>; // The value is a data URL
+}
+
+export type AiUsageListener = (usage: Omit<AiUsageRecord, 'cost'>, projectId?: string) => void;
+
+export const AI_PROVIDERS: Record<AiProviderId, AiProvider> = {
+    gemini: geminiProvider,
+    mock: mockProvider,
+};
+
+export const AI_TASK_LABELS: Record<AiTask, string> = {
+    ideation: 'Concept ideation',
+    risk: 'Trademark screening',
+    listing: 'Listing copy',
+    localize: 'Translations',
+    rewrite: 'Copy rewrites',
+    tags: 'Replacement tags',
+    design: 'Designs & refinements',
+    mockup: 'Mockups',
+};
+
+// Without a Gemini key the app starts on the offline mock, so it loads and demos anywhere.
+export const DEFAULT_AI_CONFIG: AiConfig = {
+    provider: hasGeminiApiKey() ? 'gemini' : 'mock',
+    models: {},
+};
+
+let config: AiConfig = DEFAULT_AI_CONFIG;
+let usageListener: AiUsageListener | null = null;
+
+export const configureAi = (next: AiConfig) => {
+    config = next;
+};
+
+const getProvider = (aiConfig = config): AiProvider => AI_PROVIDERS[aiConfig.provider] ?? AI_PROVIDERS.gemini;
+
+/**
+ * The model a task runs on: the configured override, else the provider's default. Pass a config
+ * to ask about settings that have not been applied yet.
+ */
+export const getModel = (task: AiTask, aiConfig = config): string =>
+    aiConfig.models[task]?.trim() || getProvider(aiConfig).defaultModels[task];
+
+/**
+ * Receive the usage of every successful AI call. Returns a function that removes the listener.
+ */
+export const onAiUsage = (listener: AiUsageListener): (() => void) => {
+    usageListener = listener;
+    return () => {
+        if (usageListener === listener) usageListener = null;
+    };
+};
+
+const run = async <T>(request: JsonRequest | ImageRequest, call: (provider: AiProvider, model: string) => Promise<AiResult<T>>): Promise<T> => {
+    const model = getModel(request.task);
+    const provider = getProvider();
+    const { value, usage } = await scheduleAiCall(model, () => call(provider, model), request.signal);
+    usageListener?.({ ...usage, task: request.task, model, conceptId: request.conceptId, at: Date.now() }, request.projectId);
+    return value;
+};
+
+export const generateJson = <T>(request: JsonRequest): Promise<T> =>
+    run(request, (provider, model) => provider.generateJson(request, model)) as Promise<T>;
+
+export const generateImage = (request: ImageRequest): Promise<string> =>
+    run(request, (provider, model) => provider.generateImage(request, model));
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { scheduleAiCall, configureScheduler, AiRequestError, isAbortError } from './aiScheduler';
+
+// Lanes are kept per model for the life of the module, so every test uses its own model.
+const LIMITS = {
+    'one-at-a-time': { concurrency: 1, requestsPerMinute: 600 },
+    'one-per-second': { concurrency: 2, requestsPerMinute: 60 },
+    'rate-limited': { concurrency: 1, requestsPerMinute: 600 },
+    'flaky': { concurrency: 1, requestsPerMinute: 600 },
+    'denied': { concurrency: 1, requestsPerMinute: 600 },
+    'cancelled': { concurrency: 1, requestsPerMinute: 600 },
+};
+
+describe('scheduleAiCall', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        configureScheduler(LIMITS);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('runs no more calls at once than the model allows', async () => {
+        let finish!: () => void;
+        const first = vi.fn(() => new Promise<string>(resolve => { finish = () => resolve('first'); }));
+        const second = vi.fn(async () => 'second');
+
+        const results = [scheduleAiCall('one-at-a-time', first), scheduleAiCall('one-at-a-time', second)];
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(second).not.toHaveBeenCalled();
+
+        finish();
+        await vi.advanceTimersByTimeAsync(1000);
+        await expect(Promise.all(results)).resolves.toEqual(['first', 'second']);
+    });
+
+    it('holds calls beyond the token bucket until it refills', async () => {
+        const call = vi.fn(async () => 'ok');
+        const results = [1, 2, 3].map(() => scheduleAiCall('one-per-second', call));
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(call).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(999);
+        expect(call).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(call).toHaveBeenCalledTimes(3);
+        await Promise.all(results);
+    });
+
+    it("waits out a rate limit for the provider's retry delay", async () => {
+        const call = vi.fn()
+            .mockRejectedValueOnce(new AiRequestError('Quota exceeded', 'rate-limit', 429, 5000))
+            .mockResolvedValueOnce('ok');
+
+        const result = scheduleAiCall('rate-limited', call);
+        await vi.advanceTimersByTimeAsync(4999);
+        expect(call).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(result).resolves.toBe('ok');
+        expect(call).toHaveBeenCalledTimes(2);
+    });
+
+    it('backs off exponentially when the provider gives no delay', async () => {
+        const call = vi.fn()
+            .mockRejectedValueOnce(new AiRequestError('Internal error', 'server', 500))
+            .mockRejectedValueOnce(new AiRequestError('Internal error', 'server', 500))
+            .mockResolvedValueOnce('ok');
+
+        const result = scheduleAiCall('flaky', call);
+        await vi.advanceTimersByTimeAsync(2000);
+        expect(call).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(3999);
+        expect(call).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(result).resolves.toBe('ok');
+    });
+
+    it('does not retry failures that will not go away', async () => {
+        const call = vi.fn().mockRejectedValue(new AiRequestError('API key not valid', 'auth', 403));
+        await expect(scheduleAiCall('denied', call)).rejects.toThrow('API key not valid');
+        expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops waiting to retry once cancelled', async () => {
+        const controller = new AbortController();
+        const call = vi.fn().mockRejectedValue(new AiRequestError('Overloaded', 'overloaded', 503, 60_000));
+
+        const result = scheduleAiCall('cancelled', call, controller.signal).catch(error => error);
+        await vi.advanceTimersByTimeAsync(0);
+        controller.abort();
+        expect(isAbortError(await result)).toBe(true);
+        expect(call).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,150 @@
+import type { ModelLimit } from '../types';
+
+// Why a provider call failed, so retries do not depend on the wording of error messages.
+export type AiErrorKind = 'rate-limit' | 'overloaded' | 'server' | 'network' | 'auth' | 'invalid';
+
+const RETRYABLE_KINDS: AiErrorKind[] = ['rate-limit', 'overloaded', 'server', 'network'];
+
+/**
+ * A failed provider call, classified by the provider that made it.
+ */
+export class AiRequestError extends Error {
+    constructor(
+        message: string,
+        readonly kind: AiErrorKind,
+        readonly status?: number,
+        readonly retryAfterMs?: number, // The provider's own hint, e.g. from Retry-After
+    ) {
+        super(message);
+        this.name = 'AiRequestError';
+    }
+}
+
+export const DEFAULT_MODEL_LIMIT: ModelLimit = { concurrency: 2, requestsPerMinute: 10 };
+
+// Conservative for Gemini's paid tier 1; raise them in Settings on higher tiers.
+export const DEFAULT_MODEL_LIMITS: Record<string, ModelLimit> = {
+    'gemini-2.5-flash': { concurrency: 4, requestsPerMinute: 60 },
+    'gemini-3-pro-preview': { concurrency: 2, requestsPerMinute: 20 },
+    'gemini-2.5-flash-image': { concurrency: 3, requestsPerMinute: 20 },
+    mock: { concurrency: 4, requestsPerMinute: 600 },
+};
+
+const MAX_RETRIES = 5;
+const INITIAL_RETRY_DELAY_MS = 2000;
+
+// Each model gets its own lane: a concurrency limit plus a token bucket that holds one
+// request per concurrent slot and refills at the per-minute rate.
+interface Lane {
+    active: number;
+    tokens: number;
+    refilledAt: number;
+    pausedUntil: number; // Set when the provider says to back off; holds every call to the model
+    wakers: Set<() => void>;
+}
+
+let limits: Record<string, ModelLimit> = DEFAULT_MODEL_LIMITS;
+const lanes = new Map<string, Lane>();
+
+export const configureScheduler = (next: Record<string, ModelLimit>) => {
+    limits = next;
+    lanes.forEach(lane => lane.wakers.forEach(wake => wake()));
+};
+
+export const getModelLimit = (model: string): ModelLimit => limits[model] ?? DEFAULT_MODEL_LIMIT;
+
+const getLane = (model: string): Lane => {
+    let lane = lanes.get(model);
+    if (!lane) {
+        lane = { active: 0, tokens: Math.max(1, getModelLimit(model).concurrency), refilledAt: Date.now(), pausedUntil: 0, wakers: new Set() };
+        lanes.set(model, lane);
+    }
+    return lane;
+};
+
+const abortError = (): Error => new DOMException('The request was cancelled.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Wait `ms`, or until `wake` is called from outside when `ms` is undefined. Rejects as soon
+ * as `signal` aborts.
+ */
+export const sleep = (ms: number | undefined, signal?: AbortSignal, wakers?: Set<() => void>): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(abortError());
+        const done = () => {
+            clearTimeout(timer);
+            wakers?.delete(done);
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        };
+        const onAbort = () => {
+            clearTimeout(timer);
+            wakers?.delete(done);
+            reject(abortError());
+        };
+        const timer = ms === undefined ? undefined : setTimeout(done, ms);
+        wakers?.add(done);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+const acquire = async (model: string, signal?: AbortSignal) => {
+    const lane = getLane(model);
+    while (true) {
+        if (signal?.aborted) throw abortError();
+        const { concurrency, requestsPerMinute } = getModelLimit(model);
+        const capacity = Math.max(1, concurrency);
+        const perMs = requestsPerMinute / 60_000;
+        const now = Date.now();
+        lane.tokens = Math.min(capacity, lane.tokens + (now - lane.refilledAt) * perMs);
+        lane.refilledAt = now;
+
+        const wait = Math.max(lane.pausedUntil - now, lane.tokens >= 1 ? 0 : (1 - lane.tokens) / perMs);
+        if (lane.active < capacity && wait <= 0) {
+            lane.active++;
+            lane.tokens--;
+            return;
+        }
+        // A full lane waits for a release; otherwise for the next token or the end of a pause.
+        await sleep(lane.active < capacity ? Math.ceil(wait) : undefined, signal, lane.wakers);
+    }
+};
+
+const release = (model: string) => {
+    const lane = getLane(model);
+    lane.active--;
+    lane.wakers.forEach(wake => wake());
+};
+
+/**
+ * Run a provider call within its model's limits, retrying rate limits and transient failures
+ * with exponential backoff or the provider's own delay. A rate limit pauses every call to the
+ * model, not just the one that hit it.
+ */
+export const scheduleAiCall = async <T>(model: string, call: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        await acquire(model, signal);
+        let failure: AiRequestError;
+        try {
+            return await call();
+        } catch (error) {
+            if (!(error instanceof AiRequestError) || !RETRYABLE_KINDS.includes(error.kind)) throw error;
+            failure = error;
+        } finally {
+            release(model);
+        }
+
+        if (attempt >= MAX_RETRIES) {
+            throw new Error(`The AI service is temporarily busy (${failure.status ?? failure.kind}). Please try again shortly.`);
+        }
+        const delay = failure.retryAfterMs ?? INITIAL_RETRY_DELAY_MS * 2 ** attempt;
+        if (failure.kind === 'rate-limit') {
+            const lane = getLane(model);
+            lane.pausedUntil = Math.max(lane.pausedUntil, Date.now() + delay);
+        }
+        console.warn(`${model} ${failure.kind} (${failure.message}). Retrying in ${delay / 1000}s... (Attempt ${attempt + 1}/${MAX_RETRIES})`);
+        await sleep(delay, signal);
+    }
+};
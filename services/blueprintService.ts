@@ -0,0 +1,82 @@
+import type { Blueprint, BlueprintRevision } from '../types';
+import { getAllRecords, putRecord, deleteRecord, createId } from './storageService';
+
+export const DEFAULT_BLUEPRINT_ID = 'holiday-gold';
+
+const HOLIDAY_GOLD_CONTENT = `
+**Core Trends:**
+1.  **Coziness & Comfort:** Warm, soft, comfortable is paramount.
+2.  **Personalization:** The #1 driver. Customize with names, dates, photos.
+3.  **Niche-Specific:** Reflect the recipient's identity (e.g., "Dog Mom," "Book Lover").
+4.  **Retro & Nostalgia:** 70s, 80s, and 90s designs are popular.
+5.  **Humor & Sarcasm:** Relatable, funny takes on holiday stress and cheer sell well.
+
+**Top 10 High-Performing Products:**
+1.  **Sweatshirts (Crewneck) & Hoodies:** King of cozy. Target 18-35. Earthy/muted colors (Sage, Sand) and classic holiday colors. Designs: Minimalist text, retro fonts, niche phrases.
+2.  **Ceramic Mugs (11oz & 15oz):** Perfect affordable gift. Broad appeal (25-55). Designs: Sarcastic humor, personalization (names, photos), wraparound patterns.
+3.  **Ornaments (Ceramic, Metal, Wood):** Collectible & sentimental. Personalization is key. Designs: Major life events ("Our First Home"), photo-based, pet themes.
+4.  **T-Shirts:** Evergreen. Good for layering/warmer climates. Designs: Funny graphics, matching family sets, pop culture parodies.
+5.  **Blankets (Sherpa Fleece):** Ultimate cozy, high-value gift. Designs: Photo collages, personalized text, large-scale art.
+6.  **Tote Bags:** Eco-friendly & practical. Good for niche designs. Natural/beige colors. Designs: Bookish themes, simple chic illustrations, humor.
+7.  **Pillows & Pillow Covers:** Festive home decor. Farmhouse style, personalized family names, classic phrases.
+8.  **Wrapping Paper:** Unique and special. Trend: Photo face mash (hilarious).
+9.  **Socks:** Classic stocking stuffer. Designs: Face mash, hobby-themed, funny text on the bottom.
+10. **Phone Cases:** Seasonal accessory. Designs: Aesthetic winter scenes, subtle patterns, personalization.
+`;
+
+// Shipped with the app. Saving an edit stores it under the same ID, and deleting that copy
+// brings this version back.
+const DEFAULT_BLUEPRINT: Blueprint = {
+    id: DEFAULT_BLUEPRINT_ID,
+    name: 'Holiday Gold Blueprint',
+    revisions: [{ id: 'holiday-gold-1', content: HOLIDAY_GOLD_CONTENT, createdAt: 0, note: 'Original blueprint' }],
+    createdAt: 0,
+    updatedAt: 0,
+};
+
+/**
+ * The text of the blueprint's latest revision.
+ */
+export const getBlueprintContent = (blueprint: Blueprint): string =>
+    blueprint.revisions[blueprint.revisions.length - 1]?.content ?? '';
+
+/**
+ * Every blueprint, the default first and the rest in creation order.
+ */
+export const listBlueprints = async (): Promise<Blueprint[]> => {
+    const stored = await getAllRecords<Blueprint>('blueprints');
+    const blueprints = stored.some(b => b.id === DEFAULT_BLUEPRINT_ID) ? stored : [DEFAULT_BLUEPRINT, ...stored];
+    return blueprints.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Look up a blueprint by ID, falling back to the default when it has been deleted.
+ */
+export const resolveBlueprint = (id: string | undefined, blueprints: Blueprint[]): Blueprint =>
+    blueprints.find(b => b.id === id) ?? blueprints.find(b => b.id === DEFAULT_BLUEPRINT_ID) ?? DEFAULT_BLUEPRINT;
+
+/**
+ * Save the blueprint, recording `content` as a new revision when it differs from the latest one.
+ */
+export const saveBlueprint = (blueprint: Blueprint, content: string, note?: string): Promise<Blueprint> => {
+    const revisions: BlueprintRevision[] = content === getBlueprintContent(blueprint)
+        ? blueprint.revisions
+        : [...blueprint.revisions, { id: createId(), content, createdAt: Date.now(), note: note || undefined }];
+    return putRecord('blueprints', { ...blueprint, revisions, updatedAt: Date.now() });
+};
+
+export const deleteBlueprint = (id: string): Promise<void> => deleteRecord('blueprints', id);
+
+export const createBlueprint = (name: string, content = ''): Blueprint => ({
+    id: createId(),
+    name,
+    revisions: [{ id: createId(), content, createdAt: Date.now() }],
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+});
+
+/**
+ * A new blueprint starting from the latest text of `blueprint`, without its history.
+ */
+export const cloneBlueprint = (blueprint: Blueprint, name: string): Blueprint =>
+    createBlueprint(name, getBlueprintContent(blueprint));
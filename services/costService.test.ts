@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { AiUsageRecord } from '../types';
+import { configureAi } from './aiProvider';
+import { estimateCost, DEFAULT_MODEL_PRICES } from './costService';
+
+const record = (patch: Partial<AiUsageRecord>): AiUsageRecord =>
+    ({ task: 'ideation', model: 'gemini-2.5-flash', inputTokens: 0, outputTokens: 0, images: 0, cost: 0, at: 0, ...patch });
+
+describe('estimateCost', () => {
+    beforeEach(() => {
+        configureAi({ provider: 'gemini', models: {} });
+    });
+
+    it('prices a typical call when the project has made none of that kind', () => {
+        // 3000 input and 2000 output tokens on gemini-2.5-flash
+        expect(estimateCost([{ task: 'ideation', count: 2 }], [], DEFAULT_MODEL_PRICES)).toBeCloseTo(2 * 0.0059);
+    });
+
+    it("averages the project's earlier calls on the same model", () => {
+        const history = [
+            record({ inputTokens: 1000, outputTokens: 1000 }),
+            record({ inputTokens: 3000, outputTokens: 3000 }),
+            record({ model: 'gemini-3-pro-preview', inputTokens: 100_000, outputTokens: 100_000 }),
+        ];
+        expect(estimateCost([{ task: 'ideation', count: 1 }], history, DEFAULT_MODEL_PRICES)).toBeCloseTo(0.0056);
+    });
+
+    it('bills image models per image', () => {
+        expect(estimateCost([{ task: 'design', count: 3 }], [], DEFAULT_MODEL_PRICES)).toBeCloseTo(3 * (0.00045 + 0.039));
+    });
+
+    it('counts models without a price as free', () => {
+        configureAi({ provider: 'gemini', models: { ideation: 'my-tuned-model' } });
+        expect(estimateCost([{ task: 'ideation', count: 5 }], [], DEFAULT_MODEL_PRICES)).toBe(0);
+    });
+});
@@ -0,0 +1,98 @@
+import type { AiTask, AiUsage, AiUsageRecord, AppStep, ModelPrice } from '../types';
+import { getModel } from './aiProvider';
+
+// Google's paid-tier list prices. Image models bill the generated image instead of its output
+// tokens, so their output price is zero to avoid counting it twice.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0 },
+    'gemini-3-pro-preview': { inputPerMillion: 2, outputPerMillion: 12, perImage: 0 },
+    'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 0, perImage: 0.039 },
+};
+
+// Used to estimate a batch before the project has made a call of that kind.
+const TYPICAL_USAGE: Record<AiTask, AiUsage> = {
+    ideation: { inputTokens: 3000, outputTokens: 2000, images: 0 },
+    risk: { inputTokens: 600, outputTokens: 800, images: 0 },
+    listing: { inputTokens: 3000, outputTokens: 4000, images: 0 },
+    localize: { inputTokens: 3000, outputTokens: 3000, images: 0 },
+    rewrite: { inputTokens: 3000, outputTokens: 800, images: 0 },
+    tags: { inputTokens: 2500, outputTokens: 600, images: 0 },
+    design: { inputTokens: 1500, outputTokens: 0, images: 1 },
+    mockup: { inputTokens: 1000, outputTokens: 0, images: 1 },
+};
+
+// The pipeline step each task belongs to, for the per-step breakdown.
+export const TASK_STEPS: Record<AiTask, AppStep> = {
+    ideation: 'IDEATION',
+    risk: 'IDEATION',
+    design: 'DESIGN',
+    listing: 'FINALIZE',
+    localize: 'FINALIZE',
+    rewrite: 'FINALIZE',
+    tags: 'FINALIZE',
+    mockup: 'FINALIZE',
+};
+
+export interface PlannedAiCalls {
+    task: AiTask;
+    count: number;
+}
+
+export interface CostTotals {
+    cost: number;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    calls: number;
+}
+
+/**
+ * The USD cost of a call. Models missing from the price table cost nothing.
+ */
+export const priceUsage = (usage: AiUsage, model: string, prices: Record<string, ModelPrice>): number => {
+    const price = prices[model];
+    if (!price) return 0;
+    return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000
+        + usage.images * price.perImage;
+};
+
+export const sumUsage = (records: AiUsageRecord[]): CostTotals =>
+    records.reduce<CostTotals>((totals, r) => ({
+        cost: totals.cost + r.cost,
+        inputTokens: totals.inputTokens + r.inputTokens,
+        outputTokens: totals.outputTokens + r.outputTokens,
+        images: totals.images + r.images,
+        calls: totals.calls + 1,
+    }), { cost: 0, inputTokens: 0, outputTokens: 0, images: 0, calls: 0 });
+
+/**
+ * Group usage by a key, e.g. step or product. Records without a key are left out.
+ */
+export const groupUsage = (records: AiUsageRecord[], keyOf: (record: AiUsageRecord) => string | undefined): Record<string, CostTotals> => {
+    const groups: Record<string, AiUsageRecord[]> = {};
+    for (const record of records) {
+        const key = keyOf(record);
+        if (key !== undefined) (groups[key] ??= []).push(record);
+    }
+    return Object.fromEntries(Object.entries(groups).map(([key, group]) => [key, sumUsage(group)]));
+};
+
+/**
+ * Estimate what a batch will cost at today's prices, from the average usage of the project's
+ * earlier calls of each kind or a typical call when there are none.
+ */
+export const estimateCost = (planned: PlannedAiCalls[], history: AiUsageRecord[], prices: Record<string, ModelPrice>): number =>
+    planned.reduce((total, { task, count }) => {
+        const model = getModel(task);
+        const past = history.filter(r => r.task === task && r.model === model);
+        const usage = past.length === 0 ? TYPICAL_USAGE[task] : {
+            inputTokens: past.reduce((sum, r) => sum + r.inputTokens, 0) / past.length,
+            outputTokens: past.reduce((sum, r) => sum + r.outputTokens, 0) / past.length,
+            images: past.reduce((sum, r) => sum + r.images, 0) / past.length,
+        };
+        return total + count * priceUsage(usage, model, prices);
+    }, 0);
+
+// Cents are too coarse for single text calls, which often cost a fraction of one.
+export const formatCost = (usd: number): string =>
+    usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
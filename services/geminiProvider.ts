@@ -0,0 +1,131 @@
+import { GoogleGenAI, ApiError, Type, Modality, GenerateContentResponse, Schema } from "@google/genai";
+import type { AiUsage } from '../types';
+import type { AiProvider, JsonSchema } from './aiProvider';
+import { AiRequestError, type AiErrorKind } from './aiScheduler';
+
+export const hasGeminiApiKey = (): boolean => !!process.env.API_KEY;
+
+let client: GoogleGenAI | null = null;
+
+// Created on first use, so the app loads without a key and only Gemini requests fail.
+const getClient = (): GoogleGenAI => {
+    if (!hasGeminiApiKey()) {
+        throw new Error("No Gemini API key is set. Add GEMINI_API_KEY to .env.local, or switch to the offline mock provider in Settings.");
+    }
+    if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    return client;
+};
+
+const getErrorKind = (status: number): AiErrorKind =>
+    status === 429 ? 'rate-limit'
+    : status === 503 ? 'overloaded'
+    : status >= 500 ? 'server'
+    : status === 401 || status === 403 ? 'auth'
+    : 'invalid';
+
+/**
+ * Classify an SDK failure for the scheduler. An `ApiError` carries the status and the JSON error
+ * body, behind a "got status" prefix when it came from a stream chunk; a 429 body names the wait
+ * in its RetryInfo detail. The SDK passes fetch's TypeError through when Gemini can't be reached.
+ */
+const toAiRequestError = (error: unknown): unknown => {
+    if (error instanceof TypeError) return new AiRequestError(`Could not reach Gemini: ${error.message}`, 'network');
+    if (!(error instanceof ApiError)) return error;
+
+    let body: { message?: string; details?: { '@type'?: string; retryDelay?: string }[] } | undefined;
+    try {
+        body = JSON.parse(error.message.slice(error.message.indexOf('{'))).error;
+    } catch {
+        body = undefined;
+    }
+    const retryDelay = body?.details?.find(d => d['@type']?.endsWith('RetryInfo'))?.retryDelay;
+    const retryAfterMs = retryDelay ? parseFloat(retryDelay) * 1000 : undefined;
+    return new AiRequestError(body?.message ?? error.message, getErrorKind(error.status), error.status, Number.isFinite(retryAfterMs) ? retryAfterMs : undefined);
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+    type: schema.type.toUpperCase() as Type,
+    description: schema.description,
+    enum: schema.enum,
+    items: schema.items && toGeminiSchema(schema.items),
+    properties: schema.properties && Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+    required: schema.required,
+});
+
+const base64ToPart = (base64DataUrl: string) => {
+    const [header, data] = base64DataUrl.split(',');
+    if (!header || !data) {
+        throw new Error("Invalid base64 data URL format.");
+    }
+    const mimeType = header.match(/:(.*?);/)?.[1] ?? 'image/png';
+    return {
+        inlineData: {
+            mimeType,
+            data,
+        }
+    };
+};
+
+const extractImage = (response: GenerateContentResponse, mimeType: string): string | null => {
+    if (response.candidates && response.candidates.length > 0 && response.candidates[0].content.parts) {
+        const imagePart = response.candidates[0].content.parts.find(part => part.inlineData);
+        if (imagePart && imagePart.inlineData) {
+            return `data:${mimeType};base64,${imagePart.inlineData.data}`;
+        }
+    }
+    return null;
+};
+
+const getUsage = (response: GenerateContentResponse, images = 0): AiUsage => ({
+    inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+    outputTokens: (response.usageMetadata?.candidatesTokenCount ?? 0) + (response.usageMetadata?.thoughtsTokenCount ?? 0),
+    images,
+});
+
+export const geminiProvider: AiProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    defaultModels: {
+        ideation: 'gemini-2.5-flash',
+        risk: 'gemini-2.5-flash',
+        listing: 'gemini-3-pro-preview',
+        localize: 'gemini-3-pro-preview',
+        rewrite: 'gemini-2.5-flash',
+        tags: 'gemini-2.5-flash',
+        design: 'gemini-2.5-flash-image',
+        mockup: 'gemini-2.5-flash-image',
+    },
+
+    generateJson: async (request, model) => {
+        const ai = getClient();
+        const response: GenerateContentResponse = await ai.models.generateContent({
+            model,
+            contents: request.prompt,
+            config: {
+                systemInstruction: request.systemInstruction,
+                responseMimeType: "application/json",
+                responseSchema: toGeminiSchema(request.schema),
+                abortSignal: request.signal,
+            },
+        }).catch(error => { throw toAiRequestError(error); });
+        return { value: JSON.parse(response.text.trim()), usage: getUsage(response) };
+    },
+
+    generateImage: async (request, model) => {
+        const ai = getClient();
+        const response: GenerateContentResponse = await ai.models.generateContent({
+            model,
+            contents: {
+                parts: [...request.images.map(base64ToPart), { text: request.prompt }]
+            },
+            config: {
+                responseModalities: [Modality.IMAGE],
+                abortSignal: request.signal,
+            },
+        }).catch(error => { throw toAiRequestError(error); });
+
+        const imageUrl = extractImage(response, request.outputMimeType);
+        if (!imageUrl) throw new Error("No image was generated.");
+        return { value: imageUrl, usage: getUsage(response, 1) };
+    },
+};
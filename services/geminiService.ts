@@ -1,131 +1,253 @@
-import { GoogleGenAI, Type, Modality, GenerateContentResponse } from "@google/genai";
-import type { ProductConcept, ListingCopy, DesignStyle, ProductType } from '../types';
+import type { ProductConcept, ConceptLineage, ConceptOrigin, ListingCopy, LocalizedListing, RewritableListingField, ListingRewriteMode, RiskLevel, StylePreset, ProductType, MockupShot, Blueprint, PersonalizationField } from '../types';
+import { createId } from './storageService';
+import { getLocaleName } from './localeService';
+import { getBlueprintContent } from './blueprintService';
+import { createPersonalization, getPlaceholders, getPersonalizationCharLimit, buildPersonalizationInstructions } from './personalizationService';
+import { generateJson, generateImage, type AiCallOptions, type JsonSchema } from './aiProvider';
+import { SCORE_CRITERIA, AGE_BANDS, normalizeScores } from './ideationService';
+
+/**
+ * The system instruction for text tasks: the Alchemist persona grounded in the chosen blueprint,
+ * dated today so generated copy never refers to a stale year.
+ */
+const buildSystemInstruction = (blueprint: Blueprint, today = new Date()): string => {
+    const date = today.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+    return `You are the 'Creative Alchemist,' an expert AI blending artistic mastery, market strategy, and copywriting genius. Your entire knowledge base comes from a top-secret print-on-demand strategy guide called the '${blueprint.name}.' You are forbidden from using any outside knowledge. Your sole purpose is to synthesize the blueprint's principles into unique, commercially-proven product concepts that will be bestsellers on Etsy. You do not generate generic ideas. Your responses must always be in JSON format. Today is ${date}; the current year is ${today.getFullYear()}. Ensure any generated content with dates reflects this.
+
+Here is the '${blueprint.name}' you must adhere to:
+${getBlueprintContent(blueprint)}
+`;
+};
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-}
+/**
+ * The style as prompt lines. Palette, typography and reference notes only appear when the
+ * style defines them.
+ */
+const describeStyle = (style: StylePreset): string => [
+    `- **Art Style:** ${style.name}`,
+    style.prompt && `- **Style Deep Dive:** ${style.prompt}`,
+    style.palette.length > 0 && `- **Color Palette:** Use only these colors: ${style.palette.join(', ')}.`,
+    style.fontGuidance && `- **Typography:** ${style.fontGuidance}`,
+    style.referenceImages.length > 0 && `- **Reference Images:** The attached reference images show the target look. Match their style, texture and palette, never their content or text.`,
+].filter(Boolean).join('\n');
+
+// A niche audience narrows the buyer: the slogan should speak to their identity, job or passion.
+const describeAudience = (audience?: string): string => audience
+    ? ` The designs target the **${audience}** niche: shoppers who identify as (or are buying for) a ${audience}. Use their in-jokes, vocabulary and pride while keeping the occasion clear.`
+    : '';
+
+// The fields every ideation prompt asks for. CONCEPT_LIST_SCHEMA is the matching response shape.
+const describeConceptFields = (personalized: boolean): string => `Each variation must include:
+- 'conceptTitle': A descriptive name for the concept.
+- 'displayText': A short, commercially appealing, and creative phrase or quote that will be the central text of the design. **Crucially, this text MUST be a marketable slogan, NOT a literal description of the design style or theme.** For example, for a 'Geometric Modern' style Christmas design, instead of generating 'Geometric Cheer,' generate a creative holiday phrase like 'Pixelated Pines' or a classic quote like 'Oh So Merry.' The text should be clever, suitable for the design, and appealing to Etsy shoppers.
+- 'fusion': An array of 2-3 keywords that describe the concept's fusion of styles.
+- 'vision': A one-sentence creative vision for the design.
+- 'whyItWorks': A brief explanation of why this concept will sell well, based on the blueprint.
+- 'scores': An honest rating of the concept, each with a one-sentence 'rationale'. Do not inflate them; the seller uses them to pick winners.
+${SCORE_CRITERIA.map(c => `  - '${c.key}': 'score' from 1 to 10 for ${c.guidance}.`).join('\n')}
+  - 'ageBand': the buyer age 'band' it appeals to most.${personalized ? `
+- **Personalization:** Every 'displayText' MUST contain at least one placeholder in curly braces that the buyer fills in, such as {name}, {names}, {year} or {family}. Keep the fixed words short so long names still fit. For each placeholder, add an entry to 'personalizationFields' with its key (without braces), a buyer-facing label, a realistic maximum length and a sample value.` : ''}`;
+
+const CONCEPT_LIST_SCHEMA: JsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            conceptTitle: { type: 'string' },
+            displayText: { type: 'string', description: "The concise text/quote to be rendered on the design." },
+            fusion: { type: 'array', items: { type: 'string' } },
+            vision: { type: 'string' },
+            whyItWorks: { type: 'string' },
+            scores: {
+                type: 'object',
+                properties: {
+                    ...Object.fromEntries(SCORE_CRITERIA.map(({ key }) => [key, {
+                        type: 'object',
+                        properties: { score: { type: 'integer' }, rationale: { type: 'string' } },
+                        required: ['score', 'rationale'],
+                    }])),
+                    ageBand: {
+                        type: 'object',
+                        properties: { band: { type: 'string', enum: AGE_BANDS }, rationale: { type: 'string' } },
+                        required: ['band', 'rationale'],
+                    },
+                },
+                required: [...SCORE_CRITERIA.map(c => c.key), 'ageBand'],
+            },
+            personalizationFields: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        key: { type: 'string' },
+                        label: { type: 'string' },
+                        maxLength: { type: 'integer' },
+                        sample: { type: 'string' },
+                    },
+                },
+            },
+        },
+        required: ["conceptTitle", "displayText", "fusion", "vision", "whyItWorks", "scores"],
+    },
+};
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const withRetry = async <T>(apiCall: () => Promise<T>, maxRetries = 5, initialDelay = 2000): Promise<T> => {
-    let retries = 0;
-    let delay = initialDelay;
-
-    while (true) {
-        try {
-            return await apiCall();
-        } catch (error: any) {
-            // Handle various error structures from the SDK or raw API response
-            const status = error.status || error.response?.status || error.error?.code;
-            const message = error.message || error.error?.message || JSON.stringify(error);
-            const errorMessage = String(message).toLowerCase();
-            
-            // Retry on rate limits (429), quotas, and server errors (500, 503)
-            const isRetryable = 
-                errorMessage.includes('429') || 
-                errorMessage.includes('resource_exhausted') || 
-                errorMessage.includes('quota') ||
-                errorMessage.includes('internal') || 
-                errorMessage.includes('overloaded') ||
-                errorMessage.includes('server error') ||
-                status === 500 ||
-                status === 503;
-            
-            if (isRetryable && retries < maxRetries) {
-                retries++;
-                console.warn(`API Error (${status}: ${message}). Retrying in ${delay / 1000}s... (Attempt ${retries}/${maxRetries})`);
-                await new Promise(resolve => setTimeout(resolve, delay));
-                delay *= 2; // Exponential backoff
-            } else {
-                 if (isRetryable) {
-                     throw new Error(`The AI service is temporarily busy (Error ${status}). Please try again shortly.`);
-                 }
-                // Not a retryable error, or max retries reached
-                throw error;
-            }
-        }
+type GeneratedConcept = Omit<ProductConcept, 'id' | 'personalization'> & { personalizationFields?: PersonalizationField[] };
+
+const toProductConcepts = (concepts: GeneratedConcept[], holiday: string, style: StylePreset, productType: ProductType, lineage?: ConceptLineage): ProductConcept[] =>
+    concepts.map(({ personalizationFields, scores, ...concept }) => ({
+        ...concept,
+        id: createId(),
+        scores: scores && normalizeScores(scores),
+        holiday,
+        style: style.id,
+        productType,
+        lineage,
+        // Only slogans that really contain placeholders become personalized concepts.
+        personalization: getPlaceholders(concept.displayText).length > 0
+            ? createPersonalization(concept.displayText, personalizationFields)
+            : undefined,
+    }));
+
+export const generateIdeationPackage = async (holiday: string, style: StylePreset, productType: ProductType, blueprint: Blueprint, audience?: string, personalized = false, count = 3, options: AiCallOptions = {}): Promise<ProductConcept[]> => {
+    try {
+        const concepts = await generateJson<GeneratedConcept[]>({
+            task: 'ideation',
+            prompt: `Based on the '${blueprint.name}', generate ${count} distinct product concept variations for a **${productType}**. The theme is **${holiday}** with a **${style.name}** aesthetic.${describeAudience(audience)}
+
+**Style Brief:**
+${describeStyle(style)}
+
+${describeConceptFields(personalized)}`,
+            systemInstruction: buildSystemInstruction(blueprint),
+            schema: CONCEPT_LIST_SCHEMA,
+            ...options,
+        });
+        return toProductConcepts(concepts, holiday, style, productType);
+    } catch (error) {
+        console.error("Error generating ideation package:", error);
+        throw error;
     }
 };
 
-const holidayGoldBlueprint = `
-**Core Trends:**
-1.  **Coziness & Comfort:** Warm, soft, comfortable is paramount.
-2.  **Personalization:** The #1 driver. Customize with names, dates, photos.
-3.  **Niche-Specific:** Reflect the recipient's identity (e.g., "Dog Mom," "Book Lover").
-4.  **Retro & Nostalgia:** 70s, 80s, and 90s designs are popular.
-5.  **Humor & Sarcasm:** Relatable, funny takes on holiday stress and cheer sell well.
-
-**Top 10 High-Performing Products:**
-1.  **Sweatshirts (Crewneck) & Hoodies:** King of cozy. Target 18-35. Earthy/muted colors (Sage, Sand) and classic holiday colors. Designs: Minimalist text, retro fonts, niche phrases.
-2.  **Ceramic Mugs (11oz & 15oz):** Perfect affordable gift. Broad appeal (25-55). Designs: Sarcastic humor, personalization (names, photos), wraparound patterns.
-3.  **Ornaments (Ceramic, Metal, Wood):** Collectible & sentimental. Personalization is key. Designs: Major life events ("Our First Home"), photo-based, pet themes.
-4.  **T-Shirts:** Evergreen. Good for layering/warmer climates. Designs: Funny graphics, matching family sets, pop culture parodies.
-5.  **Blankets (Sherpa Fleece):** Ultimate cozy, high-value gift. Designs: Photo collages, personalized text, large-scale art.
-6.  **Tote Bags:** Eco-friendly & practical. Good for niche designs. Natural/beige colors. Designs: Bookish themes, simple chic illustrations, humor.
-7.  **Pillows & Pillow Covers:** Festive home decor. Farmhouse style, personalized family names, classic phrases.
-8.  **Wrapping Paper:** Unique and special. Trend: Photo face mash (hilarious).
-9.  **Socks:** Classic stocking stuffer. Designs: Face mash, hobby-themed, funny text on the bottom.
-10. **Phone Cases:** Seasonal accessory. Designs: Aesthetic winter scenes, subtle patterns, personalization.
-`;
+export interface BrainstormRequest {
+    kind: ConceptOrigin;
+    parents: ProductConcept[]; // One to riff on, two to remix, or none for a steered round
+    existing: ProductConcept[]; // Listed so the new concepts do not repeat them
+    steering?: string; // Free-text direction, e.g. "funnier" or "aimed at teachers"
+    holiday: string;
+    style: StylePreset;
+    productType: ProductType;
+}
 
-const alchemistSystemInstruction = `You are the 'Creative Alchemist,' an expert AI blending artistic mastery, market strategy, and copywriting genius. Your entire knowledge base comes from a top-secret print-on-demand strategy guide called the 'Holiday Gold Blueprint.' You are forbidden from using any outside knowledge. Your sole purpose is to synthesize the blueprint's principles into unique, commercially-proven product concepts that will be bestsellers on Etsy. You do not generate generic ideas. Your responses must always be in JSON format. The current year is 2025. Ensure any generated content with dates reflects this.
+const BRAINSTORM_INSTRUCTIONS: Record<ConceptOrigin, string> = {
+    similar: 'Riff on the concept below. Keep what makes it work (its angle, humor and buyer) but find fresh slogans and visual ideas.',
+    remix: 'Fuse the two concepts below into hybrids that combine the strongest idea of each.',
+    steer: 'Brainstorm fresh concepts in the direction given below.',
+};
 
-Here is the 'Holiday Gold Blueprint' you must adhere to:
-${holidayGoldBlueprint}
-`;
+const describeConcept = (concept: ProductConcept): string =>
+    `- "${concept.conceptTitle}": slogan "${concept.displayText}". ${concept.vision}`;
 
-export const generateIdeationPackage = async (holiday: string, style: DesignStyle, productType: ProductType): Promise<ProductConcept[]> => {
+/**
+ * New concepts built on earlier ones: more like one, a remix of two, or a round steered by
+ * free text. Each records the concepts and steering it came from.
+ */
+export const brainstormConcepts = async (request: BrainstormRequest, blueprint: Blueprint, audience?: string, personalized = false, count = 3, options: AiCallOptions = {}): Promise<ProductConcept[]> => {
+    const { kind, parents, existing, steering, holiday, style, productType } = request;
+    const others = existing.filter(c => !parents.some(p => p.id === c.id));
     try {
-        const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: `Based on the 'Holiday Gold Blueprint', generate 3 distinct product concept variations for a **${productType}**. The theme is **${holiday}** with a **${style}** aesthetic. Each variation must include:
-- 'conceptTitle': A descriptive name for the concept.
-- 'displayText': A short, commercially appealing, and creative phrase or quote that will be the central text of the design. **Crucially, this text MUST be a marketable slogan, NOT a literal description of the design style or theme.** For example, for a 'Geometric Modern' style Christmas design, instead of generating 'Geometric Cheer,' generate a creative holiday phrase like 'Pixelated Pines' or a classic quote like 'Oh So Merry.' The text should be clever, suitable for the design, and appealing to Etsy shoppers.
-- 'fusion': An array of 2-3 keywords that describe the concept's fusion of styles.
-- 'vision': A one-sentence creative vision for the design.
-- 'whyItWorks': A brief explanation of why this concept will sell well, based on the blueprint.`,
-            config: {
-                systemInstruction: alchemistSystemInstruction,
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            conceptTitle: { type: Type.STRING },
-                            displayText: { type: Type.STRING, description: "The concise text/quote to be rendered on the design." },
-                            fusion: { type: Type.ARRAY, items: { type: Type.STRING } },
-                            vision: { type: Type.STRING },
-                            whyItWorks: { type: Type.STRING },
-                        },
-                        required: ["conceptTitle", "displayText", "fusion", "vision", "whyItWorks"],
+        const concepts = await generateJson<GeneratedConcept[]>({
+            task: 'ideation',
+            prompt: `Based on the '${blueprint.name}', generate ${count} new product concept variations for a **${productType}**. The theme is **${holiday}** with a **${style.name}** aesthetic.${describeAudience(audience)}
+
+${BRAINSTORM_INSTRUCTIONS[kind]}
+${parents.map(describeConcept).join('\n')}${steering ? `
+
+**Steering:** ${steering}. Every new concept must follow this direction.` : ''}${others.length > 0 ? `
+
+These concepts already exist. Do not repeat their titles or slogans:
+${others.map(describeConcept).join('\n')}` : ''}
+
+**Style Brief:**
+${describeStyle(style)}
+
+${describeConceptFields(personalized)}`,
+            systemInstruction: buildSystemInstruction(blueprint),
+            schema: CONCEPT_LIST_SCHEMA,
+            ...options,
+        });
+        return toProductConcepts(concepts, holiday, style, productType, {
+            kind,
+            parents: parents.map(p => ({ id: p.id, title: p.conceptTitle })),
+            steering,
+        });
+    } catch (error) {
+        console.error("Error brainstorming concepts:", error);
+        throw error;
+    }
+};
+
+/**
+ * Rate how likely each text is to infringe a trademark or copyright on Etsy. Items the model
+ * skips are missing from the result.
+ */
+export const assessTrademarkRisk = async (items: { id: string; text: string }[], options: AiCallOptions = {}): Promise<Record<string, { level: RiskLevel; explanation: string }>> => {
+    try {
+        const assessments = await generateJson<{ id: string; level: RiskLevel; explanation: string }[]>({
+            task: 'risk',
+            prompt: `You are an intellectual property reviewer for an Etsy print-on-demand shop. Rate the trademark and copyright risk of each item below.
+
+- 'high': uses or closely parodies a registered trademark, brand, character, franchise, celebrity name, song lyric, movie quote or a phrase known to be trademarked on Etsy.
+- 'medium': evokes a protected property or a phrase that may be trademarked, without naming it outright.
+- 'low': generic wording that anyone may use.
+
+For 'medium' and 'high', explain in one sentence which property or phrase is at risk. For 'low', leave the explanation short.
+
+Items:
+${items.map(item => `[${item.id}]\n${item.text}`).join('\n\n')}`,
+            schema: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string' },
+                        level: { type: 'string', enum: ['low', 'medium', 'high'] },
+                        explanation: { type: 'string' },
                     },
+                    required: ["id", "level", "explanation"],
                 },
             },
-        }));
-        const jsonText = response.text.trim();
-        return JSON.parse(jsonText) as ProductConcept[];
+            ...options,
+        });
+        return Object.fromEntries(assessments.map(({ id, ...assessment }) => [id, assessment]));
     } catch (error) {
-        console.error("Error generating ideation package:", error);
+        console.error("Error assessing trademark risk:", error);
         throw error;
     }
 };
 
-const stylePrompts: Record<DesignStyle, string> = {
-    'Minimalist Vector': "Create a sophisticated, single-color vector graphic. The design must be clean, modern, and immediately legible from a distance. Emphasize elegant, crisp line work, impactful silhouettes, and masterful use of negative space. Typography is key: use a high-end, minimalist sans-serif font (like Helvetica Neue, Futura, or a similar aesthetic) that is perfectly integrated as a core design element. The final asset should feel like it belongs in a modern art gallery. Strictly monochrome on a transparent background.",
-    'Geometric Modern': "Construct a bold, abstract design using fundamental shapes (circles, triangles, squares). Create a dynamic, visually striking composition with a limited, high-contrast color palette (max 3-4 colors). The aesthetic is sharp, intentional, and influenced by Bauhaus and Swiss design. Typography must be a clean, geometric sans-serif (e.g., Avant-Garde, Century Gothic), treated as a structural element within the composition.",
-    'Retro Script': "Channel a 1970s retro vibe with a modern twist. The centerpiece is a bold, flowing script font with exaggerated swashes and a thick, confident weight. Think funky, groovy, and highly stylized. Use a classic 70s color palette: burnt orange, avocado green, mustard yellow, and cream. The design can have a slightly distressed, screen-printed texture to feel authentic. Incorporate subtle supporting elements like sparkles, stars, or soft stripes that enhance the typography without cluttering it. The mood is playful, nostalgic, and confident.",
-    'Vintage Engraving': "Emulate a classic, hand-carved woodcut or steel engraving style. The design must be monochrome (black on a transparent background). Use intricate, high-detail linework, cross-hatching, and stippling to create a sense of texture, depth, and craftsmanship. The final asset should look like a lost illustration from a 19th-century book or a classic artisanal logo. Typography must be a timeless serif font with character, like Garamond or a Caslon-style face.",
-    'Watercolor Botanical': "Create a soft, organic design featuring delicate, hand-painted watercolor illustrations of flowers, leaves, or other natural elements. Colors should be translucent, with soft edges and beautiful blending, as if painted on cotton paper. The composition should feel airy and natural. Typography must be an elegant, light script or a refined serif font that complements the artistic, hand-painted aesthetic.",
-    'Cosmic Doodle': "A whimsical, imaginative hand-drawn style that looks like it came from a professional artist's sketchbook. Think intricate, charming doodles of stars, planets, moons, and constellations with a playful, friendly feel. Use a consistent, clean line weight. The typography should be a unique, quirky, handwritten font that is perfectly integrated into the celestial doodles. The style is creative, dreamy, and full of wonder.",
-    'Art Deco': "An elegant, glamorous, and symmetrical design inspired by the roaring 1920s. Use strong, sharp geometric lines, sunburst patterns, and a sense of luxury and order. The color palette should be bold and high-contrast, incorporating metallic gold or silver accents. The typography is CRITICAL: it must be a distinctive Art Deco-style font—tall, geometric, highly stylized, and perfectly centered to create a commanding presence (e.g., Poiret One, Mostra Nuova).",
-    'Cyberpunk Glitch': "A futuristic, high-tech design with a deliberate glitch art aesthetic. Use a vibrant neon color palette (electric pinks, blues, purples) against a dark core. Incorporate digital distortion effects like scan lines, pixelation, chromatic aberration, and displaced elements. The typography should be a blocky, digital, or futuristic font that has a complementary glitch effect applied to it. The vibe is edgy, modern, and energetic."
+/**
+ * Personalized designs are generated as text-free art; the slogan is drawn on top later so the
+ * buyer's name can change without regenerating the image.
+ */
+const getTextDirective = (concept: ProductConcept): { details: string; rule: string } => {
+    if (concept.personalization) {
+        const { y } = concept.personalization.textLayer;
+        const area = y < 0.35 ? 'top' : y > 0.65 ? 'bottom' : 'middle';
+        return {
+            details: `- **Text:** NONE. A personalized slogan ("${concept.displayText}") will be added later in the ${area} third of the image.`,
+            rule: `**Render NO text at all:** No letters, numbers or words anywhere. Leave a clear, uncluttered band across the ${area} third where the slogan will be placed, and let the artwork frame that space.`,
+        };
+    }
+    return {
+        details: `- **Text to Render:** "${concept.displayText}"`,
+        rule: `**Render ONLY the "Text to Render":** The text "${concept.displayText}" must be rendered exactly, with no spelling errors. Do not add any other words or text from this prompt. The typography should be the star of the design, perfectly matching the Art Style.`,
+    };
 };
 
-export const generateDesign = async (concept: ProductConcept, style: DesignStyle): Promise<string> => {
+export const generateDesign = async (concept: ProductConcept, style: StylePreset, options: AiCallOptions = {}): Promise<string> => {
     try {
-        const styleInstruction = stylePrompts[style] || stylePrompts['Minimalist Vector'];
-        const quote = concept.displayText;
+        const textDirective = getTextDirective(concept);
 
         const prompt = `**Primary Directive: Create a TRANSPARENT PNG of an ISOLATED graphic.**
 - **Output MUST BE a graphic element on a transparent background.**
@@ -137,35 +259,24 @@ export const generateDesign = async (concept: ProductConcept, style: DesignStyle
 **Task:** Create a design for the following concept.
 
 **Design Details:**
-- **Text to Render:** "${quote}"
+${textDirective.details}
 - **Creative Vision:** ${concept.vision}
-- **Art Style:** ${style}
-- **Style Deep Dive:** ${styleInstruction}
+${describeStyle(style)}
 
 **Execution Rules:**
-1.  **Render ONLY the "Text to Render":** The text "${quote}" must be rendered exactly, with no spelling errors. Do not add any other words or text from this prompt. The typography should be the star of the design, perfectly matching the Art Style.
+1.  ${textDirective.rule}
 2.  **Compelling Composition:** The layout must be balanced, eye-catching, and work well for the specified product type.
 3.  **Commercial Quality:** The final output must be a professional, high-resolution graphic ready for printing.
 4.  **No Prompt Leakage:** Do not include any of these instructional labels (like "Text to Render") in the final image itself.`;
         
-        const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: {
-                parts: [{ text: prompt }]
-            },
-            config: {
-                responseModalities: [Modality.IMAGE],
-            },
-        }));
-
-        if (response.candidates && response.candidates.length > 0 && response.candidates[0].content.parts) {
-            const imagePart = response.candidates[0].content.parts.find(part => part.inlineData);
-            if (imagePart && imagePart.inlineData) {
-                const base64ImageBytes = imagePart.inlineData.data;
-                return `data:image/png;base64,${base64ImageBytes}`;
-            }
-        }
-        throw new Error("No image was generated.");
+        return await generateImage({
+            task: 'design',
+            conceptId: concept.id,
+            prompt,
+            images: style.referenceImages,
+            outputMimeType: 'image/png',
+            ...options,
+        });
 
     } catch (error) {
         console.error("Error generating design:", error);
@@ -173,166 +284,346 @@ export const generateDesign = async (concept: ProductConcept, style: DesignStyle
     }
 };
 
-const generateListingCopy = async (concept: ProductConcept): Promise<ListingCopy> => {
+export const refineDesign = async (designUrl: string, concept: ProductConcept, style: StylePreset, instruction: string, options: AiCallOptions = {}): Promise<string> => {
+    try {
+        const prompt = `**Primary Directive: Edit the first attached image (the design) and return it as a TRANSPARENT PNG of an ISOLATED graphic.**
+- **Output MUST BE a graphic element on a transparent background.** No mockups, no products, no scenes.
+
+**Requested Change:** ${instruction}
+
+**Keep Everything Else:**
+- Preserve the composition, colors and typography of the attached design except where the requested change says otherwise.
+- ${concept.personalization
+    ? 'The design must stay completely free of text; a personalized slogan is added separately.'
+    : `The text "${concept.displayText}" must stay spelled exactly as written unless the requested change explicitly alters it.`}
+${describeStyle(style)}
+
+**No Prompt Leakage:** Do not render any of these instructions in the image.`;
+
+        return await generateImage({
+            task: 'design',
+            conceptId: concept.id,
+            prompt,
+            images: [designUrl, ...style.referenceImages],
+            outputMimeType: 'image/png',
+            ...options,
+        });
+
+    } catch (error) {
+        console.error("Error refining design:", error);
+        throw error;
+    }
+};
+
+export const generateListingCopy = async (concept: ProductConcept, blueprint: Blueprint, options: AiCallOptions = {}): Promise<ListingCopy> => {
+    const personalization = concept.personalization;
+    const personalizationRequirement = personalization
+        ? `
+5. **Personalization:** This is a personalized product. The slogan is "${concept.displayText}", where the buyer supplies: ${personalization.fields.map(f => `${f.label} (max ${f.maxLength} characters)`).join(', ')}. Mention personalization in the title and description, and write 'personalizationInstructions': a short buyer-facing note (under 250 characters) listing exactly what to enter and the character limits.`
+        : '';
      try {
-        const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-            model: "gemini-3-pro-preview",
-            contents: `Generate a complete, SEO-optimized Etsy listing for the product concept: ${concept.conceptTitle}. The design aesthetic is ${concept.fusion.join(', ')}.
+        const listingCopy = await generateJson<ListingCopy>({
+            task: 'listing',
+            conceptId: concept.id,
+            prompt: `Generate a complete, SEO-optimized Etsy listing for the product concept: ${concept.conceptTitle}. The design aesthetic is ${concept.fusion.join(', ')}.
 
-Follow these strict requirements based on the 'Holiday Gold' blueprint:
+Follow these strict requirements based on the '${blueprint.name}':
 1. **Title:** Create a single, long-tail, keyword-rich title. It MUST be 140 characters or less.
 2. **Description:** Write a compelling, SEO-optimized description that tells a story about the product line, its unique appeal, and its target audience.
 3. **Variations:** Suggest 2-3 relevant product variations (e.g., color, size) appropriate for the product type based on the blueprint.
-4. **Tags:** Provide exactly 13 unique, highly relevant Etsy tags. Each individual tag MUST be 20 characters or less.`,
-            config: {
-                systemInstruction: alchemistSystemInstruction,
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        title: { 
-                            type: Type.STRING,
-                            description: "A keyword-rich Etsy title, 140 characters or less."
-                        },
-                        description: { 
-                            type: Type.STRING,
-                            description: "An SEO-optimized product description for an Etsy listing."
-                        },
-                        variations: { 
-                            type: Type.ARRAY, 
-                            items: { type: Type.STRING },
-                            description: "A list of 2-3 product variation suggestions."
-                        },
-                        tags: { 
-                            type: Type.ARRAY, 
-                            items: { type: Type.STRING },
-                            description: "An array of exactly 13 Etsy tags, each 20 characters or less."
-                        },
+4. **Tags:** Provide exactly 13 unique, highly relevant Etsy tags. Each individual tag MUST be 20 characters or less.${personalizationRequirement}`,
+            systemInstruction: buildSystemInstruction(blueprint),
+            schema: {
+                type: 'object',
+                properties: {
+                    title: { 
+                        type: 'string',
+                        description: "A keyword-rich Etsy title, 140 characters or less."
+                    },
+                    description: { 
+                        type: 'string',
+                        description: "An SEO-optimized product description for an Etsy listing."
+                    },
+                    variations: { 
+                        type: 'array', 
+                        items: { type: 'string' },
+                        description: "A list of 2-3 product variation suggestions."
+                    },
+                    tags: { 
+                        type: 'array', 
+                        items: { type: 'string' },
+                        description: "An array of exactly 13 Etsy tags, each 20 characters or less."
+                    },
+                    personalizationInstructions: {
+                        type: 'string',
+                        description: "Buyer-facing personalization instructions, only for personalized products."
                     },
-                    required: ["title", "description", "variations", "tags"],
                 },
+                required: ["title", "description", "variations", "tags"],
             },
-        }));
-        const jsonText = response.text.trim();
-        return JSON.parse(jsonText) as ListingCopy;
+            ...options,
+        });
+        if (!personalization) return { ...listingCopy, personalizationInstructions: undefined };
+        return {
+            ...listingCopy,
+            personalizationInstructions: listingCopy.personalizationInstructions || buildPersonalizationInstructions(personalization),
+            personalizationCharLimit: getPersonalizationCharLimit(personalization),
+        };
     } catch (error) {
         console.error("Error generating listing copy:", error);
         throw error;
     }
 };
 
-const base64ToPart = (base64DataUrl: string) => {
-    const [header, data] = base64DataUrl.split(',');
-    if (!header || !data) {
-        throw new Error("Invalid base64 data URL format.");
+/**
+ * Localize finished listing copy for another Etsy market. Keywords are chosen for how shoppers
+ * search in that language rather than translated word for word. With `localizeDisplayText`, the
+ * design's slogan is adapted too, for a separate design variant.
+ */
+export const generateLocalizedListing = async (concept: ProductConcept, listingCopy: ListingCopy, locale: string, blueprint: Blueprint, localizeDisplayText = false, options: AiCallOptions = {}): Promise<LocalizedListing> => {
+    const language = getLocaleName(locale);
+    const personalizationNote = listingCopy.personalizationInstructions
+        ? `\n\nPersonalization instructions:\n${listingCopy.personalizationInstructions}`
+        : '';
+    try {
+        const { displayText, personalizationInstructions, ...localized } = await generateJson<ListingCopy & { displayText?: string }>({
+            task: 'localize',
+            conceptId: concept.id,
+            prompt: `Localize this Etsy listing into ${language} (${locale}) for shoppers in that market. Adapt idioms, holiday customs and search keywords to what ${language}-speaking shoppers actually search for; do not translate word for word.
+
+Title:
+${listingCopy.title}
+
+Description:
+${listingCopy.description}
+
+Variations:
+${listingCopy.variations.join('\n')}
+
+Tags:
+${listingCopy.tags.join(', ')}${personalizationNote}
+
+Follow the same strict requirements as the original:
+1. **Title:** A single keyword-rich title. It MUST be 140 characters or less.
+2. **Description:** A natural, persuasive description in ${language}.
+3. **Variations:** The same variations, in ${language}.
+4. **Tags:** Exactly 13 unique tags in ${language}. Each tag MUST be 20 characters or less and use only letters, numbers, spaces, hyphens and apostrophes.${listingCopy.personalizationInstructions ? `
+- **Personalization:** Localize 'personalizationInstructions', keeping every character limit.` : ''}${localizeDisplayText ? `
+- **Design Text:** The design reads "${concept.displayText}". Write 'displayText': a short, catchy ${language} version that works as printed slogan. Keep any {placeholders} exactly as they are.` : ''}`,
+            systemInstruction: buildSystemInstruction(blueprint),
+            schema: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    description: { type: 'string' },
+                    variations: { type: 'array', items: { type: 'string' } },
+                    tags: { type: 'array', items: { type: 'string' } },
+                    personalizationInstructions: { type: 'string' },
+                    displayText: { type: 'string' },
+                },
+                required: ["title", "description", "variations", "tags"],
+            },
+            ...options,
+        });
+        return {
+            locale,
+            listingCopy: {
+                ...localized,
+                personalizationInstructions: listingCopy.personalizationInstructions ? personalizationInstructions || listingCopy.personalizationInstructions : undefined,
+                personalizationCharLimit: listingCopy.personalizationCharLimit,
+            },
+            displayText: localizeDisplayText ? displayText : undefined,
+        };
+    } catch (error) {
+        console.error(`Error localizing listing into ${language}:`, error);
+        throw error;
     }
-    const mimeType = header.match(/:(.*?);/)?.[1] ?? 'image/png';
-    return {
-        inlineData: {
-            mimeType,
-            data,
-        }
-    };
 };
 
-const getMockupPrompts = (productType: ProductType, concept: ProductConcept, holiday: string): string[] => {
-    const modelQualityRule = "Model Quality Rule: The image must be photorealistic. If a person is visible, they must be in-focus with a natural, realistic pose and a clearly visible face. ABSOLUTELY NO headless or faceless/blurred-face models.";
-
-    const basePrompts = [
-        // 1. Hero Shot (White/Light Neutral)
-        `A professional studio hero mockup of a White (or very light neutral) ${productType} featuring the design. Minimalist, neutral background. Perfect for an Etsy thumbnail.`,
-        
-        // 2. Lifestyle (Sand/Beige)
-        `An aesthetic lifestyle mockup of a Sand or Beige ${productType} with the design. Warm, cozy lighting.`,
-
-        // 3. Studio (Black)
-        `A high-contrast studio mockup of a Black ${productType} with the design. Light background to make the product pop.`,
-
-        // 4. Studio (Navy)
-        `A professional mockup of a Navy Blue ${productType} showing the design. Clean setting.`,
-
-        // 5. Lifestyle (Heather Grey)
-        `A cozy, authentic lifestyle shot of a Dark Heather Grey ${productType} with the design. Candid and artistic composition.`,
-
-        // 6. Studio (Forest Green)
-        `A studio shot of a Forest Green ${productType} featuring the design. Neutral background.`,
+const REWRITE_INSTRUCTIONS: Record<ListingRewriteMode, string> = {
+    'shorter': 'Make it noticeably shorter and punchier while keeping the strongest keywords.',
+    'funnier': 'Make it funnier and more playful, with a witty hook, while staying on-brand and searchable.',
+    'more-keywords': 'Work in more high-intent, long-tail search keywords buyers actually type, without keyword stuffing.',
+    'different-audience': 'Retarget it to a different buyer audience.',
+};
 
-        // 7. Studio (Maroon)
-        `A studio shot of a Maroon ${productType} featuring the design. Neutral background.`,
+const FIELD_REQUIREMENTS: Record<RewritableListingField, string> = {
+    title: 'A single Etsy title, 140 characters or less.',
+    description: 'An SEO-optimized Etsy description.',
+    tags: 'Exactly 13 unique Etsy tags, each 20 characters or less, using only letters, numbers, spaces, hyphens and apostrophes.',
+};
 
-        // 8. Studio (Light Pink)
-        `A studio shot of a Light Pink ${productType} featuring the design. Soft lighting.`,
+/**
+ * Rewrite one field of the listing copy, leaving the rest as the seller wrote it. Tags come back
+ * as an array, other fields as a string.
+ */
+export const rewriteListingField = async (
+    concept: ProductConcept,
+    listingCopy: ListingCopy,
+    field: RewritableListingField,
+    mode: ListingRewriteMode,
+    blueprint: Blueprint,
+    audience?: string,
+    options: AiCallOptions = {}
+): Promise<string | string[]> => {
+    const current = field === 'tags' ? listingCopy.tags.join(', ') : listingCopy[field];
+    const instruction = mode === 'different-audience' && audience
+        ? `Retarget it to this buyer audience: ${audience}.`
+        : REWRITE_INSTRUCTIONS[mode];
+    try {
+        const { value } = await generateJson<{ value: string | string[] }>({
+            task: 'rewrite',
+            conceptId: concept.id,
+            prompt: `Rewrite the ${field} of an Etsy listing for the product concept "${concept.conceptTitle}".
+
+Listing title: ${listingCopy.title}
+Current ${field}: ${current}
+
+**Instruction:** ${instruction}
+**Requirement:** ${FIELD_REQUIREMENTS[field]}
+Never use brand names, characters, celebrities or other trademarked terms.`,
+            systemInstruction: buildSystemInstruction(blueprint),
+            schema: {
+                type: 'object',
+                properties: {
+                    value: field === 'tags'
+                        ? { type: 'array', items: { type: 'string' } }
+                        : { type: 'string' },
+                },
+                required: ["value"],
+            },
+            ...options,
+        });
+        return value;
+    } catch (error) {
+        console.error(`Error rewriting listing ${field}:`, error);
+        throw error;
+    }
+};
 
-        // 9. Detail Shot
-        `A close-up detail shot of the ${productType} highlighting the texture and print quality of the design.`,
+/**
+ * Ask for `count` new tags to fill a listing whose tags were removed for breaking Etsy rules.
+ */
+export const generateReplacementTags = async (concept: ProductConcept, listingCopy: ListingCopy, count: number, blueprint: Blueprint, options: AiCallOptions = {}): Promise<string[]> => {
+    try {
+        return await generateJson<string[]>({
+            task: 'tags',
+            conceptId: concept.id,
+            prompt: `An Etsy listing titled "${listingCopy.title}" for the product concept "${concept.conceptTitle}" needs ${count} more tags.
+
+Existing tags (do not repeat or rephrase these): ${listingCopy.tags.join(', ') || 'none'}
+
+Requirements:
+- Provide exactly ${count + 3} unique, highly relevant long-tail tags; extras are used if any are rejected.
+- Each tag MUST be 20 characters or less.
+- Use only letters, numbers, spaces, hyphens and apostrophes.
+- Never use brand names, characters, celebrities or other trademarked terms.`,
+            systemInstruction: buildSystemInstruction(blueprint),
+            schema: {
+                type: 'array',
+                items: { type: 'string' },
+            },
+            ...options,
+        });
+    } catch (error) {
+        console.error("Error generating replacement tags:", error);
+        throw error;
+    }
+};
 
-        // 10. Flatlay
-        `A creative flatlay of the ${productType} (in a neutral color) with the design, arranged with simple props related to ${holiday} or ${concept.fusion.join(', ')}.`,
+interface MockupScene {
+    id: string;
+    label: string;
+    usesColor: boolean;
+    prompt: (productType: ProductType, color: string, concept: ProductConcept, holiday: string) => string;
+}
 
-        // 11. Contextual Holiday
-        `A lifestyle photo showing the ${productType} with the design in a clear ${holiday} setting (e.g. near decorations, trees, or seasonal elements).`,
-        
-        // 12. Angled/Folded
-        `A mockup of the ${productType} with the design, shown from an angle or folded to display the form.`
-    ];
-    return basePrompts.map(prompt => `${prompt} ${modelQualityRule}`);
+export const MOCKUP_COLORS = ['White', 'Sand', 'Black', 'Navy Blue', 'Dark Heather Grey', 'Forest Green', 'Maroon', 'Light Pink'];
+
+export const MOCKUP_SCENES: MockupScene[] = [
+    {
+        id: 'hero', label: 'Studio Hero', usesColor: true,
+        prompt: (productType, color) => `A professional studio hero mockup of a ${color} ${productType} featuring the design. Minimalist, neutral background. Perfect for an Etsy thumbnail.`,
+    },
+    {
+        id: 'lifestyle', label: 'Lifestyle', usesColor: true,
+        prompt: (productType, color) => `An aesthetic lifestyle mockup of a ${color} ${productType} with the design. Warm, cozy lighting.`,
+    },
+    {
+        id: 'candid', label: 'Candid', usesColor: true,
+        prompt: (productType, color) => `A cozy, authentic lifestyle shot of a ${color} ${productType} with the design. Candid and artistic composition.`,
+    },
+    {
+        id: 'studio', label: 'Studio', usesColor: true,
+        prompt: (productType, color) => `A studio shot of a ${color} ${productType} featuring the design. Neutral background with enough contrast to make the product pop.`,
+    },
+    {
+        id: 'detail', label: 'Detail Close-up', usesColor: false,
+        prompt: (productType) => `A close-up detail shot of the ${productType} highlighting the texture and print quality of the design.`,
+    },
+    {
+        id: 'flatlay', label: 'Flatlay', usesColor: false,
+        prompt: (productType, _color, concept, holiday) => `A creative flatlay of the ${productType} (in a neutral color) with the design, arranged with simple props related to ${holiday} or ${concept.fusion.join(', ')}.`,
+    },
+    {
+        id: 'holiday', label: 'Holiday Setting', usesColor: false,
+        prompt: (productType, _color, _concept, holiday) => `A lifestyle photo showing the ${productType} with the design in a clear ${holiday} setting (e.g. near decorations, trees, or seasonal elements).`,
+    },
+    {
+        id: 'angled', label: 'Angled / Folded', usesColor: false,
+        prompt: (productType) => `A mockup of the ${productType} with the design, shown from an angle or folded to display the form.`,
+    },
+];
+
+// The twelve shots every product used to get: a hero and lifestyle pair, a spread of colors, then four scene shots.
+export const DEFAULT_MOCKUP_SHOTS: MockupShot[] = [
+    { sceneId: 'hero', color: 'White' },
+    { sceneId: 'lifestyle', color: 'Sand' },
+    { sceneId: 'studio', color: 'Black' },
+    { sceneId: 'studio', color: 'Navy Blue' },
+    { sceneId: 'candid', color: 'Dark Heather Grey' },
+    { sceneId: 'studio', color: 'Forest Green' },
+    { sceneId: 'studio', color: 'Maroon' },
+    { sceneId: 'studio', color: 'Light Pink' },
+    { sceneId: 'detail' },
+    { sceneId: 'flatlay' },
+    { sceneId: 'holiday' },
+    { sceneId: 'angled' },
+];
+
+export const getMockupLabel = (shot: MockupShot): string => {
+    const scene = MOCKUP_SCENES.find(s => s.id === shot.sceneId);
+    const label = scene?.label ?? 'Mockup';
+    return shot.color ? `${label} · ${shot.color}` : label;
 };
 
-export const generateFinalAssets = async (
+/**
+ * Render one mockup shot of the design. Callers store each result as it arrives so a failed
+ * batch can pick up at the first shot without a URL.
+ */
+export const generateMockup = async (
     designUrl: string,
     concept: ProductConcept,
     holiday: string,
     productType: ProductType,
-    onProgress?: (progress: number, total: number) => void
-): Promise<{ mockups: string[], listingCopy: ListingCopy }> => {
-    try {
-        // Prepare prompts to calculate total steps
-        const scenePrompts = getMockupPrompts(productType, concept, holiday);
-        const totalSteps = scenePrompts.length + 1; // Mockups + 1 Listing Copy step
-
-        // Generate Listing Copy first
-        onProgress?.(0, totalSteps); 
-        const listingCopy = await generateListingCopy(concept);
-        onProgress?.(1, totalSteps);
+    shot: MockupShot,
+    options: AiCallOptions = {}
+): Promise<string> => {
+    const modelQualityRule = "Model Quality Rule: The image must be photorealistic. If a person is visible, they must be in-focus with a natural, realistic pose and a clearly visible face. ABSOLUTELY NO headless or faceless/blurred-face models.";
+    const scene = MOCKUP_SCENES.find(s => s.id === shot.sceneId);
+    if (!scene) throw new Error(`Unknown mockup scene "${shot.sceneId}".`);
 
-        // Prepare for mockups
-        const designPart = base64ToPart(designUrl);
-        
-        const mockupUrls: string[] = [];
-        const total = scenePrompts.length;
-        
-        for (let i = 0; i < total; i++) {
-            const prompt = scenePrompts[i];
-            
-            onProgress?.(i + 2, totalSteps); // Progress is now at 2+ (Listing copy done, starting mockups)
-            
-            const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-                model: 'gemini-2.5-flash-image',
-                contents: { parts: [designPart, { text: prompt }] },
-                config: {
-                    responseModalities: [Modality.IMAGE],
-                },
-            }));
-
-            if (response.candidates && response.candidates.length > 0 && response.candidates[0].content.parts) {
-                const imagePart = response.candidates[0].content.parts.find(part => part.inlineData);
-                if (imagePart && imagePart.inlineData) {
-                    const base64ImageBytes = imagePart.inlineData.data;
-                    mockupUrls.push(`data:image/jpeg;base64,${base64ImageBytes}`);
-                }
-            }
-
-            // Add a small delay between mockup generations to avoid hitting API rate limits.
-            if (i < total - 1) { 
-                await new Promise(resolve => setTimeout(resolve, 1500));
-            }
-        }
-
-        if (mockupUrls.length === 0) throw new Error("No mockups were generated.");
-        
-        return { mockups: mockupUrls, listingCopy };
+    try {
+        return await generateImage({
+            task: 'mockup',
+            conceptId: concept.id,
+            prompt: `${scene.prompt(productType, shot.color ?? 'White', concept, holiday)} ${modelQualityRule}`,
+            images: [designUrl],
+            outputMimeType: 'image/jpeg',
+            ...options,
+        });
     } catch (error) {
-        console.error("Error generating final assets:", error);
+        console.error(`Error generating mockup "${getMockupLabel(shot)}":`, error);
         throw error;
     }
-};
\ No newline at end of file
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import type { ConceptScores, ProductConcept } from '../types';
+import { dedupeConcepts, sortConcepts } from './ideationService';
+
+const concept = (id: string, conceptTitle: string, displayText: string, scores?: ConceptScores): ProductConcept =>
+    ({ id, conceptTitle, displayText, fusion: [], vision: '', whyItWorks: '', scores });
+
+const scores = (score: number, saturation = 5): ConceptScores => ({
+    trendFit: { score, rationale: '' },
+    personalization: { score, rationale: '' },
+    giftability: { score, rationale: '' },
+    saturation: { score: saturation, rationale: '' },
+    thumbnailLegibility: { score, rationale: '' },
+    ageBand: { band: '25-34', rationale: '' },
+});
+
+describe('dedupeConcepts', () => {
+    it('drops concepts whose title or slogan repeats an existing one, ignoring case and punctuation', () => {
+        const existing = [concept('a', 'Merry & Bright', 'Merry and bright!')];
+        const fresh = [
+            concept('b', 'merry bright', 'Something new'),
+            concept('c', 'Something new', 'MERRY AND BRIGHT'),
+            concept('d', 'Sleigh All Day', 'Sleigh all day'),
+        ];
+        expect(dedupeConcepts(existing, fresh).map(c => c.id)).toEqual(['d']);
+    });
+
+    it('drops repeats within the new concepts, keeping the first', () => {
+        const fresh = [concept('a', 'Sleigh All Day', 'Sleigh'), concept('b', 'Sleigh all day!', 'Slay')];
+        expect(dedupeConcepts([], fresh).map(c => c.id)).toEqual(['a']);
+    });
+
+    it('keeps placeholder names apart', () => {
+        const fresh = [concept('a', 'Name Tee', "{name}'s Christmas"), concept('b', 'Family Tee', "{family}'s Christmas")];
+        expect(dedupeConcepts([], fresh)).toHaveLength(2);
+    });
+});
+
+describe('sortConcepts', () => {
+    const concepts = [
+        concept('unscored', 'A', 'a'),
+        concept('average', 'B', 'b', scores(5)),
+        concept('best', 'C', 'c', scores(9)),
+        concept('crowded', 'D', 'd', scores(9, 10)),
+    ];
+
+    it('keeps the generated order', () => {
+        expect(sortConcepts(concepts, 'generated')).toBe(concepts);
+    });
+
+    it('puts the best overall first and unscored concepts last', () => {
+        expect(sortConcepts(concepts, 'overall').map(c => c.id)).toEqual(['best', 'crowded', 'average', 'unscored']);
+    });
+
+    it('ranks saturation with the least crowded first', () => {
+        expect(sortConcepts(concepts, 'saturation').map(c => c.id)).toEqual(['average', 'best', 'crowded', 'unscored']);
+    });
+});
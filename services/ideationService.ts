@@ -0,0 +1,110 @@
+import type { AgeBand, ConceptLineage, ConceptScores, DesignStyle, IdeationMatrix, ProductConcept, ProductType, ScoreCriterion } from '../types';
+
+// Concepts per combination when ideating outside batch mode, and the most a batch may ask for.
+export const DEFAULT_CONCEPTS_PER_COMBINATION = 3;
+export const MAX_CONCEPTS_PER_COMBINATION = 10;
+
+export interface MatrixCell {
+    holiday: string;
+    style: DesignStyle;
+    productType: ProductType;
+}
+
+/**
+ * Every holiday, style and product type combination in the matrix.
+ */
+export const getMatrixCells = (matrix: IdeationMatrix): MatrixCell[] =>
+    matrix.holidays.flatMap(holiday =>
+        matrix.styles.flatMap(style =>
+            matrix.productTypes.map(productType => ({ holiday, style, productType }))
+        )
+    );
+
+export const isConceptInCell = (concept: ProductConcept, cell: MatrixCell): boolean =>
+    concept.holiday === cell.holiday && concept.style === cell.style && concept.productType === cell.productType;
+
+// Case, spacing and punctuation differences do not make a slogan new.
+const normalize = (text: string): string => text.toLowerCase().replace(/[^\p{L}\p{N}{}]+/gu, ' ').trim();
+
+/**
+ * Drop concepts whose title or slogan repeats one in `existing` or earlier in `concepts`.
+ * Titles stay unique too, since two products with one title cannot be told apart in a shop.
+ */
+export const dedupeConcepts = (existing: ProductConcept[], concepts: ProductConcept[]): ProductConcept[] => {
+    const keysOf = (concept: ProductConcept) => [`title:${normalize(concept.conceptTitle)}`, `text:${normalize(concept.displayText)}`];
+    const seen = new Set(existing.flatMap(keysOf));
+    return concepts.filter(concept => {
+        const keys = keysOf(concept);
+        if (keys.some(key => seen.has(key))) return false;
+        keys.forEach(key => seen.add(key));
+        return true;
+    });
+};
+
+export const matchesCellFilter = (cell: MatrixCell, filter: Partial<MatrixCell>): boolean =>
+    (Object.keys(filter) as (keyof MatrixCell)[]).every(key => !filter[key] || cell[key] === filter[key]);
+
+export const AGE_BANDS: AgeBand[] = ['Kids', 'Teens', '18-24', '25-34', '35-44', '45-54', '55+'];
+
+// What each score means, worded for both the model and the seller.
+export const SCORE_CRITERIA: { key: ScoreCriterion; label: string; guidance: string; higherIsBetter: boolean }[] = [
+    { key: 'trendFit', label: 'Trend fit', guidance: 'how closely it matches what is selling on Etsy for this occasion right now', higherIsBetter: true },
+    { key: 'personalization', label: 'Personalization potential', guidance: 'how naturally buyers could add a name, date or other text to it', higherIsBetter: true },
+    { key: 'giftability', label: 'Giftability', guidance: 'how likely shoppers are to buy it as a gift', higherIsBetter: true },
+    { key: 'saturation', label: 'Competition saturation', guidance: 'how crowded Etsy already is with near-identical designs, where 10 is extremely saturated', higherIsBetter: false },
+    { key: 'thumbnailLegibility', label: 'Thumbnail legibility', guidance: 'how readable the slogan and art stay in a small search-result thumbnail', higherIsBetter: true },
+];
+
+const clampScore = (score: number): number => Math.min(10, Math.max(1, Math.round(score) || 1));
+
+/**
+ * Keep model scores within 1-10 and the age band within the known bands.
+ */
+export const normalizeScores = (scores: ConceptScores): ConceptScores => ({
+    ...scores,
+    ...Object.fromEntries(SCORE_CRITERIA.map(({ key }) => [key, { ...scores[key], score: clampScore(scores[key].score) }])),
+    ageBand: { ...scores.ageBand, band: AGE_BANDS.includes(scores.ageBand.band) ? scores.ageBand.band : AGE_BANDS[AGE_BANDS.length - 1] },
+});
+
+/**
+ * The average of all scores out of 10, with saturation flipped since it counts against a concept.
+ */
+export const getOverallScore = (scores: ConceptScores): number =>
+    SCORE_CRITERIA.reduce((sum, { key, higherIsBetter }) => sum + (higherIsBetter ? scores[key].score : 11 - scores[key].score), 0) / SCORE_CRITERIA.length;
+
+export type ConceptSort = 'generated' | 'overall' | ScoreCriterion;
+
+/**
+ * Order concepts best first. Unscored concepts keep their order after the scored ones.
+ */
+export const sortConcepts = (concepts: ProductConcept[], sort: ConceptSort): ProductConcept[] => {
+    if (sort === 'generated') return concepts;
+    const criterion = SCORE_CRITERIA.find(c => c.key === sort);
+    const rank = ({ scores }: ProductConcept): number => {
+        if (!scores) return -Infinity;
+        if (!criterion) return getOverallScore(scores);
+        return criterion.higherIsBetter ? scores[criterion.key].score : -scores[criterion.key].score;
+    };
+    return [...concepts].sort((a, b) => rank(a) === rank(b) ? 0 : rank(b) > rank(a) ? 1 : -1);
+};
+
+export interface ScoreFilter {
+    ageBand?: AgeBand;
+    minOverall?: number;
+}
+
+// Unscored concepts are hidden while any score filter is set.
+export const matchesScoreFilter = ({ scores }: ProductConcept, filter: ScoreFilter): boolean =>
+    (!filter.ageBand || scores?.ageBand.band === filter.ageBand)
+    && (filter.minOverall === undefined || (!!scores && getOverallScore(scores) >= filter.minOverall));
+
+/**
+ * Where a brainstormed concept came from, e.g. `Remix of "A" + "B", steered "funnier"`.
+ */
+export const describeLineage = (lineage: ConceptLineage): string => {
+    const titles = lineage.parents.map(p => `"${p.title}"`);
+    const origin = lineage.kind === 'similar' ? `More like ${titles[0]}`
+        : lineage.kind === 'remix' ? `Remix of ${titles.join(' + ')}`
+        : 'Brainstormed';
+    return lineage.steering ? `${origin}, steered "${lineage.steering}"` : origin;
+};
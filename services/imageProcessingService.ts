@@ -0,0 +1,255 @@
+import type { PrintPrepOptions, PreparedDesign, PrintCheck, PrintifyPlaceholder, DesignPlacement } from '../types';
+
+export const TARGET_DPI = 300;
+
+// Canvases much larger than this exhaust browser memory when exported as PNG.
+const MAX_OUTPUT_WIDTH = 6000;
+
+export const DEFAULT_PRINT_PREP_OPTIONS: PrintPrepOptions = {
+    removeBackground: true,
+    backgroundTolerance: 24,
+    trim: true,
+    upscale: true,
+};
+
+type RGB = [number, number, number];
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not decode the design image."));
+    image.src = src;
+});
+
+const drawToCanvas = (source: CanvasImageSource, width: number, height: number, sx = 0, sy = 0, sw?: number, sh?: number): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    if (sw !== undefined && sh !== undefined) {
+        ctx.drawImage(source, sx, sy, sw, sh, 0, 0, width, height);
+    } else {
+        ctx.drawImage(source, 0, 0, width, height);
+    }
+    return canvas;
+};
+
+/**
+ * Find the colors that dominate the image border. A plain backdrop yields one color, a baked-in
+ * "transparency" checkerboard yields two. Returns nothing when the border is already transparent
+ * or too varied to be a background.
+ */
+const detectBackgroundColors = (data: Uint8ClampedArray, width: number, height: number): RGB[] => {
+    const buckets = new Map<string, { sum: RGB; count: number }>();
+    let total = 0;
+    let transparent = 0;
+
+    const sample = (x: number, y: number) => {
+        const i = (y * width + x) * 4;
+        total++;
+        if (data[i + 3] < 16) {
+            transparent++;
+            return;
+        }
+        const key = `${data[i] >> 4},${data[i + 1] >> 4},${data[i + 2] >> 4}`;
+        const bucket = buckets.get(key) ?? { sum: [0, 0, 0], count: 0 };
+        bucket.sum = [bucket.sum[0] + data[i], bucket.sum[1] + data[i + 1], bucket.sum[2] + data[i + 2]];
+        bucket.count++;
+        buckets.set(key, bucket);
+    };
+
+    for (let x = 0; x < width; x++) {
+        sample(x, 0);
+        sample(x, height - 1);
+    }
+    for (let y = 1; y < height - 1; y++) {
+        sample(0, y);
+        sample(width - 1, y);
+    }
+
+    if (transparent / total > 0.5) return [];
+
+    const ranked = [...buckets.values()].sort((a, b) => b.count - a.count).slice(0, 2);
+    const colors: RGB[] = [];
+    let covered = 0;
+    for (const bucket of ranked) {
+        if (bucket.count / total < 0.15) break;
+        colors.push(bucket.sum.map(channel => channel / bucket.count) as RGB);
+        covered += bucket.count;
+    }
+    return covered / total >= 0.6 ? colors : [];
+};
+
+/**
+ * Flood-fill from the border through pixels close to a background color and make them transparent,
+ * so enclosed areas of the same color (e.g. white lettering) survive. Pixels on the new edge are
+ * feathered to avoid a hard halo.
+ */
+const keyOutBackground = (imageData: ImageData, colors: RGB[], tolerance: number) => {
+    const { data, width, height } = imageData;
+    const distanceAt = (p: number) => {
+        const i = p * 4;
+        let best = Infinity;
+        for (const [r, g, b] of colors) {
+            best = Math.min(best, Math.max(Math.abs(data[i] - r), Math.abs(data[i + 1] - g), Math.abs(data[i + 2] - b)));
+        }
+        return best;
+    };
+
+    const removed = new Uint8Array(width * height);
+    const stack: number[] = [];
+    const visit = (p: number) => {
+        if (!removed[p] && distanceAt(p) <= tolerance) {
+            removed[p] = 1;
+            stack.push(p);
+        }
+    };
+
+    for (let x = 0; x < width; x++) {
+        visit(x);
+        visit((height - 1) * width + x);
+    }
+    for (let y = 0; y < height; y++) {
+        visit(y * width);
+        visit(y * width + width - 1);
+    }
+
+    while (stack.length > 0) {
+        const p = stack.pop()!;
+        data[p * 4 + 3] = 0;
+        const x = p % width;
+        if (x > 0) visit(p - 1);
+        if (x < width - 1) visit(p + 1);
+        if (p >= width) visit(p - width);
+        if (p < width * (height - 1)) visit(p + width);
+    }
+
+    for (let p = 0; p < width * height; p++) {
+        if (removed[p]) continue;
+        const x = p % width;
+        const touchesRemoved = (x > 0 && removed[p - 1]) || (x < width - 1 && removed[p + 1])
+            || (p >= width && removed[p - width]) || (p < width * (height - 1) && removed[p + width]);
+        if (!touchesRemoved) continue;
+        const distance = distanceAt(p);
+        if (distance < tolerance * 2) {
+            data[p * 4 + 3] = Math.round(data[p * 4 + 3] * (distance - tolerance) / tolerance);
+        }
+    }
+};
+
+const findContentBounds = (imageData: ImageData, alphaThreshold = 8) => {
+    const { data, width, height } = imageData;
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[(y * width + x) * 4 + 3] > alphaThreshold) {
+                if (x < minX) minX = x;
+                if (x > maxX) maxX = x;
+                if (y < minY) minY = y;
+                if (y > maxY) maxY = y;
+            }
+        }
+    }
+    return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+/**
+ * Upscale in 2x steps; a single large jump with canvas smoothing looks noticeably blurrier.
+ */
+const upscaleCanvas = (canvas: HTMLCanvasElement, targetWidth: number, targetHeight: number): HTMLCanvasElement => {
+    let current = canvas;
+    while (current.width * 2 < targetWidth) {
+        current = drawToCanvas(current, current.width * 2, current.height * 2);
+    }
+    return drawToCanvas(current, targetWidth, targetHeight);
+};
+
+/**
+ * DPI the image prints at when scaled to `scale` of the print area width. Print areas are
+ * specified in pixels at 300 DPI.
+ */
+export const getEffectiveDpi = (imageWidth: number, printAreaWidth: number, scale: number): number =>
+    Math.round(TARGET_DPI * imageWidth / (printAreaWidth * scale));
+
+/**
+ * Turn a generated design into a print-ready PNG: key out a solid or checkerboard background,
+ * trim transparent margins and upscale to the print area at the given placement scale.
+ */
+export const prepareDesignForPrint = async (
+    designUrl: string,
+    printArea: { width: number; height: number },
+    scale: number,
+    options: PrintPrepOptions
+): Promise<PreparedDesign> => {
+    const image = await loadImage(designUrl);
+    let canvas = drawToCanvas(image, image.naturalWidth, image.naturalHeight);
+    let ctx = canvas.getContext('2d')!;
+
+    let backgroundRemoved = false;
+    if (options.removeBackground) {
+        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        const colors = detectBackgroundColors(imageData.data, canvas.width, canvas.height);
+        if (colors.length > 0) {
+            keyOutBackground(imageData, colors, options.backgroundTolerance);
+            ctx.putImageData(imageData, 0, 0);
+            backgroundRemoved = true;
+        }
+    }
+
+    if (options.trim) {
+        const bounds = findContentBounds(ctx.getImageData(0, 0, canvas.width, canvas.height));
+        if (!bounds) throw new Error("The design is empty after removing the background. Try a lower tolerance.");
+        if (bounds.width < canvas.width || bounds.height < canvas.height) {
+            canvas = drawToCanvas(canvas, bounds.width, bounds.height, bounds.x, bounds.y, bounds.width, bounds.height);
+            ctx = canvas.getContext('2d')!;
+        }
+    }
+
+    const cleanUrl = canvas.toDataURL('image/png');
+    const sourceDpi = getEffectiveDpi(canvas.width, printArea.width, scale);
+
+    let printCanvas = canvas;
+    const targetWidth = Math.min(Math.round(printArea.width * scale), MAX_OUTPUT_WIDTH);
+    if (options.upscale && targetWidth > canvas.width) {
+        const targetHeight = Math.round(canvas.height * targetWidth / canvas.width);
+        printCanvas = upscaleCanvas(canvas, targetWidth, targetHeight);
+    }
+
+    return {
+        cleanUrl,
+        printUrl: printCanvas === canvas ? cleanUrl : printCanvas.toDataURL('image/png'),
+        options,
+        check: {
+            width: printCanvas.width,
+            height: printCanvas.height,
+            sourceWidth: canvas.width,
+            sourceHeight: canvas.height,
+            printAreaWidth: printArea.width,
+            printAreaHeight: printArea.height,
+            sourceDpi,
+            outputDpi: getEffectiveDpi(printCanvas.width, printArea.width, scale),
+            backgroundRemoved,
+        },
+    };
+};
+
+/**
+ * Re-check a prepared design where it is actually placed, since preparation assumes the default
+ * scale on the default area. Source DPI comes from the size before upscaling.
+ */
+export const checkPlacements = (check: PrintCheck, areas: PrintifyPlaceholder[], placements: DesignPlacement[]): PrintCheck => {
+    const checks: PrintCheck[] = placements.flatMap(placement => {
+        const area = areas.find(a => a.position === placement.position);
+        return area ? [{
+            ...check,
+            position: placement.position,
+            printAreaWidth: area.width,
+            printAreaHeight: area.height,
+            sourceDpi: getEffectiveDpi(check.sourceWidth, area.width, placement.scale),
+            outputDpi: getEffectiveDpi(check.width, area.width, placement.scale),
+        }] : [];
+    });
+    return checks.reduce((softest, c) => c.sourceDpi < softest.sourceDpi ? c : softest, checks[0] ?? check);
+};
@@ -0,0 +1,185 @@
+import type { Job, JobKind } from '../types';
+import { createId } from './storageService';
+import { sleep, isAbortError } from './aiScheduler';
+
+// Later jobs wait in the queue. Each running job is still held to its models' limits by the scheduler.
+const MAX_RUNNING_JOBS = 2;
+
+export interface JobContext {
+    signal: AbortSignal; // Aborted when the job is cancelled
+    checkpoint: () => Promise<void>; // Waits while the job is paused; rejects once it is cancelled
+    /**
+     * Run `worker` on each item, at most `concurrency` at a time, counting each toward the job's
+     * progress. A paused job starts no new items; calls already in flight finish. Rejects after
+     * every item has settled if any failed.
+     */
+    runEach: <T>(items: T[], concurrency: number, worker: (item: T) => Promise<void>) => Promise<void>;
+}
+
+export type JobRun = (context: JobContext) => Promise<void>;
+
+interface JobEntry {
+    job: Job;
+    run: JobRun; // Kept for retries, so runs should skip work that already landed
+    controller: AbortController;
+    paused: boolean;
+    resumers: Set<() => void>;
+}
+
+const entries: JobEntry[] = [];
+const listeners = new Set<(jobs: Job[]) => void>();
+
+const notify = () => {
+    const jobs = entries.map(e => e.job);
+    listeners.forEach(listener => listener(jobs));
+};
+
+const setJob = (entry: JobEntry, patch: Partial<Job>) => {
+    entry.job = { ...entry.job, ...patch };
+    notify();
+};
+
+const findEntry = (id: string) => entries.find(e => e.job.id === id);
+
+export const isJobActive = (job: Job): boolean =>
+    job.status === 'queued' || job.status === 'running' || job.status === 'paused';
+
+const start = async (entry: JobEntry) => {
+    setJob(entry, { status: 'running' });
+    const { signal } = entry.controller;
+
+    const checkpoint = async () => {
+        while (entry.paused) await sleep(undefined, signal, entry.resumers);
+        signal.throwIfAborted();
+    };
+
+    const runEach: JobContext['runEach'] = async (items, concurrency, worker) => {
+        setJob(entry, { total: entry.job.total + items.length });
+        const errors: unknown[] = [];
+        let next = 0;
+        const lane = async () => {
+            while (next < items.length) {
+                await checkpoint();
+                const item = items[next++];
+                try {
+                    await worker(item);
+                    setJob(entry, { done: entry.job.done + 1 });
+                } catch (error) {
+                    if (isAbortError(error)) throw error;
+                    errors.push(error);
+                }
+            }
+        };
+        await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+        if (errors.length > 0) {
+            const reason = errors[0] instanceof Error ? errors[0].message : String(errors[0]);
+            throw new Error(errors.length === items.length ? reason : `${errors.length} of ${items.length} failed: ${reason}`);
+        }
+    };
+
+    try {
+        await entry.run({ signal, checkpoint, runEach });
+        // A run that swallowed the abort still stopped early, so it is not done.
+        setJob(entry, { status: signal.aborted ? 'cancelled' : 'done', finishedAt: Date.now() });
+    } catch (error) {
+        const cancelled = signal.aborted || isAbortError(error);
+        setJob(entry, {
+            status: cancelled ? 'cancelled' : 'failed',
+            error: cancelled ? undefined : error instanceof Error ? error.message : String(error),
+            finishedAt: Date.now(),
+        });
+    }
+    pump();
+};
+
+// Paused jobs give up their slot, so a resumed job can briefly run alongside a full set.
+const pump = () => {
+    let running = entries.filter(e => e.job.status === 'running').length;
+    for (const entry of entries) {
+        if (running >= MAX_RUNNING_JOBS) return;
+        if (entry.job.status !== 'queued') continue;
+        running++;
+        start(entry);
+    }
+};
+
+/**
+ * Queue a job and return its ID. It starts as soon as a slot is free.
+ */
+export const enqueueJob = (kind: JobKind, label: string, project: { id: string; name: string }, run: JobRun): string => {
+    const entry: JobEntry = {
+        job: { id: createId(), kind, label, projectId: project.id, projectName: project.name, status: 'queued', done: 0, total: 0, createdAt: Date.now() },
+        run,
+        controller: new AbortController(),
+        paused: false,
+        resumers: new Set(),
+    };
+    entries.push(entry);
+    notify();
+    pump();
+    return entry.job.id;
+};
+
+export const cancelJob = (id: string) => {
+    const entry = findEntry(id);
+    if (!entry || !isJobActive(entry.job)) return;
+    entry.controller.abort();
+    // A queued job never started, so nothing else will settle it.
+    if (entry.job.status === 'queued') setJob(entry, { status: 'cancelled', finishedAt: Date.now() });
+};
+
+export const pauseJob = (id: string) => {
+    const entry = findEntry(id);
+    if (entry?.job.status !== 'running') return;
+    entry.paused = true;
+    setJob(entry, { status: 'paused' });
+    pump();
+};
+
+export const resumeJob = (id: string) => {
+    const entry = findEntry(id);
+    if (entry?.job.status !== 'paused') return;
+    entry.paused = false;
+    entry.resumers.forEach(resume => resume());
+    setJob(entry, { status: 'running' });
+};
+
+/**
+ * Run a failed or cancelled job again from the start of its run function.
+ */
+export const retryJob = (id: string) => {
+    const entry = findEntry(id);
+    if (!entry || (entry.job.status !== 'failed' && entry.job.status !== 'cancelled')) return;
+    entry.controller = new AbortController();
+    entry.paused = false;
+    setJob(entry, { status: 'queued', done: 0, total: 0, error: undefined, finishedAt: undefined });
+    pump();
+};
+
+export const cancelProjectJobs = (projectId: string) =>
+    entries.filter(e => e.job.projectId === projectId).forEach(e => cancelJob(e.job.id));
+
+export const dismissJob = (id: string) => {
+    const index = entries.findIndex(e => e.job.id === id);
+    if (index < 0 || isJobActive(entries[index].job)) return;
+    entries.splice(index, 1);
+    notify();
+};
+
+export const clearFinishedJobs = () => {
+    for (let i = entries.length - 1; i >= 0; i--) {
+        if (!isJobActive(entries[i].job)) entries.splice(i, 1);
+    }
+    notify();
+};
+
+/**
+ * Receive the job list now and on every change. Returns a function that unsubscribes.
+ */
+export const subscribeJobs = (listener: (jobs: Job[]) => void): (() => void) => {
+    listeners.add(listener);
+    listener(entries.map(e => e.job));
+    return () => {
+        listeners.delete(listener);
+    };
+};
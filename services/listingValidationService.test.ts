@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import type { ListingCopy } from '../types';
+import { validateListingCopy, fixListingCopy } from './listingValidationService';
+
+const TAGS = [
+    'christmas shirt', 'holiday tee', 'funny xmas', 'gift for mom', 'cozy sweater', 'family pajamas', 'winter top',
+    'santa shirt', 'reindeer tee', 'ugly sweater', 'xmas gift', 'festive tee', 'snow day',
+];
+
+const listing = (patch: Partial<ListingCopy> = {}): ListingCopy => ({
+    title: 'Merry & Bright Christmas Shirt, Funny Holiday Tee for Women',
+    description: 'A cozy tee for the holidays.',
+    variations: [],
+    tags: TAGS,
+    ...patch,
+});
+
+const codesOf = (copy: ListingCopy) => validateListingCopy(copy).map(v => v.code);
+
+describe('validateListingCopy', () => {
+    it('passes listing copy that follows every rule', () => {
+        expect(validateListingCopy(listing())).toEqual([]);
+    });
+
+    it('checks the title length, characters and symbols', () => {
+        expect(codesOf(listing({ title: 'Shirt '.repeat(30) }))).toEqual(['title-too-long']);
+        expect(codesOf(listing({ title: 'Best $hirt <ever>' }))).toEqual(['title-characters']);
+        expect(codesOf(listing({ title: 'Mom & Dad & Kids' }))).toEqual(['title-repeated-symbol']);
+    });
+
+    it('flags trademarks and banned claims in the title, description and tags', () => {
+        const violations = validateListingCopy(listing({
+            title: 'Grinch Christmas Shirt',
+            description: 'Free shipping on every order.',
+            tags: [...TAGS.slice(1), 'disney tee'],
+        }));
+        expect(violations.map(v => [v.code, v.field])).toEqual([
+            ['risky-term', 'title'],
+            ['risky-term', 'description'],
+            ['risky-term', 'tags'],
+        ]);
+    });
+
+    it('checks the tag count, duplicates, length and characters', () => {
+        expect(codesOf(listing({ tags: TAGS.slice(0, 12) }))).toEqual(['tag-count']);
+        expect(codesOf(listing({ tags: [...TAGS.slice(0, 12), 'Christmas  Shirt'] }))).toEqual(['tag-duplicate']);
+        expect(codesOf(listing({ tags: [...TAGS.slice(1), 'christmas shirt for the whole family'] }))).toEqual(['tag-too-long']);
+        expect(codesOf(listing({ tags: [...TAGS.slice(1), 'xmas #1'] }))).toEqual(['tag-characters']);
+    });
+});
+
+describe('fixListingCopy', () => {
+    it('strips disallowed characters and keeps the first of each once-only symbol', () => {
+        expect(fixListingCopy(listing({ title: 'Mom & Dad & Kids: <Matching> Shirts' })).title).toBe('Mom & Dad Kids: Matching Shirts');
+    });
+
+    it('trims the title at a word boundary', () => {
+        const title = fixListingCopy(listing({ title: `${'Holiday '.repeat(17)}Shirt` })).title;
+        expect(title.length).toBeLessThanOrEqual(140);
+        expect(title.endsWith('Holiday')).toBe(true);
+    });
+
+    it('drops duplicate and risky tags and cleans the rest', () => {
+        const fixed = fixListingCopy(listing({ tags: ['xmas #1', 'Xmas 1', 'grinch tee', 'christmas shirt for the whole family'] }));
+        expect(fixed.tags).toEqual(['xmas 1', 'christmas shirt for']);
+    });
+
+    it('leaves the description for the seller to reword', () => {
+        expect(fixListingCopy(listing({ description: 'Free shipping!' })).description).toBe('Free shipping!');
+        expect(validateListingCopy(fixListingCopy(listing())).length).toBe(0);
+    });
+});
@@ -0,0 +1,112 @@
+import type { ListingCopy, ListingViolation } from '../types';
+import { DEFAULT_TRADEMARK_BLOCKLIST, findBlockedTerms } from './trademarkService';
+
+export const TITLE_MAX_LENGTH = 140;
+export const TAG_COUNT = 13;
+export const TAG_MAX_LENGTH = 20;
+
+// Claims Etsy does not allow in listings, checked on top of the trademark blocklist.
+const BANNED_CLAIMS = ['free shipping', 'best seller', 'bestseller', 'fda approved'];
+
+// Etsy titles allow % : & once each and reject these outright.
+const TITLE_DISALLOWED_CHARS = /[$^`<>{}\[\]|\\~*@#]/g;
+const TITLE_ONCE_CHARS = ['%', ':', '&'];
+
+// Etsy tags may only contain letters, numbers, spaces, hyphens and apostrophes.
+const TAG_DISALLOWED_CHARS = /[^\p{L}\p{N}\s'\-]/gu;
+
+const findRiskyTerms = (text: string, blocklist: string[]): string[] =>
+    findBlockedTerms(text, [...blocklist, ...BANNED_CLAIMS]);
+
+const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Every Etsy rule the listing copy breaks. An empty list means it can be published as is.
+ */
+export const validateListingCopy = (copy: ListingCopy, blocklist = DEFAULT_TRADEMARK_BLOCKLIST): ListingViolation[] => {
+    const violations: ListingViolation[] = [];
+
+    if (copy.title.length > TITLE_MAX_LENGTH) {
+        violations.push({ code: 'title-too-long', field: 'title', message: `Title is ${copy.title.length} characters; Etsy allows ${TITLE_MAX_LENGTH}.` });
+    }
+    const badTitleChars = [...new Set(copy.title.match(TITLE_DISALLOWED_CHARS) ?? [])];
+    if (badTitleChars.length > 0) {
+        violations.push({ code: 'title-characters', field: 'title', message: `Title contains characters Etsy rejects: ${badTitleChars.join(' ')}` });
+    }
+    const repeated = TITLE_ONCE_CHARS.filter(char => copy.title.split(char).length > 2);
+    if (repeated.length > 0) {
+        violations.push({ code: 'title-repeated-symbol', field: 'title', message: `Title may only use ${repeated.join(' ')} once.` });
+    }
+    for (const term of findRiskyTerms(copy.title, blocklist)) {
+        violations.push({ code: 'risky-term', field: 'title', message: `Title mentions "${term}", which is trademarked or not allowed.` });
+    }
+    for (const term of findRiskyTerms(copy.description, blocklist)) {
+        violations.push({ code: 'risky-term', field: 'description', message: `Description mentions "${term}", which is trademarked or not allowed.` });
+    }
+
+    if (copy.tags.length !== TAG_COUNT) {
+        violations.push({ code: 'tag-count', field: 'tags', message: `${copy.tags.length} tags; Etsy listings should use all ${TAG_COUNT}.` });
+    }
+    const seen = new Set<string>();
+    for (const tag of copy.tags) {
+        const normalized = normalizeTag(tag);
+        if (seen.has(normalized)) {
+            violations.push({ code: 'tag-duplicate', field: 'tags', tag, message: `"${tag}" is a duplicate tag.` });
+        }
+        seen.add(normalized);
+        if (tag.trim().length > TAG_MAX_LENGTH) {
+            violations.push({ code: 'tag-too-long', field: 'tags', tag, message: `"${tag}" is ${tag.trim().length} characters; tags allow ${TAG_MAX_LENGTH}.` });
+        }
+        if (tag.match(TAG_DISALLOWED_CHARS)) {
+            violations.push({ code: 'tag-characters', field: 'tags', tag, message: `"${tag}" may only use letters, numbers, spaces, hyphens and apostrophes.` });
+        }
+        for (const term of findRiskyTerms(tag, blocklist)) {
+            violations.push({ code: 'risky-term', field: 'tags', tag, message: `"${tag}" mentions "${term}", which is trademarked or not allowed.` });
+        }
+    }
+
+    return violations;
+};
+
+// Cut at the last word boundary that fits, dropping trailing separators.
+const truncateAtWord = (text: string, maxLength: number) => {
+    if (text.length <= maxLength) return text;
+    const cut = text.slice(0, maxLength + 1);
+    const lastSpace = cut.lastIndexOf(' ');
+    return (lastSpace > 0 ? cut.slice(0, lastSpace) : text.slice(0, maxLength)).replace(/[\s,|\-:&]+$/, '');
+};
+
+const keepFirst = (text: string, char: string) => {
+    const index = text.indexOf(char);
+    return index === -1 ? text : text.slice(0, index + 1) + text.slice(index + 1).split(char).join('');
+};
+
+/**
+ * Apply every fix that needs no new content: strip disallowed characters, trim the title and
+ * tags to length, and drop duplicate and risky tags. Risky terms in the title or description
+ * are left for the seller to reword. The result may have fewer than 13 tags.
+ */
+export const fixListingCopy = (copy: ListingCopy, blocklist = DEFAULT_TRADEMARK_BLOCKLIST): ListingCopy => {
+    const stripped = TITLE_ONCE_CHARS.reduce(keepFirst, copy.title.replace(TITLE_DISALLOWED_CHARS, ''));
+    const title = truncateAtWord(stripped.replace(/\s+/g, ' ').trim(), TITLE_MAX_LENGTH);
+
+    const seen = new Set<string>();
+    const tags: string[] = [];
+    for (const raw of copy.tags) {
+        const tag = truncateAtWord(raw.replace(TAG_DISALLOWED_CHARS, '').replace(/\s+/g, ' ').trim(), TAG_MAX_LENGTH);
+        const normalized = normalizeTag(tag);
+        if (!tag || seen.has(normalized) || findRiskyTerms(tag, blocklist).length > 0) continue;
+        seen.add(normalized);
+        tags.push(tag);
+    }
+
+    return { ...copy, title, tags: tags.slice(0, TAG_COUNT) };
+};
+
+/**
+ * Add replacement tags to a fixed listing, skipping any that would break a rule again.
+ */
+export const mergeReplacementTags = (copy: ListingCopy, replacements: string[], blocklist = DEFAULT_TRADEMARK_BLOCKLIST): ListingCopy =>
+    fixListingCopy({ ...copy, tags: [...copy.tags, ...replacements] }, blocklist);
+
+export const countMissingTags = (copy: ListingCopy): number => Math.max(0, TAG_COUNT - copy.tags.length);
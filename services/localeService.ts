@@ -0,0 +1,14 @@
+// Languages Etsy can show a listing in, besides English.
+export const LISTING_LOCALES: { code: string; name: string }[] = [
+    { code: 'de', name: 'German' },
+    { code: 'fr', name: 'French' },
+    { code: 'es', name: 'Spanish' },
+    { code: 'it', name: 'Italian' },
+    { code: 'nl', name: 'Dutch' },
+    { code: 'pt', name: 'Portuguese' },
+    { code: 'pl', name: 'Polish' },
+    { code: 'ja', name: 'Japanese' },
+];
+
+export const getLocaleName = (code: string): string =>
+    LISTING_LOCALES.find(l => l.code === code)?.name ?? code;
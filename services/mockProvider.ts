@@ -0,0 +1,167 @@
+import type { AiProvider, JsonSchema, ImageRequest } from './aiProvider';
+import { sleep } from './aiScheduler';
+
+// Simulated latency, so loading states can be seen during demos.
+const MOCK_DELAY_MS = 400;
+
+const MOCK_IMAGE_SIZE = 1024;
+
+// Canned values by property name, picked by item index so lists vary but stay repeatable.
+const CANNED_STRINGS: Record<string, string[]> = {
+    conceptTitle: ['Midnight Cocoa Club', 'Retro Ribbon Rally', 'Pine & Pixel Parade'],
+    displayText: ['Cocoa & Cozy Vibes', 'Merry Everything', 'Oh So Merry'],
+    vision: [
+        'Hand-lettered slogan wrapped in steaming mugs and tiny stars.',
+        'A 70s sunset badge with chunky ribbon lettering.',
+        'Pixel-art pine trees marching under a bold slogan.',
+    ],
+    whyItWorks: [
+        'Cozy, giftable and instantly readable as a thumbnail.',
+        'Nostalgic palettes are trending and stand out in search.',
+        'Playful, niche-friendly and easy to personalize.',
+    ],
+    fusion: ['Cozy', 'Retro', 'Hand-lettered', 'Minimal', 'Playful'],
+    title: ['Cozy Christmas Sweatshirt, Cute Holiday Sweater Gift for Her, Retro Winter Crewneck, Merry Everything Shirt'],
+    description: ['A cozy, vintage-inspired design for everyone who lives for the holidays. Printed on a soft, comfy blank and made to order just for you. (Offline mock copy.)'],
+    variations: ['Color: Sand, Black, Forest Green', 'Size: S to 3XL', 'Style: Crewneck or Hoodie'],
+    tags: [
+        'christmas sweatshirt', 'holiday sweater', 'cozy christmas', 'retro christmas', 'gift for her',
+        'winter crewneck', 'merry christmas', 'xmas shirt', 'christmas gift', 'holiday gift idea',
+        'vintage christmas', 'cute xmas top', 'family christmas', 'stocking stuffer', 'festive apparel',
+    ],
+    personalizationInstructions: ['Enter the name exactly as it should be printed. (Offline mock.)'],
+    explanation: ['Generic wording; no protected names or phrases. (Offline mock.)'],
+    value: ['A rewritten line from the offline mock provider.'],
+};
+
+// Concepts are deduplicated by title and slogan, so these carry a tag from the prompt: each
+// combination or brainstorm round gets new ones, and the same request still gets the same.
+const PROMPT_TAGGED_KEYS = ['conceptTitle', 'displayText'];
+
+const ARRAY_LENGTHS: Record<string, number> = {
+    '': 3,
+    tags: 13,
+    fusion: 2,
+    variations: 3,
+    personalizationFields: 0,
+};
+
+// Rough token counts, so usage tracking has something to show offline.
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const hash = (text: string): number => {
+    let h = 2166136261;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 16777619);
+    }
+    return h >>> 0;
+};
+
+const fromSchema = (schema: JsonSchema, key: string, index: number, seed: number): unknown => {
+    switch (schema.type) {
+        case 'object':
+            return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([name, property]) => [name, fromSchema(property, name, index, seed)]));
+        case 'array':
+            return Array.from({ length: ARRAY_LENGTHS[key] ?? 3 }, (_, i) => fromSchema(schema.items!, key, key === '' ? i : index * 3 + i, seed));
+        case 'string': {
+            if (schema.enum) return schema.enum[0];
+            const canned = CANNED_STRINGS[key];
+            if (!canned) return `Mock ${key || 'text'} ${index + 1}`;
+            if (!PROMPT_TAGGED_KEYS.includes(key)) return canned[index % canned.length];
+            return `${canned[(seed + index) % canned.length]} #${seed % 9000 + 1000}`;
+        }
+        case 'boolean':
+            return false;
+        default:
+            return 10;
+    }
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("The mock provider could not read an input image."));
+    image.src = src;
+});
+
+/**
+ * A placeholder image: mockups put the input design on a plain backdrop, designs are a colored
+ * badge with the first quoted text in the prompt. Colors come from the prompt, so the same
+ * request always gives the same image.
+ */
+const renderPlaceholder = async (request: ImageRequest): Promise<string> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = MOCK_IMAGE_SIZE;
+    canvas.height = MOCK_IMAGE_SIZE;
+    const ctx = canvas.getContext('2d')!;
+    const hue = hash(request.prompt) % 360;
+    const center = MOCK_IMAGE_SIZE / 2;
+
+    if (request.task === 'mockup') {
+        ctx.fillStyle = `hsl(${hue}, 25%, 80%)`;
+        ctx.fillRect(0, 0, MOCK_IMAGE_SIZE, MOCK_IMAGE_SIZE);
+        if (request.images[0]) {
+            const design = await loadImage(request.images[0]);
+            const size = MOCK_IMAGE_SIZE * 0.6;
+            ctx.drawImage(design, center - size / 2, center - size / 2, size, size);
+        }
+    } else if (request.images[0]) {
+        // Refinements keep the input and mark it, so each version is visibly different.
+        ctx.drawImage(await loadImage(request.images[0]), 0, 0, MOCK_IMAGE_SIZE, MOCK_IMAGE_SIZE);
+        ctx.fillStyle = `hsla(${hue}, 70%, 50%, 0.8)`;
+        ctx.beginPath();
+        ctx.arc(MOCK_IMAGE_SIZE * 0.88, MOCK_IMAGE_SIZE * 0.12, MOCK_IMAGE_SIZE * 0.06, 0, Math.PI * 2);
+        ctx.fill();
+    } else {
+        ctx.fillStyle = `hsl(${hue}, 65%, 55%)`;
+        ctx.beginPath();
+        ctx.arc(center, center, MOCK_IMAGE_SIZE * 0.4, 0, Math.PI * 2);
+        ctx.fill();
+    }
+
+    const text = request.prompt.match(/"([^"]{1,40})"/)?.[1];
+    if (request.task !== 'mockup' && text) {
+        ctx.fillStyle = '#ffffff';
+        ctx.font = `bold ${MOCK_IMAGE_SIZE / 14}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(text, center, center, MOCK_IMAGE_SIZE * 0.75);
+    }
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.font = `${MOCK_IMAGE_SIZE / 40}px sans-serif`;
+    ctx.textAlign = 'left';
+    ctx.fillText('OFFLINE MOCK', MOCK_IMAGE_SIZE * 0.03, MOCK_IMAGE_SIZE * 0.97);
+
+    return canvas.toDataURL(request.outputMimeType);
+};
+
+export const mockProvider: AiProvider = {
+    id: 'mock',
+    label: 'Offline mock (no API key)',
+    defaultModels: {
+        ideation: 'mock', risk: 'mock', listing: 'mock', localize: 'mock',
+        rewrite: 'mock', tags: 'mock', design: 'mock', mockup: 'mock',
+    },
+
+    generateJson: async (request) => {
+        await sleep(MOCK_DELAY_MS, request.signal);
+        const value = fromSchema(request.schema, '', 0, hash(request.prompt));
+        return {
+            value,
+            usage: {
+                inputTokens: estimateTokens(`${request.systemInstruction ?? ''}${request.prompt}`),
+                outputTokens: estimateTokens(JSON.stringify(value)),
+                images: 0,
+            },
+        };
+    },
+
+    generateImage: async (request) => {
+        await sleep(MOCK_DELAY_MS, request.signal);
+        return {
+            value: await renderPlaceholder(request),
+            usage: { inputTokens: estimateTokens(request.prompt), outputTokens: 0, images: 1 },
+        };
+    },
+};
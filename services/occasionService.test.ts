@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import type { Occasion, OccasionDate } from '../types';
+import { getOccasionSchedule } from './occasionService';
+
+const occasion = (date: OccasionDate, leadTimeDays = 12, sellingWindowDays = 30): Occasion =>
+    ({ id: 'occasion', name: 'Occasion', date, leadTimeDays, sellingWindowDays });
+
+describe('getOccasionSchedule', () => {
+    it('finds Easter Sunday and dates offset from it', () => {
+        expect(getOccasionSchedule(occasion({ kind: 'easter', offsetDays: 0 }), new Date(2024, 0, 1)).date).toEqual(new Date(2024, 2, 31));
+        expect(getOccasionSchedule(occasion({ kind: 'easter', offsetDays: 0 }), new Date(2026, 0, 1)).date).toEqual(new Date(2026, 3, 5));
+        expect(getOccasionSchedule(occasion({ kind: 'easter', offsetDays: -2 }), new Date(2025, 0, 1)).date).toEqual(new Date(2025, 3, 18));
+    });
+
+    it('finds the nth and the last weekday of a month', () => {
+        const thanksgiving = occasion({ kind: 'weekday', month: 11, weekday: 4, nth: 4 });
+        expect(getOccasionSchedule(thanksgiving, new Date(2026, 0, 1)).date).toEqual(new Date(2026, 10, 26));
+        const memorialDay = occasion({ kind: 'weekday', month: 5, weekday: 1, nth: -1 });
+        expect(getOccasionSchedule(memorialDay, new Date(2026, 0, 1)).date).toEqual(new Date(2026, 4, 25));
+    });
+
+    it('counts the order-by date and selling window back from the occasion', () => {
+        const schedule = getOccasionSchedule(occasion({ kind: 'fixed', month: 12, day: 25 }, 14, 60), new Date(2026, 10, 1));
+        expect(schedule).toMatchObject({
+            timing: 'forge-now',
+            date: new Date(2026, 11, 25),
+            orderBy: new Date(2026, 11, 11),
+            forgeFrom: new Date(2026, 9, 12),
+        });
+    });
+
+    it("moves to next year once this year's order-by date has passed", () => {
+        const schedule = getOccasionSchedule(occasion({ kind: 'fixed', month: 12, day: 25 }, 14, 60), new Date(2026, 11, 20));
+        expect(schedule.date).toEqual(new Date(2027, 11, 25));
+        expect(schedule.timing).toBe('later');
+    });
+
+    it('flags a selling window that opens within 30 days as upcoming', () => {
+        const valentines = occasion({ kind: 'fixed', month: 2, day: 14 });
+        expect(getOccasionSchedule(valentines, new Date(2026, 11, 20)).timing).toBe('upcoming');
+        expect(getOccasionSchedule(valentines, new Date(2026, 10, 1)).timing).toBe('later');
+    });
+
+    it('gives year-round occasions no dates', () => {
+        expect(getOccasionSchedule(occasion({ kind: 'year-round' }))).toEqual({ occasion: occasion({ kind: 'year-round' }), timing: 'year-round' });
+    });
+});
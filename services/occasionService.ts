@@ -0,0 +1,115 @@
+import type { Occasion, OccasionDate, OccasionSchedule } from '../types';
+import { createId } from './storageService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Occasions whose selling window opens within this many days are flagged as coming up.
+const UPCOMING_DAYS = 30;
+
+// Printify production (2-5 days) plus standard US shipping, with a little slack.
+const DEFAULT_LEAD_TIME_DAYS = 12;
+
+const occasion = (name: string, date: OccasionDate, leadTimeDays = DEFAULT_LEAD_TIME_DAYS, sellingWindowDays = 30): Occasion =>
+    ({ id: createId(), name, date, leadTimeDays, sellingWindowDays });
+
+export const DEFAULT_OCCASIONS: Occasion[] = [
+    occasion('Christmas', { kind: 'fixed', month: 12, day: 25 }, 14, 60),
+    occasion('Halloween', { kind: 'fixed', month: 10, day: 31 }, DEFAULT_LEAD_TIME_DAYS, 45),
+    occasion('Thanksgiving', { kind: 'weekday', month: 11, weekday: 4, nth: 4 }),
+    occasion('Valentine\'s Day', { kind: 'fixed', month: 2, day: 14 }),
+    occasion('Easter', { kind: 'easter', offsetDays: 0 }),
+    occasion('Mother\'s Day', { kind: 'weekday', month: 5, weekday: 0, nth: 2 }),
+    occasion('Father\'s Day', { kind: 'weekday', month: 6, weekday: 0, nth: 3 }),
+    occasion('Graduation', { kind: 'fixed', month: 5, day: 15 }, DEFAULT_LEAD_TIME_DAYS, 45),
+    occasion('Pride', { kind: 'fixed', month: 6, day: 1 }),
+    occasion('Oktoberfest', { kind: 'fixed', month: 9, day: 20 }),
+    occasion('Birthday', { kind: 'year-round' }),
+];
+
+export const DEFAULT_AUDIENCES = ['Nurse', 'Teacher', 'Dog Mom', 'Cat Lover', 'Gamer', 'Book Lover', 'Grandma'];
+
+export const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/**
+ * Easter Sunday for a year (anonymous Gregorian algorithm).
+ */
+const getEaster = (year: number): Date => {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return new Date(year, month - 1, day);
+};
+
+const getNthWeekday = (year: number, month: number, weekday: number, nth: number): Date => {
+    if (nth < 0) {
+        const last = new Date(year, month, 0);
+        return addDays(last, -((last.getDay() - weekday + 7) % 7));
+    }
+    const first = new Date(year, month - 1, 1);
+    return addDays(first, (weekday - first.getDay() + 7) % 7 + (nth - 1) * 7);
+};
+
+const getDateInYear = (date: OccasionDate, year: number): Date | null => {
+    switch (date.kind) {
+        case 'fixed': return new Date(year, date.month - 1, date.day);
+        case 'weekday': return getNthWeekday(year, date.month, date.weekday, date.nth);
+        case 'easter': return addDays(getEaster(year), date.offsetDays);
+        case 'year-round': return null;
+    }
+};
+
+export const describeOccasionDate = (date: OccasionDate): string => {
+    switch (date.kind) {
+        case 'fixed': return `${MONTH_NAMES[date.month - 1]} ${date.day}`;
+        case 'weekday': return `${date.nth < 0 ? 'Last' : ['First', 'Second', 'Third', 'Fourth', 'Fifth'][date.nth - 1]} ${WEEKDAY_NAMES[date.weekday]} of ${MONTH_NAMES[date.month - 1]}`;
+        case 'easter': return date.offsetDays === 0 ? 'Easter Sunday' : `${Math.abs(date.offsetDays)} days ${date.offsetDays < 0 ? 'before' : 'after'} Easter`;
+        case 'year-round': return 'Year-round';
+    }
+};
+
+/**
+ * Where an occasion stands relative to `today`: its next date that can still be delivered on
+ * time, and the window in which listings for it should be live.
+ */
+export const getOccasionSchedule = (occasion: Occasion, today = new Date()): OccasionSchedule => {
+    const now = startOfDay(today);
+    if (occasion.date.kind === 'year-round') return { occasion, timing: 'year-round' };
+
+    for (let year = now.getFullYear(); ; year++) {
+        const date = getDateInYear(occasion.date, year)!;
+        const orderBy = addDays(date, -occasion.leadTimeDays);
+        if (orderBy < now) continue;
+
+        const forgeFrom = addDays(orderBy, -occasion.sellingWindowDays);
+        const timing = forgeFrom <= now ? 'forge-now'
+            : (forgeFrom.getTime() - now.getTime()) / DAY_MS <= UPCOMING_DAYS ? 'upcoming'
+            : 'later';
+        return { occasion, timing, date, forgeFrom, orderBy };
+    }
+};
+
+/**
+ * Every occasion's schedule, soonest selling window first, with year-round occasions last.
+ */
+export const getOccasionSchedules = (occasions: Occasion[], today = new Date()): OccasionSchedule[] =>
+    occasions
+        .map(o => getOccasionSchedule(o, today))
+        .sort((a, b) => (a.forgeFrom?.getTime() ?? Number.MAX_SAFE_INTEGER) - (b.forgeFrom?.getTime() ?? Number.MAX_SAFE_INTEGER));
+
+export const createOccasion = (): Occasion => occasion('New Occasion', { kind: 'fixed', month: 1, day: 1 });
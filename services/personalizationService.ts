@@ -0,0 +1,129 @@
+import type { Personalization, PersonalizationField, TextLayer } from '../types';
+
+// Google Fonts families offered for the text layer.
+export const PERSONALIZATION_FONTS = [
+    'Pacifico', 'Dancing Script', 'Great Vibes', 'Lobster', 'Playfair Display',
+    'Cinzel', 'Montserrat', 'Oswald', 'Bebas Neue', 'Amatic SC',
+];
+
+export const DEFAULT_TEXT_LAYER: TextLayer = {
+    font: 'Pacifico',
+    color: '#1f2937',
+    size: 0.12,
+    x: 0.5,
+    y: 0.82,
+};
+
+// Sensible limits for common placeholders; anything else gets the generic limit.
+const KNOWN_FIELDS: Record<string, Omit<PersonalizationField, 'key'>> = {
+    name: { label: 'Name', maxLength: 12, sample: 'Emma' },
+    names: { label: 'Names', maxLength: 24, sample: 'Emma & Liam' },
+    year: { label: 'Year', maxLength: 4, sample: String(new Date().getFullYear()) },
+    date: { label: 'Date', maxLength: 10, sample: new Date().toLocaleDateString('en-US') },
+    initial: { label: 'Initial', maxLength: 1, sample: 'E' },
+    family: { label: 'Family Name', maxLength: 14, sample: 'Johnson' },
+};
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+// Etsy caps the buyer's personalization text at 1024 characters.
+const MAX_CHAR_LIMIT = 1024;
+
+/**
+ * Placeholder names in the order they first appear, e.g. "Merry {year}, {name}" gives ["year", "name"].
+ */
+export const getPlaceholders = (text: string): string[] =>
+    [...new Set([...text.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]))];
+
+export const fillPlaceholders = (text: string, values: Record<string, string>): string =>
+    text.replace(PLACEHOLDER_PATTERN, (match, key: string) => values[key] ?? match);
+
+/**
+ * A personalization for a templated slogan. Fields suggested by the model are kept; any
+ * placeholder without one gets a default field.
+ */
+export const createPersonalization = (displayText: string, suggested: Partial<PersonalizationField>[] = []): Personalization => ({
+    fields: getPlaceholders(displayText).map(key => {
+        const known = KNOWN_FIELDS[key.toLowerCase()];
+        const hint = suggested.find(f => f.key === key);
+        return {
+            key,
+            label: hint?.label || known?.label || key.charAt(0).toUpperCase() + key.slice(1),
+            maxLength: hint?.maxLength || known?.maxLength || 15,
+            sample: hint?.sample || known?.sample || key,
+        };
+    }),
+    textLayer: DEFAULT_TEXT_LAYER,
+});
+
+export const getSampleValues = (personalization: Personalization): Record<string, string> =>
+    Object.fromEntries(personalization.fields.map(f => [f.key, f.sample]));
+
+export const getPersonalizationCharLimit = (personalization: Personalization): number =>
+    Math.min(MAX_CHAR_LIMIT, personalization.fields.reduce((total, f) => total + f.maxLength + f.label.length + 2, 0));
+
+/**
+ * Buyer-facing instructions listing every field with its limit, used when the listing copy
+ * does not provide its own.
+ */
+export const buildPersonalizationInstructions = (personalization: Personalization): string =>
+    `Please enter: ${personalization.fields.map(f => `${f.label} (max ${f.maxLength} characters)`).join(', ')}. `
+    + `We print exactly what you type, so double-check spelling.`;
+
+const loadedFonts = new Set<string>();
+
+const loadFont = async (family: string, px: number) => {
+    if (!loadedFonts.has(family)) {
+        const link = document.createElement('link');
+        link.rel = 'stylesheet';
+        link.href = `https://fonts.googleapis.com/css2?family=${encodeURIComponent(family)}&display=block`;
+        document.head.appendChild(link);
+        await new Promise(resolve => { link.onload = resolve; link.onerror = resolve; });
+        loadedFonts.add(family);
+    }
+    await document.fonts.load(`${px}px "${family}"`);
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not decode the design art."));
+    image.src = src;
+});
+
+/**
+ * Draw `text` over the art as its own layer. Text too wide for the art is shrunk to fit.
+ */
+export const renderPersonalizedDesign = async (artUrl: string, text: string, layer: TextLayer): Promise<string> => {
+    const image = await loadImage(artUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(image, 0, 0);
+
+    let px = Math.round(layer.size * canvas.width);
+    await loadFont(layer.font, px);
+    ctx.font = `${px}px "${layer.font}"`;
+    const maxWidth = canvas.width * 0.92;
+    const measured = ctx.measureText(text).width;
+    if (measured > maxWidth) {
+        px = Math.floor(px * maxWidth / measured);
+        ctx.font = `${px}px "${layer.font}"`;
+    }
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const x = layer.x * canvas.width;
+    const y = layer.y * canvas.height;
+    if (layer.outlineColor) {
+        ctx.lineWidth = Math.max(2, px * 0.08);
+        ctx.lineJoin = 'round';
+        ctx.strokeStyle = layer.outlineColor;
+        ctx.strokeText(text, x, y);
+    }
+    ctx.fillStyle = layer.color;
+    ctx.fillText(text, x, y);
+
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import type { PricingRule, PrintifyCatalogVariant } from '../types';
+import { priceVariant, DEFAULT_PRICING_RULES } from './pricingService';
+
+const variant = (size: string, cost?: number): PrintifyCatalogVariant =>
+    ({ id: 1, title: `White / ${size}`, options: { color: 'White', size }, placeholders: [], cost });
+
+const rule: PricingRule = DEFAULT_PRICING_RULES['T-Shirt']; // 40% margin, .99, 200¢ per step, 1100¢ base
+
+describe('priceVariant', () => {
+    it('prices the estimated base cost at the target margin with a charm ending', () => {
+        const price = priceVariant(variant('M'), rule);
+        expect(price).toMatchObject({ cost: 1100, price: 1899, profit: 799, marginPercent: 42.1, isEstimatedCost: true });
+    });
+
+    it('adds the size upcharge to the estimated cost once per step above XL', () => {
+        expect(priceVariant(variant('XL'), rule).cost).toBe(1100);
+        expect(priceVariant(variant('2XL'), rule)).toMatchObject({ cost: 1300, price: 2199 });
+        expect(priceVariant(variant('XXL'), rule).cost).toBe(1300);
+        expect(priceVariant(variant('3XL'), rule)).toMatchObject({ cost: 1500, price: 2599 });
+    });
+
+    it('uses the real cost when Printify has reported one', () => {
+        expect(priceVariant(variant('2XL', 1250), rule)).toMatchObject({ cost: 1250, price: 2099, profit: 849, isEstimatedCost: false });
+    });
+
+    it('keeps a price that already has the charm ending and rounds others up to the next one', () => {
+        const atCost = { ...rule, targetMarginPercent: 0 };
+        expect(priceVariant(variant('M', 1899), atCost).price).toBe(1899);
+        expect(priceVariant(variant('M', 1900), atCost).price).toBe(1999);
+        expect(priceVariant(variant('M', 1901), { ...atCost, charmEnding: 0 }).price).toBe(2000);
+    });
+
+    it('rounds up to the cent without a charm ending', () => {
+        expect(priceVariant(variant('M', 1000), { ...rule, targetMarginPercent: 30, charmEnding: null }).price).toBe(1429);
+    });
+
+    it('caps the margin at 95%', () => {
+        expect(priceVariant(variant('M', 100), { ...rule, targetMarginPercent: 100, charmEnding: null }).price).toBe(2000);
+    });
+});
@@ -0,0 +1,65 @@
+import type { ProductType, PricingRule, PrintifyCatalogVariant, VariantPrice } from '../types';
+
+// Sensible starting points per product type; costs are typical Printify base costs in cents.
+export const DEFAULT_PRICING_RULES: Record<ProductType, PricingRule> = {
+    'T-Shirt': { targetMarginPercent: 40, charmEnding: 99, sizeUpcharge: 200, fallbackCost: 1100 },
+    'Hoodie': { targetMarginPercent: 35, charmEnding: 99, sizeUpcharge: 300, fallbackCost: 2200 },
+    'Sweatshirt': { targetMarginPercent: 35, charmEnding: 99, sizeUpcharge: 300, fallbackCost: 1900 },
+    'Mug': { targetMarginPercent: 45, charmEnding: 99, sizeUpcharge: 0, fallbackCost: 700 },
+    'Tote Bag': { targetMarginPercent: 40, charmEnding: 99, sizeUpcharge: 0, fallbackCost: 1300 },
+    'Pillow': { targetMarginPercent: 40, charmEnding: 99, sizeUpcharge: 0, fallbackCost: 1500 },
+    'Ornament': { targetMarginPercent: 50, charmEnding: 99, sizeUpcharge: 0, fallbackCost: 800 },
+};
+
+export const getPricingRule = (productType: ProductType, overrides: Partial<Record<ProductType, PricingRule>>): PricingRule =>
+    overrides[productType] ?? DEFAULT_PRICING_RULES[productType];
+
+/**
+ * Number of size steps above XL: 2XL/XXL -> 1, 3XL/XXXL -> 2, anything else -> 0.
+ */
+const getOversizeSteps = (size: string | undefined): number => {
+    if (!size) return 0;
+    const normalized = size.trim().toUpperCase();
+    const numbered = normalized.match(/^(\d)XL$/);
+    if (numbered) return Math.max(0, Number(numbered[1]) - 1);
+    const repeated = normalized.match(/^(X+)L$/);
+    return repeated ? Math.max(0, repeated[1].length - 1) : 0;
+};
+
+/**
+ * Round up to the next price ending in `charmEnding` cents (e.g. 2340 -> 2399).
+ */
+const applyCharmEnding = (price: number, charmEnding: number | null): number => {
+    if (charmEnding === null) return Math.ceil(price);
+    const charmed = Math.floor(price / 100) * 100 + charmEnding;
+    return charmed >= price ? charmed : charmed + 100;
+};
+
+/**
+ * Price a variant at the rule's target margin over its production cost. Printify's catalog has
+ * no costs, so until a product has reported them the cost is estimated from the rule, with the
+ * size upcharge added per step above XL.
+ */
+export const priceVariant = (variant: PrintifyCatalogVariant, rule: PricingRule): VariantPrice => {
+    const isEstimatedCost = variant.cost === undefined;
+    const cost = variant.cost ?? rule.fallbackCost + rule.sizeUpcharge * getOversizeSteps(variant.options.size);
+    const margin = Math.min(Math.max(rule.targetMarginPercent, 0), 95) / 100;
+
+    const price = applyCharmEnding(cost / (1 - margin), rule.charmEnding);
+    const profit = price - cost;
+
+    return {
+        variantId: variant.id,
+        title: variant.title,
+        cost,
+        price,
+        profit,
+        marginPercent: price > 0 ? Math.round((profit / price) * 1000) / 10 : 0,
+        isEstimatedCost,
+    };
+};
+
+export const priceVariants = (variants: PrintifyCatalogVariant[], rule: PricingRule): VariantPrice[] =>
+    variants.map(variant => priceVariant(variant, rule));
+
+export const formatCents = (cents: number): string => `$${(cents / 100).toFixed(2)}`;
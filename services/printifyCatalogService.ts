@@ -0,0 +1,213 @@
+import type { ProductType, PrintifyPrintProvider, PrintifyCatalogVariant, PrintifyPlaceholder, CatalogSelection, ResolvedCatalogProduct, DesignPlacement } from '../types';
+import { BASE_URL, getHeaders, DEFAULT_PLACEMENT } from './printifyService';
+import { getRecord, putRecord } from './storageService';
+
+// Catalog data changes rarely, so responses are cached in IndexedDB for a day.
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Default blueprint and print area for each App Product Type. Providers and variants
+// are chosen by the user from the live catalog.
+export const DEFAULT_BLUEPRINTS: Record<ProductType, { blueprint_id: number; print_provider_id: number; placement: string }> = {
+    'T-Shirt': { blueprint_id: 12, print_provider_id: 29, placement: "front" }, // Bella+Canvas 3001, Monster Digital
+    'Hoodie': { blueprint_id: 77, print_provider_id: 29, placement: "front" }, // Gildan 18500
+    'Sweatshirt': { blueprint_id: 53, print_provider_id: 29, placement: "front" }, // Gildan 18000
+    'Mug': { blueprint_id: 68, print_provider_id: 23, placement: "front" }, // 11oz Ceramic Mug, District Photo
+    'Tote Bag': { blueprint_id: 485, print_provider_id: 3, placement: "front" }, // AOP Tote, Spoke
+    'Pillow': { blueprint_id: 58, print_provider_id: 3, placement: "front" }, // Spun Polyester Square Pillow
+    'Ornament': { blueprint_id: 847, print_provider_id: 66, placement: "front" }, // Ceramic Ornament
+};
+
+const APPAREL_PRINT_AREAS = (width: number, height: number): PrintifyPlaceholder[] => [
+    { position: 'front', width, height },
+    { position: 'back', width, height },
+    { position: 'left_sleeve', width: 1200, height: 1800 },
+    { position: 'right_sleeve', width: 1200, height: 1800 },
+];
+
+// Typical print areas in pixels (at 300 DPI), used until the catalog has been loaded.
+// The first entry is the default position.
+const DEFAULT_PRINT_AREAS: Record<ProductType, PrintifyPlaceholder[]> = {
+    'T-Shirt': APPAREL_PRINT_AREAS(4500, 5400),
+    'Hoodie': APPAREL_PRINT_AREAS(4500, 4800),
+    'Sweatshirt': APPAREL_PRINT_AREAS(4500, 5400),
+    'Mug': [{ position: 'front', width: 1200, height: 1200 }, { position: 'wrap', width: 2700, height: 1200 }],
+    'Tote Bag': [{ position: 'front', width: 4200, height: 4800 }, { position: 'back', width: 4200, height: 4800 }],
+    'Pillow': [{ position: 'front', width: 5400, height: 5400 }, { position: 'back', width: 5400, height: 5400 }],
+    'Ornament': [{ position: 'front', width: 1050, height: 1050 }],
+};
+
+interface CatalogCacheEntry<T> {
+    id: string;
+    fetchedAt: number;
+    data: T;
+}
+
+const fetchCatalog = async <T>(token: string, path: string, refresh = false): Promise<T> => {
+    if (!refresh) {
+        const cached = await getRecord<CatalogCacheEntry<T>>('catalog', path);
+        if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached.data;
+    }
+
+    const response = await fetch(`${BASE_URL}${path}`, {
+        method: 'GET',
+        headers: getHeaders(token),
+    });
+
+    if (!response.ok) throw new Error(`Failed to load the Printify catalog (${response.status}). Check your API Token.`);
+
+    const data: T = await response.json();
+    await putRecord<CatalogCacheEntry<T>>('catalog', { id: path, fetchedAt: Date.now(), data });
+    return data;
+};
+
+export const getBlueprint = (token: string, blueprintId: number, refresh = false) =>
+    fetchCatalog<{ id: number; title: string; brand: string; model: string }>(token, `/catalog/blueprints/${blueprintId}.json`, refresh);
+
+export const getPrintProviders = (token: string, blueprintId: number, refresh = false) =>
+    fetchCatalog<PrintifyPrintProvider[]>(token, `/catalog/blueprints/${blueprintId}/print_providers.json`, refresh);
+
+// The catalog has no production costs; Printify only reports them on products. Costs seen on
+// created products are kept per provider, and never expire since nothing else refreshes them.
+const getCostsKey = (blueprintId: number, printProviderId: number) => `costs/${blueprintId}/${printProviderId}`;
+
+const getVariantCosts = async (blueprintId: number, printProviderId: number): Promise<Record<number, number>> =>
+    (await getRecord<CatalogCacheEntry<Record<number, number>>>('catalog', getCostsKey(blueprintId, printProviderId)))?.data ?? {};
+
+/**
+ * Remember the production costs a Printify product reported for its variants.
+ */
+export const recordVariantCosts = async (blueprintId: number, printProviderId: number, variants: { id: number; cost?: number }[]): Promise<void> => {
+    const costs = await getVariantCosts(blueprintId, printProviderId);
+    for (const variant of variants) {
+        if (typeof variant.cost === 'number') costs[variant.id] = variant.cost;
+    }
+    await putRecord<CatalogCacheEntry<Record<number, number>>>('catalog', { id: getCostsKey(blueprintId, printProviderId), fetchedAt: Date.now(), data: costs });
+};
+
+export const getCatalogVariants = async (token: string, blueprintId: number, printProviderId: number, refresh = false): Promise<PrintifyCatalogVariant[]> => {
+    const data = await fetchCatalog<{ variants: PrintifyCatalogVariant[] }>(
+        token,
+        `/catalog/blueprints/${blueprintId}/print_providers/${printProviderId}/variants.json`,
+        refresh
+    );
+    const costs = await getVariantCosts(blueprintId, printProviderId);
+    return data.variants.map(variant => costs[variant.id] === undefined ? variant : { ...variant, cost: costs[variant.id] });
+};
+
+/**
+ * Every option key (e.g. "color", "size") with its distinct values, in catalog order.
+ */
+export const getVariantOptions = (variants: PrintifyCatalogVariant[]): Record<string, string[]> => {
+    const options: Record<string, string[]> = {};
+    for (const variant of variants) {
+        for (const [key, value] of Object.entries(variant.options)) {
+            options[key] = options[key] ?? [];
+            if (!options[key].includes(value)) options[key].push(value);
+        }
+    }
+    return options;
+};
+
+export const filterVariants = (variants: PrintifyCatalogVariant[], selection: CatalogSelection): PrintifyCatalogVariant[] =>
+    variants.filter(variant =>
+        Object.entries(selection.options).every(([key, values]) =>
+            values.length === 0 || values.includes(variant.options[key])
+        )
+    );
+
+/**
+ * The print areas every variant offers, since Printify rejects a position that any variant in the
+ * product lacks. Sizes can differ between variants, so each area is its largest, which prints softest.
+ */
+const mergePrintAreas = (variants: PrintifyCatalogVariant[]): PrintifyPlaceholder[] => {
+    const areas = new Map<string, PrintifyPlaceholder>();
+    for (const { position, width, height } of variants.flatMap(v => v.placeholders)) {
+        const known = areas.get(position);
+        areas.set(position, { position, width: Math.max(width, known?.width ?? 0), height: Math.max(height, known?.height ?? 0) });
+    }
+    return [...areas.values()].filter(area => variants.every(v => v.placeholders.some(p => p.position === area.position)));
+};
+
+/**
+ * Resolve the saved selection for a product type into concrete variant IDs.
+ */
+export const resolveCatalogProduct = async (
+    token: string,
+    productType: ProductType,
+    selection: CatalogSelection | undefined
+): Promise<ResolvedCatalogProduct> => {
+    if (!selection) throw new Error(`Choose a print provider and variants for ${productType} in the Printify catalog first.`);
+
+    const variants = filterVariants(
+        await getCatalogVariants(token, selection.blueprintId, selection.printProviderId),
+        selection
+    );
+    if (variants.length === 0) throw new Error(`None of the selected ${productType} variants are offered by this print provider.`);
+
+    // Prefer the default print area, but fall back to whatever this provider actually offers.
+    const defaultPlacement = DEFAULT_BLUEPRINTS[productType].placement;
+    const printAreas = mergePrintAreas(variants);
+    const positions = printAreas.map(p => p.position);
+    const placement = positions.length === 0 || positions.includes(defaultPlacement) ? defaultPlacement : positions[0];
+
+    return {
+        blueprintId: selection.blueprintId,
+        printProviderId: selection.printProviderId,
+        placement,
+        printAreas,
+        variants,
+    };
+};
+
+/**
+ * Every print area the product offers, from the live catalog when a selection exists,
+ * otherwise typical areas for the product type. The default position comes first.
+ */
+export const getPrintAreas = async (
+    token: string,
+    productType: ProductType,
+    selection: CatalogSelection | undefined
+): Promise<{ areas: PrintifyPlaceholder[]; isEstimate: boolean }> => {
+    if (token && selection) {
+        try {
+            const resolved = await resolveCatalogProduct(token, productType, selection);
+            const areas = [...resolved.printAreas].sort((a, b) =>
+                Number(b.position === resolved.placement) - Number(a.position === resolved.placement)
+            );
+            if (areas.length > 0) return { areas, isEstimate: false };
+        } catch (error) {
+            console.warn(`Falling back to the default ${productType} print areas:`, error);
+        }
+    }
+    return { areas: DEFAULT_PRINT_AREAS[productType], isEstimate: true };
+};
+
+/**
+ * The print area and scale a product's design prints at: its first placement, or the default
+ * placement on the default area.
+ */
+export const getPlacedPrintArea = async (
+    token: string,
+    productType: ProductType,
+    selection: CatalogSelection | undefined,
+    placements: DesignPlacement[] | undefined
+): Promise<{ printArea: PrintifyPlaceholder; scale: number }> => {
+    const { areas } = await getPrintAreas(token, productType, selection);
+    const placement = placements?.[0];
+    return {
+        printArea: areas.find(a => a.position === placement?.position) ?? areas[0],
+        scale: placement?.scale ?? DEFAULT_PLACEMENT.scale,
+    };
+};
+
+/**
+ * Pixel size of the print area a design is placed on by default.
+ */
+export const getPrintArea = async (
+    token: string,
+    productType: ProductType,
+    selection: CatalogSelection | undefined
+): Promise<PrintifyPlaceholder & { isEstimate: boolean }> => {
+    const { areas, isEstimate } = await getPrintAreas(token, productType, selection);
+    return { ...areas[0], isEstimate };
+};
@@ -1,64 +1,20 @@
 
-import type { ProductType, PrintifyShop, PrintifyImageUploadResponse, PrintifyProductResponse, ListingCopy } from '../types';
-
-const BASE_URL = 'https://api.printify.com/v1';
-
-// Map App Product Types to specific Printify Blueprints and Providers
-// These are common defaults (e.g., Monster Digital for apparel, District Photo for mugs)
-const PRODUCT_MAP: Record<ProductType, { blueprint_id: number; print_provider_id: number; variants: number[]; placement: string }> = {
-    'T-Shirt': { 
-        blueprint_id: 12, // Bella+Canvas 3001
-        print_provider_id: 29, // Monster Digital
-        variants: [45174, 45175, 45176], // S, M, L (example IDs)
-        placement: "front"
-    },
-    'Hoodie': { 
-        blueprint_id: 77, // Gildan 18500
-        print_provider_id: 29, // Monster Digital
-        variants: [45426, 45427, 45428], // S, M, L
-        placement: "front"
-    },
-    'Sweatshirt': { 
-        blueprint_id: 53, // Gildan 18000
-        print_provider_id: 29,
-        variants: [45300, 45301, 45302],
-        placement: "front"
-    },
-    'Mug': { 
-        blueprint_id: 68, // 11oz Ceramic Mug
-        print_provider_id: 23, // District Photo
-        variants: [46317],
-        placement: "front" // Wraparound often requires specific dimensions, sticking to front for safety
-    },
-    'Tote Bag': { 
-        blueprint_id: 485, // AOP Tote
-        print_provider_id: 3, // Spoke
-        variants: [58503],
-        placement: "front"
-    },
-    'Pillow': { 
-        blueprint_id: 58, // Spun Polyester Square Pillow
-        print_provider_id: 3,
-        variants: [45364],
-        placement: "front"
-    },
-    'Ornament': {
-        blueprint_id: 847, // Ceramic Ornament
-        print_provider_id: 66,
-        variants: [96973],
-        placement: "front"
-    }
-};
+import type { PrintifyShop, PrintifyImageUploadResponse, PrintifyProductResponse, ListingCopy, ResolvedCatalogProduct, VariantPrice, PublishFields, PublishStatus, DesignPlacement } from '../types';
+
+export const BASE_URL = 'https://api.printify.com/v1';
 
-const getHeaders = (token: string) => ({
+export const getHeaders = (token: string) => ({
     'Authorization': `Bearer ${token}`,
     'Content-Type': 'application/json',
 });
 
+// Where the design sits in the print area when the user hasn't placed it.
+export const DEFAULT_PLACEMENT: Omit<DesignPlacement, 'position'> = { x: 0.5, y: 0.5, scale: 0.8, angle: 0 };
+
 /**
- * 1. Get the user's first shop ID
+ * 1. Get every shop connected to the account
  */
-export const getPrintifyShop = async (token: string): Promise<PrintifyShop> => {
+export const getPrintifyShops = async (token: string): Promise<PrintifyShop[]> => {
     const response = await fetch(`${BASE_URL}/shops.json`, {
         method: 'GET',
         headers: getHeaders(token),
@@ -66,16 +22,24 @@ export const getPrintifyShop = async (token: string): Promise<PrintifyShop> => {
 
     if (!response.ok) throw new Error('Failed to fetch Printify shops. Check your API Token.');
     
-    const shops = await response.json();
+    const shops: { id: number | string; title: string; sales_channel?: string }[] = await response.json();
     if (shops.length === 0) throw new Error('No Printify shops found for this account.');
     
-    return { id: shops[0].id, title: shops[0].title };
+    return shops.map(shop => ({ id: String(shop.id), title: shop.title, salesChannel: shop.sales_channel }));
+};
+
+/**
+ * Stable key for an image's content, used to avoid uploading the same image twice.
+ */
+export const getImageKey = async (base64Image: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(base64Image));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
 };
 
 /**
  * 2. Upload the Base64 image to Printify Media Library
  */
-export const uploadImageToPrintify = async (token: string, base64Image: string, fileName: string): Promise<string> => {
+export const uploadImageToPrintify = async (token: string, base64Image: string, fileName: string): Promise<PrintifyImageUploadResponse> => {
     // Strip the prefix (data:image/png;base64,)
     const cleanBase64 = base64Image.replace(/^data:image\/\w+;base64,/, "");
 
@@ -93,8 +57,7 @@ export const uploadImageToPrintify = async (token: string, base64Image: string,
         throw new Error(`Image upload failed: ${JSON.stringify(error)}`);
     }
 
-    const data: PrintifyImageUploadResponse = await response.json();
-    return data.id;
+    return await response.json();
 };
 
 /**
@@ -103,36 +66,39 @@ export const uploadImageToPrintify = async (token: string, base64Image: string,
 export const createPrintifyProduct = async (
     token: string,
     shopId: string,
-    productType: ProductType,
+    catalogProduct: ResolvedCatalogProduct,
+    prices: VariantPrice[],
+    placements: DesignPlacement[],
     imageId: string,
     listingCopy: ListingCopy
 ): Promise<PrintifyProductResponse> => {
-    const mapping = PRODUCT_MAP[productType];
-    if (!mapping) throw new Error(`Printify mapping not found for ${productType}`);
+    const variantIds = catalogProduct.variants.map(v => v.id);
+    const priceById = new Map(prices.map(p => [p.variantId, p.price]));
+    const missing = variantIds.filter(id => !priceById.has(id));
+    if (missing.length > 0) throw new Error(`No price was calculated for variant(s) ${missing.join(', ')}.`);
+
+    // Every position must exist on the chosen provider's variants, or Printify rejects the product.
+    const positions = catalogProduct.printAreas.map(p => p.position);
+    const unsupported = placements.filter(p => positions.length > 0 && !positions.includes(p.position));
+    if (unsupported.length > 0) throw new Error(`This print provider can't print on: ${unsupported.map(p => p.position).join(', ')}.`);
+    if (placements.length === 0) throw new Error("Place the design on at least one print area.");
 
     const payload = {
         title: listingCopy.title,
-        description: listingCopy.description,
-        blueprint_id: mapping.blueprint_id,
-        print_provider_id: mapping.print_provider_id,
-        variants: mapping.variants.map(id => ({ id, price: 2500, is_enabled: true })), // Default price 2500 cents ($25.00)
+        // Printify has no personalization field, so the buyer instructions ride along in the description.
+        description: listingCopy.personalizationInstructions
+            ? `${listingCopy.description}\n\nPersonalization: ${listingCopy.personalizationInstructions}\nCharacter limit: ${listingCopy.personalizationCharLimit}`
+            : listingCopy.description,
+        blueprint_id: catalogProduct.blueprintId,
+        print_provider_id: catalogProduct.printProviderId,
+        variants: variantIds.map(id => ({ id, price: priceById.get(id), is_enabled: true })), // Prices in cents
         print_areas: [
             {
-                variant_ids: mapping.variants,
-                placeholders: [
-                    {
-                        position: mapping.placement,
-                        images: [
-                            {
-                                id: imageId,
-                                x: 0.5, // Center X
-                                y: 0.5, // Center Y
-                                scale: 0.8, // 80% scale
-                                angle: 0,
-                            },
-                        ],
-                    },
-                ],
+                variant_ids: variantIds,
+                placeholders: placements.map(({ position, x, y, scale, angle }) => ({
+                    position,
+                    images: [{ id: imageId, x, y, scale, angle }],
+                })),
             },
         ],
         tags: listingCopy.tags,
@@ -151,3 +117,72 @@ export const createPrintifyProduct = async (
 
     return await response.json();
 };
+
+/**
+ * 3b. Re-price the Product once Printify has reported its variants' real costs
+ */
+export const updatePrintifyProductPrices = async (
+    token: string,
+    shopId: string,
+    productId: string,
+    prices: VariantPrice[]
+): Promise<void> => {
+    const response = await fetch(`${BASE_URL}/shops/${shopId}/products/${productId}.json`, {
+        method: 'PUT',
+        headers: getHeaders(token),
+        body: JSON.stringify({ variants: prices.map(p => ({ id: p.variantId, price: p.price, is_enabled: true })) }),
+    });
+
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ status: response.status }));
+        throw new Error(`Price update failed: ${JSON.stringify(error)}`);
+    }
+};
+
+/**
+ * 4. Publish the Product to the shop's connected sales channel (e.g. Etsy)
+ */
+export const publishPrintifyProduct = async (
+    token: string,
+    shopId: string,
+    productId: string,
+    fields: PublishFields,
+    signal?: AbortSignal
+): Promise<void> => {
+    const response = await fetch(`${BASE_URL}/shops/${shopId}/products/${productId}/publish.json`, {
+        method: 'POST',
+        headers: getHeaders(token),
+        body: JSON.stringify(fields),
+        signal,
+    });
+
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ status: response.status }));
+        throw new Error(`Publish failed: ${JSON.stringify(error)}`);
+    }
+};
+
+/**
+ * 5. Fetch a Product to check how its publish is going
+ */
+export const getPrintifyProduct = async (token: string, shopId: string, productId: string, signal?: AbortSignal): Promise<PrintifyProductResponse> => {
+    const response = await fetch(`${BASE_URL}/shops/${shopId}/products/${productId}.json`, {
+        method: 'GET',
+        headers: getHeaders(token),
+        signal,
+    });
+
+    if (!response.ok) throw new Error(`Failed to fetch Printify product ${productId}.`);
+
+    return await response.json();
+};
+
+/**
+ * A product is published once the sales channel reports an external ID, and stays
+ * locked while the push is in progress.
+ */
+export const getPublishStatus = (product: PrintifyProductResponse): PublishStatus => {
+    if (product.external?.id) return 'published';
+    if (product.is_locked) return 'publishing';
+    return 'draft';
+};
@@ -0,0 +1,129 @@
+import type { ForgeProject, FinalizedProduct, ProductConcept, DesignHistory, ProductMockup } from '../types';
+import { getAllRecords, getRecord, putRecord, deleteRecord, createId } from './storageService';
+import { DEFAULT_MOCKUP_SHOTS } from './geminiService';
+
+const ACTIVE_PROJECT_KEY = 'alchemist.activeProjectId';
+
+export const createProjectId = createId;
+
+// Projects saved by the first project library kept the original app's shapes: concepts
+// without IDs, one design URL per concept title, bare mockup URLs rendered from the default
+// shots in order, and a single `printifyId` per product.
+type BaselineFinalizedProduct = Omit<FinalizedProduct, 'mockups'> & { printifyId?: string; mockups: string[] };
+type BaselineProject = Omit<ForgeProject, 'generatedDesigns' | 'finalizedProducts'> & {
+    generatedDesigns: Record<string, string>;
+    finalizedProducts: BaselineFinalizedProduct[];
+};
+
+const isBaselineProject = (project: ForgeProject | BaselineProject): project is BaselineProject =>
+    project.variations.some(concept => !concept.id);
+
+const upgradeProject = (project: ForgeProject | BaselineProject): ForgeProject => {
+    if (!isBaselineProject(project)) return project;
+
+    // Titles were the keys, so every copy of a concept gets the same ID.
+    const ids = new Map<string, string>();
+    const idFor = (title: string): string => {
+        if (!ids.has(title)) ids.set(title, createId());
+        return ids.get(title)!;
+    };
+    const withId = (concept: ProductConcept): ProductConcept => ({ ...concept, id: idFor(concept.conceptTitle) });
+
+    const generatedDesigns: Record<string, DesignHistory> = {};
+    for (const [title, url] of Object.entries(project.generatedDesigns)) {
+        const version = { id: createId(), url, createdAt: project.updatedAt, source: 'generate' as const };
+        generatedDesigns[idFor(title)] = { versions: [version], activeVersionId: version.id };
+    }
+
+    return {
+        ...project,
+        variations: project.variations.map(withId),
+        selectedVariations: project.selectedVariations.map(withId),
+        generatedDesigns,
+        selectedDesigns: project.selectedDesigns.map(d => ({ ...d, concept: withId(d.concept) })),
+        finalizedProducts: project.finalizedProducts.map(({ printifyId, mockups, ...product }): FinalizedProduct => ({
+            ...product,
+            concept: withId(product.concept),
+            mockups: mockups.map((url, index): ProductMockup => ({
+                ...(DEFAULT_MOCKUP_SHOTS[index] ?? { sceneId: 'studio', color: 'White' }),
+                id: createId(),
+                status: 'done',
+                url,
+            })),
+            // Which shop held the product was never stored, so it is looked up again before use.
+            ...(printifyId && { printifyListings: [{ shopId: '', shopTitle: 'Unknown shop', productId: printifyId, needsRelink: true }] }),
+        })),
+    };
+};
+
+/**
+ * List saved projects, most recently updated first.
+ */
+export const listProjects = async (): Promise<ForgeProject[]> => {
+    const projects = await getAllRecords<ForgeProject>('projects');
+    return projects.map(upgradeProject).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Writes to one project run one after another, so a background job's update never starts
+// from a copy that an earlier save is about to replace.
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+const queueWrite = <T>(id: string, write: () => Promise<T>): Promise<T> => {
+    const result = (pendingWrites.get(id) ?? Promise.resolve()).catch(() => undefined).then(write);
+    pendingWrites.set(id, result);
+    return result;
+};
+
+export const getProject = async (id: string): Promise<ForgeProject | undefined> => {
+    await pendingWrites.get(id)?.catch(() => undefined);
+    const project = await getRecord<ForgeProject>('projects', id);
+    return project && upgradeProject(project);
+};
+
+/**
+ * Insert or update a project, stamping `updatedAt`.
+ */
+export const saveProject = (project: ForgeProject): Promise<ForgeProject> =>
+    queueWrite(project.id, () => putRecord('projects', { ...project, updatedAt: Date.now() }));
+
+/**
+ * Apply `update` to the stored copy of a project that is not open. Resolves to undefined if
+ * the project has been deleted.
+ */
+export const updateStoredProject = (id: string, update: (project: ForgeProject) => ForgeProject): Promise<ForgeProject | undefined> =>
+    queueWrite(id, async () => {
+        const project = await getRecord<ForgeProject>('projects', id);
+        return project && putRecord('projects', { ...update(upgradeProject(project)), updatedAt: Date.now() });
+    });
+
+export const deleteProject = (id: string): Promise<void> => queueWrite(id, () => deleteRecord('projects', id));
+
+/**
+ * Copy a saved project under a new ID so it can be branched without touching the original.
+ * Printify listings and uploads stay with the original: the copy has published nothing yet.
+ */
+export const duplicateProject = async (id: string): Promise<ForgeProject> => {
+    const original = await getProject(id);
+    if (!original) throw new Error('Project not found. It may have been deleted.');
+
+    const now = Date.now();
+    return putRecord('projects', {
+        ...original,
+        id: createId(),
+        name: `${original.name} (Copy)`,
+        createdAt: now,
+        updatedAt: now,
+        finalizedProducts: original.finalizedProducts.map(({ printifyListings, printifyUploads, ...product }) => product),
+    });
+};
+
+// The active project ID lives in localStorage so a reload can reopen it before IndexedDB is queried.
+export const getActiveProjectId = (): string | null => localStorage.getItem(ACTIVE_PROJECT_KEY);
+
+export const setActiveProjectId = (id: string | null) => {
+    if (id) {
+        localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+    } else {
+        localStorage.removeItem(ACTIVE_PROJECT_KEY);
+    }
+};
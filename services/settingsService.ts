@@ -0,0 +1,59 @@
+import type { PrintifyShop, ProductType, CatalogSelection, PricingRule, PublishFields, PrintPrepOptions, Occasion, AiConfig, ModelPrice, ModelLimit } from '../types';
+import { DEFAULT_PRINT_PREP_OPTIONS } from './imageProcessingService';
+import { DEFAULT_OCCASIONS, DEFAULT_AUDIENCES } from './occasionService';
+import { DEFAULT_TRADEMARK_BLOCKLIST } from './trademarkService';
+import { DEFAULT_AI_CONFIG } from './aiProvider';
+import { DEFAULT_MODEL_PRICES } from './costService';
+import { DEFAULT_MODEL_LIMITS } from './aiScheduler';
+
+const SETTINGS_KEY = 'alchemist.settings';
+
+// Preferences that outlive a single project. The Printify token is deliberately
+// not stored here; it stays in memory for the session only.
+export interface AppSettings {
+    printifyShops: PrintifyShop[];
+    defaultShopId: string | null;
+    catalogSelections: Partial<Record<ProductType, CatalogSelection>>;
+    pricingRules: Partial<Record<ProductType, PricingRule>>;
+    publishFields: PublishFields;
+    printPrepOptions: PrintPrepOptions;
+    occasions: Occasion[];
+    audiences: string[];
+    trademarkBlocklist: string[]; // Phrases that block a concept or listing when they appear
+    shopLocales: Record<string, string>; // Shop ID to the locale its listings are written in; English if unset
+    ai: AiConfig;
+    aiPrices: Record<string, ModelPrice>; // Keyed by model name
+    projectBudget: number | null; // USD of AI spend per project; batches that would exceed it ask first
+    modelLimits: Record<string, ModelLimit>; // Keyed by model name
+}
+
+const DEFAULT_SETTINGS: AppSettings = {
+    printifyShops: [],
+    defaultShopId: null,
+    catalogSelections: {},
+    pricingRules: {},
+    publishFields: { title: true, description: true, images: true, variants: true, tags: true },
+    printPrepOptions: DEFAULT_PRINT_PREP_OPTIONS,
+    occasions: DEFAULT_OCCASIONS,
+    audiences: DEFAULT_AUDIENCES,
+    trademarkBlocklist: DEFAULT_TRADEMARK_BLOCKLIST,
+    shopLocales: {},
+    ai: DEFAULT_AI_CONFIG,
+    aiPrices: DEFAULT_MODEL_PRICES,
+    projectBudget: null,
+    modelLimits: DEFAULT_MODEL_LIMITS,
+};
+
+export const loadSettings = (): AppSettings => {
+    try {
+        const raw = localStorage.getItem(SETTINGS_KEY);
+        return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+    } catch (error) {
+        console.error("Error loading settings:", error);
+        return DEFAULT_SETTINGS;
+    }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
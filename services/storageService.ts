@@ -0,0 +1,62 @@
+const DB_NAME = 'alchemists-forge';
+const DB_VERSION = 4;
+
+// Every object store the app persists to. Adding a store means bumping DB_VERSION
+// so `onupgradeneeded` runs for existing users.
+export type StoreName = 'projects' | 'catalog' | 'styles' | 'blueprints';
+const STORES: StoreName[] = ['projects', 'catalog', 'styles', 'blueprints'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            for (const store of STORES) {
+                if (!db.objectStoreNames.contains(store)) {
+                    db.createObjectStore(store, { keyPath: 'id' });
+                }
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error ?? new Error('Failed to open the local project database.'));
+        };
+    });
+    return dbPromise;
+};
+
+const runRequest = async <T>(store: StoreName, mode: IDBTransactionMode, action: (objectStore: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openDb();
+    return new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(store, mode);
+        const request = action(transaction.objectStore(store));
+        transaction.oncomplete = () => resolve(request.result as T);
+        transaction.onerror = () => reject(transaction.error ?? request.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error(`Transaction on "${store}" was aborted.`));
+    });
+};
+
+export const getAllRecords = <T>(store: StoreName): Promise<T[]> =>
+    runRequest<T[]>(store, 'readonly', s => s.getAll());
+
+export const getRecord = <T>(store: StoreName, id: string): Promise<T | undefined> =>
+    runRequest<T | undefined>(store, 'readonly', s => s.get(id));
+
+export const putRecord = async <T extends { id: string }>(store: StoreName, record: T): Promise<T> => {
+    await runRequest(store, 'readwrite', s => s.put(record));
+    return record;
+};
+
+export const deleteRecord = async (store: StoreName, id: string): Promise<void> => {
+    await runRequest(store, 'readwrite', s => s.delete(id));
+};
+
+export const createId = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
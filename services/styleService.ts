@@ -0,0 +1,76 @@
+import type { StylePreset } from '../types';
+import { getAllRecords, putRecord, deleteRecord, createId } from './storageService';
+
+// Built-in styles use their name as ID, which is what projects stored before custom styles.
+const builtInStyle = (name: string, prompt: string): StylePreset =>
+    ({ id: name, name, prompt, palette: [], fontGuidance: '', referenceImages: [], isBuiltIn: true, createdAt: 0, updatedAt: 0 });
+
+export const BUILT_IN_STYLES: StylePreset[] = [
+    builtInStyle('Minimalist Vector', "Create a sophisticated, single-color vector graphic. The design must be clean, modern, and immediately legible from a distance. Emphasize elegant, crisp line work, impactful silhouettes, and masterful use of negative space. Typography is key: use a high-end, minimalist sans-serif font (like Helvetica Neue, Futura, or a similar aesthetic) that is perfectly integrated as a core design element. The final asset should feel like it belongs in a modern art gallery. Strictly monochrome on a transparent background."),
+    builtInStyle('Geometric Modern', "Construct a bold, abstract design using fundamental shapes (circles, triangles, squares). Create a dynamic, visually striking composition with a limited, high-contrast color palette (max 3-4 colors). The aesthetic is sharp, intentional, and influenced by Bauhaus and Swiss design. Typography must be a clean, geometric sans-serif (e.g., Avant-Garde, Century Gothic), treated as a structural element within the composition."),
+    builtInStyle('Retro Script', "Channel a 1970s retro vibe with a modern twist. The centerpiece is a bold, flowing script font with exaggerated swashes and a thick, confident weight. Think funky, groovy, and highly stylized. Use a classic 70s color palette: burnt orange, avocado green, mustard yellow, and cream. The design can have a slightly distressed, screen-printed texture to feel authentic. Incorporate subtle supporting elements like sparkles, stars, or soft stripes that enhance the typography without cluttering it. The mood is playful, nostalgic, and confident."),
+    builtInStyle('Vintage Engraving', "Emulate a classic, hand-carved woodcut or steel engraving style. The design must be monochrome (black on a transparent background). Use intricate, high-detail linework, cross-hatching, and stippling to create a sense of texture, depth, and craftsmanship. The final asset should look like a lost illustration from a 19th-century book or a classic artisanal logo. Typography must be a timeless serif font with character, like Garamond or a Caslon-style face."),
+    builtInStyle('Watercolor Botanical', "Create a soft, organic design featuring delicate, hand-painted watercolor illustrations of flowers, leaves, or other natural elements. Colors should be translucent, with soft edges and beautiful blending, as if painted on cotton paper. The composition should feel airy and natural. Typography must be an elegant, light script or a refined serif font that complements the artistic, hand-painted aesthetic."),
+    builtInStyle('Cosmic Doodle', "A whimsical, imaginative hand-drawn style that looks like it came from a professional artist's sketchbook. Think intricate, charming doodles of stars, planets, moons, and constellations with a playful, friendly feel. Use a consistent, clean line weight. The typography should be a unique, quirky, handwritten font that is perfectly integrated into the celestial doodles. The style is creative, dreamy, and full of wonder."),
+    builtInStyle('Art Deco', "An elegant, glamorous, and symmetrical design inspired by the roaring 1920s. Use strong, sharp geometric lines, sunburst patterns, and a sense of luxury and order. The color palette should be bold and high-contrast, incorporating metallic gold or silver accents. The typography is CRITICAL: it must be a distinctive Art Deco-style font—tall, geometric, highly stylized, and perfectly centered to create a commanding presence (e.g., Poiret One, Mostra Nuova)."),
+    builtInStyle('Cyberpunk Glitch', "A futuristic, high-tech design with a deliberate glitch art aesthetic. Use a vibrant neon color palette (electric pinks, blues, purples) against a dark core. Incorporate digital distortion effects like scan lines, pixelation, chromatic aberration, and displaced elements. The typography should be a blocky, digital, or futuristic font that has a complementary glitch effect applied to it. The vibe is edgy, modern, and energetic."),
+];
+
+export const DEFAULT_STYLE_ID = BUILT_IN_STYLES[0].id;
+
+/**
+ * Custom styles, oldest first so new ones are added to the end of the list.
+ */
+export const listCustomStyles = async (): Promise<StylePreset[]> => {
+    const styles = await getAllRecords<StylePreset>('styles');
+    return styles.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Insert or update a custom style, stamping `updatedAt`.
+ */
+export const saveStyle = (style: StylePreset): Promise<StylePreset> =>
+    putRecord('styles', { ...style, isBuiltIn: false, updatedAt: Date.now() });
+
+export const deleteStyle = (id: string): Promise<void> => deleteRecord('styles', id);
+
+export const createStyle = (name: string): StylePreset => ({
+    id: createId(),
+    name,
+    prompt: '',
+    palette: [],
+    fontGuidance: '',
+    referenceImages: [],
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+});
+
+/**
+ * An editable copy of any style, built-in or custom.
+ */
+export const cloneStyle = (style: StylePreset, name: string): StylePreset => ({
+    ...style,
+    id: createId(),
+    name,
+    isBuiltIn: false,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+});
+
+/**
+ * Look up a style by ID, falling back to the default built-in when it has been deleted.
+ */
+export const resolveStyle = (id: string, styles: StylePreset[]): StylePreset =>
+    styles.find(s => s.id === id) ?? BUILT_IN_STYLES[0];
+
+/**
+ * A name based on `base` that no existing style uses.
+ */
+export const getUniqueStyleName = (base: string, styles: StylePreset[]): string => {
+    const names = new Set(styles.map(s => s.name.toLowerCase()));
+    if (!names.has(base.toLowerCase())) return base;
+    for (let i = 2; ; i++) {
+        const name = `${base} ${i}`;
+        if (!names.has(name.toLowerCase())) return name;
+    }
+};
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { findBlockedTerms } from './trademarkService';
+
+describe('findBlockedTerms', () => {
+    it('matches whole words regardless of case', () => {
+        expect(findBlockedTerms('Resting GRINCH face', ['Grinch'])).toEqual(['Grinch']);
+        expect(findBlockedTerms('Grinchy vibes', ['Grinch'])).toEqual([]);
+    });
+
+    it('ignores punctuation in the text and in the terms', () => {
+        expect(findBlockedTerms('A Dr. Seuss classic', ['Dr Seuss'])).toEqual(['Dr Seuss']);
+        expect(findBlockedTerms('Ice-cold Coca-Cola', ['Coca Cola'])).toEqual(['Coca Cola']);
+        expect(findBlockedTerms("Disney's finest", ['Disney'])).toEqual(['Disney']);
+        expect(findBlockedTerms('Merry Swiftmas, y’all', ['Merry-Swiftmas'])).toEqual(['Merry-Swiftmas']);
+    });
+
+    it('ignores accents', () => {
+        expect(findBlockedTerms('Pokémon trainer', ['Pokemon'])).toEqual(['Pokemon']);
+    });
+
+    it('skips blank entries and returns terms trimmed', () => {
+        expect(findBlockedTerms('Star Wars day', ['', '  ', ' Star Wars '])).toEqual(['Star Wars']);
+        expect(findBlockedTerms('Anything at all', ['.'])).toEqual([]);
+    });
+});
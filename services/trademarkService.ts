@@ -0,0 +1,82 @@
+import type { ProductConcept, ListingCopy, RiskLevel, RiskFinding, RiskScreening } from '../types';
+import { assessTrademarkRisk } from './geminiService';
+import { isAbortError } from './aiScheduler';
+import type { AiCallOptions } from './aiProvider';
+
+// Starting point for the blocklist kept in settings: brands, characters and phrases that are
+// registered trademarks or have had listings taken down.
+export const DEFAULT_TRADEMARK_BLOCKLIST = [
+    'Disney', 'Mickey Mouse', 'Minnie Mouse', 'Pixar', 'Marvel', 'Star Wars', 'Harry Potter', 'Hogwarts',
+    'Grinch', 'Dr Seuss', 'Snoopy', 'Charlie Brown', 'Hello Kitty', 'Pokemon', 'Nintendo', 'Barbie', 'NFL',
+    'NBA', 'Coca Cola', 'Nike', 'Taylor Swift', 'Swiftie', 'Bluey', 'Sesame Street', 'Looney Tunes',
+    'Elf on the Shelf', 'Lululemon', 'Hakuna Matata', 'Just Do It', 'Merry Swiftmas', 'Resting Grinch Face',
+];
+
+const RISK_ORDER: RiskLevel[] = ['low', 'medium', 'high'];
+
+// Case, accents and punctuation don't change what a phrase says: "Dr. Seuss" is "Dr Seuss"
+// and "Pokémon" is "Pokemon".
+const normalize = (text: string): string =>
+    text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Blocklist phrases that appear in `text` as whole words, ignoring case, accents and punctuation.
+ * Blank entries are skipped.
+ */
+export const findBlockedTerms = (text: string, blocklist: string[]): string[] => {
+    const words = ` ${normalize(text)} `;
+    return blocklist
+        .map(term => term.trim())
+        .filter(term => {
+            const normalized = normalize(term);
+            return normalized && words.includes(` ${normalized} `);
+        });
+};
+
+export const getConceptRiskSubject = (concept: ProductConcept): string =>
+    `Title: ${concept.conceptTitle}\nSlogan: ${concept.displayText}`;
+
+export const getListingRiskSubject = (concept: ProductConcept, listingCopy: ListingCopy): string =>
+    `Slogan: ${concept.displayText}\nTitle: ${listingCopy.title}\nTags: ${listingCopy.tags.join(', ')}`;
+
+/**
+ * Screen each subject against the blocklist and ask the AI for a risk assessment. A blocklist
+ * match is always high risk. If the AI check fails, the blocklist result stands and the item is
+ * flagged so the seller knows only half the check ran.
+ */
+export const screenForRisk = async (subjects: Record<string, string>, blocklist: string[], options: AiCallOptions = {}): Promise<Record<string, RiskScreening>> => {
+    const ids = Object.keys(subjects);
+    let assessments: Record<string, { level: RiskLevel; explanation: string }> = {};
+    let aiError: string | null = null;
+    try {
+        assessments = await assessTrademarkRisk(ids.map(id => ({ id, text: subjects[id] })), options);
+    } catch (e) {
+        if (isAbortError(e)) throw e;
+        aiError = e instanceof Error ? e.message : String(e);
+    }
+
+    return Object.fromEntries(ids.map(id => {
+        const findings: RiskFinding[] = findBlockedTerms(subjects[id], blocklist).map(term => ({
+            source: 'blocklist',
+            level: 'high',
+            term,
+            explanation: `"${term}" is on your trademark blocklist.`,
+        }));
+        const assessment = assessments[id];
+        if (aiError) {
+            findings.push({ source: 'ai', level: 'medium', explanation: `The AI risk check failed (${aiError}), so only the blocklist was checked.` });
+        } else if (assessment && assessment.level !== 'low') {
+            findings.push({ source: 'ai', level: assessment.level, explanation: assessment.explanation });
+        }
+        const level = findings.reduce<RiskLevel>((max, f) => RISK_ORDER.indexOf(f.level) > RISK_ORDER.indexOf(max) ? f.level : max, 'low');
+        return [id, { level, findings, subject: subjects[id], screenedAt: Date.now() }];
+    }));
+};
+
+export const isRiskBlocked = (screening?: RiskScreening): boolean =>
+    screening?.level === 'high' && !screening.override;
+
+export const overrideRisk = (screening: RiskScreening, reason: string): RiskScreening => ({
+    ...screening,
+    override: { reason, overriddenAt: Date.now() },
+});
@@ -1,10 +1,134 @@
 
 export interface ProductConcept {
+  id: string;
   conceptTitle: string;
-  displayText: string;
+  displayText: string; // May contain placeholders like {name} when the concept is personalized
   fusion: string[];
   vision: string;
   whyItWorks: string;
+  personalization?: Personalization;
+  riskScreening?: RiskScreening; // Undefined for concepts created before screening existed
+  scores?: ConceptScores; // Undefined for concepts created before scoring existed
+  lineage?: ConceptLineage; // Undefined for concepts from a fresh ideation
+  // The combination the concept was ideated for. Undefined on older concepts, which use the project's.
+  holiday?: string;
+  style?: DesignStyle;
+  productType?: ProductType;
+}
+
+// How a brainstormed concept was made: more like one concept, a remix of two, or steered by text alone.
+export type ConceptOrigin = 'similar' | 'remix' | 'steer';
+
+export interface ConceptLineage {
+  kind: ConceptOrigin;
+  parents: { id: string; title: string }[]; // Titles are kept so the lineage reads after a parent is gone
+  steering?: string;
+}
+
+// How a concept rates on one criterion, from 1 to 10, and why.
+export interface ConceptScore {
+  score: number;
+  rationale: string;
+}
+
+export type ScoreCriterion = 'trendFit' | 'personalization' | 'giftability' | 'saturation' | 'thumbnailLegibility';
+
+export type AgeBand = 'Kids' | 'Teens' | '18-24' | '25-34' | '35-44' | '45-54' | '55+';
+
+// Saturation is how crowded the niche already is, so a low score is the good one.
+export type ConceptScores = Record<ScoreCriterion, ConceptScore> & {
+  ageBand: { band: AgeBand; rationale: string }; // The buyers it appeals to most
+};
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+// One reason a concept or listing may infringe a trademark or copyright.
+export interface RiskFinding {
+  source: 'blocklist' | 'ai';
+  level: RiskLevel;
+  explanation: string;
+  term?: string; // The blocklist phrase that matched
+}
+
+// A seller's decision to go ahead despite the risk, kept for the record.
+export interface RiskOverride {
+  reason: string;
+  overriddenAt: number;
+}
+
+// High risk blocks a concept or listing until it is overridden; medium risk only flags it.
+export interface RiskScreening {
+  level: RiskLevel;
+  findings: RiskFinding[];
+  subject: string; // The text that was screened, so edits trigger a new screening
+  screenedAt: number;
+  override?: RiskOverride;
+}
+
+// One buyer-supplied value in a personalized slogan.
+export interface PersonalizationField {
+  key: string; // Placeholder name without braces, e.g. "name"
+  label: string;
+  maxLength: number;
+  sample: string; // Used for previews and mockups
+}
+
+// How the personalized text is drawn over the text-free art. Positions and size are fractions
+// of the art's width and height.
+export interface TextLayer {
+  font: string; // Google Fonts family
+  color: string;
+  outlineColor?: string;
+  size: number; // Font size as a fraction of the art width
+  x: number;
+  y: number;
+}
+
+export interface Personalization {
+  fields: PersonalizationField[];
+  textLayer: TextLayer;
+}
+
+// When an occasion falls each year. Months are 1-12; weekdays are 0 (Sunday) to 6.
+// `nth` counts from 1, or -1 for the last such weekday of the month.
+export type OccasionDate =
+  | { kind: 'fixed'; month: number; day: number }
+  | { kind: 'weekday'; month: number; weekday: number; nth: number }
+  | { kind: 'easter'; offsetDays: number }
+  | { kind: 'year-round' };
+
+export interface Occasion {
+  id: string;
+  name: string;
+  date: OccasionDate;
+  leadTimeDays: number; // Production plus shipping; orders after this many days before the date arrive late
+  sellingWindowDays: number; // How long before the last order date shoppers start buying
+}
+
+export type ForgeTiming = 'forge-now' | 'upcoming' | 'later' | 'year-round';
+
+export interface OccasionSchedule {
+  occasion: Occasion;
+  timing: ForgeTiming;
+  date?: Date; // Next occurrence; absent for year-round occasions
+  forgeFrom?: Date; // Listings should be live from here...
+  orderBy?: Date; // ...until the last order date that still arrives in time
+}
+
+export interface BlueprintRevision {
+  id: string;
+  content: string;
+  createdAt: number;
+  note?: string;
+}
+
+// A market-strategy document the AI grounds its ideas and copy in.
+export interface Blueprint {
+  id: string;
+  name: string;
+  revisions: BlueprintRevision[]; // Oldest first; the last one is in use
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface ListingCopy {
@@ -12,17 +136,54 @@ export interface ListingCopy {
   description: string;
   variations: string[];
   tags: string[];
+  personalizationInstructions?: string; // Shown to buyers of personalized products
+  personalizationCharLimit?: number;
+}
+
+// Listing copy localized for another Etsy market.
+export interface LocalizedListing {
+  locale: string; // Language code, e.g. "de"
+  listingCopy: ListingCopy;
+  displayText?: string; // Localized slogan, when a localized design variant is wanted
+  designUrl?: string; // Print-ready design with the localized slogan, once rendered
 }
 
-export type DesignStyle =
-  | 'Minimalist Vector'
-  | 'Geometric Modern'
-  | 'Retro Script'
-  | 'Vintage Engraving'
-  | 'Watercolor Botanical'
-  | 'Cosmic Doodle'
-  | 'Art Deco'
-  | 'Cyberpunk Glitch';
+// Listing fields that can be rewritten on their own, and how.
+export type RewritableListingField = 'title' | 'description' | 'tags';
+export type ListingRewriteMode = 'shorter' | 'funnier' | 'more-keywords' | 'different-audience';
+
+export type ListingViolationCode =
+  | 'title-too-long'
+  | 'title-characters'
+  | 'title-repeated-symbol'
+  | 'tag-count'
+  | 'tag-too-long'
+  | 'tag-duplicate'
+  | 'tag-characters'
+  | 'risky-term'; // Trademarked names and claims Etsy bans
+
+// An Etsy listing rule the copy breaks.
+export interface ListingViolation {
+  code: ListingViolationCode;
+  field: 'title' | 'description' | 'tags';
+  message: string;
+  tag?: string; // The offending tag, for tag violations
+}
+
+// ID of a StylePreset. Built-in presets use their name as ID.
+export type DesignStyle = string;
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  prompt: string; // Deep-dive art direction
+  palette: string[]; // Hex colors the design is limited to; empty means no constraint
+  fontGuidance: string;
+  referenceImages: string[]; // Data URLs sent alongside the prompt
+  isBuiltIn?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
 
 export type ProductType = 
   | 'Sweatshirt' 
@@ -37,11 +198,164 @@ export type AppStep =
   | 'CONFIG'
   | 'IDEATION'
   | 'DESIGN'
+  | 'PREPARE'
   | 'FINALIZE';
 
+export interface PrintPrepOptions {
+  removeBackground: boolean;
+  backgroundTolerance: number; // 0-255, how far a pixel may be from the detected background color
+  trim: boolean;
+  upscale: boolean;
+}
+
+// Resolution of a prepared design against the print area it is placed on.
+export interface PrintCheck {
+  width: number;
+  height: number;
+  sourceWidth: number; // Trimmed design before upscaling
+  sourceHeight: number;
+  position?: string; // Print area checked; with several placements, the one printing softest
+  printAreaWidth: number;
+  printAreaHeight: number;
+  sourceDpi: number; // Before upscaling
+  outputDpi: number;
+  backgroundRemoved: boolean;
+}
+
+export interface PreparedDesign {
+  cleanUrl: string; // Background removed and trimmed, at source resolution
+  printUrl: string; // Upscaled for the print area
+  options: PrintPrepOptions;
+  check: PrintCheck;
+}
+
+export type DesignVersionSource = 'generate' | 'regenerate' | 'refine';
+
+export interface DesignVersion {
+  id: string;
+  url: string;
+  createdAt: number;
+  source: DesignVersionSource;
+  instruction?: string; // The refine instruction that produced this version
+}
+
+// Every design generated for one concept. The active version is the one carried forward.
+export interface DesignHistory {
+  versions: DesignVersion[];
+  activeVersionId: string;
+}
+
+export interface DesignItem {
+  concept: ProductConcept;
+  url: string; // For personalized concepts, the art with the sample text drawn on
+  artUrl?: string; // Text-free art of a personalized concept
+  productType: ProductType;
+  prepared?: PreparedDesign;
+  mockupShots?: MockupShot[]; // Undefined means the default set of shots
+}
+
+// One mockup to render: a scene, on a product color for scenes that show one.
+export interface MockupShot {
+  sceneId: string;
+  color?: string;
+}
+
+export type MockupStatus = 'pending' | 'done' | 'failed';
+
+export interface ProductMockup extends MockupShot {
+  id: string;
+  status: MockupStatus;
+  url?: string;
+  error?: string;
+}
+
+// Where the design sits on one print area. x/y are the image center as a fraction of the
+// print area; scale is the image width relative to the print area width; angle is in degrees.
+export interface DesignPlacement {
+  position: string;
+  x: number;
+  y: number;
+  scale: number;
+  angle: number;
+}
+
+export interface FinalizedProduct {
+  concept: ProductConcept;
+  designUrl: string;
+  mockupSourceUrl?: string; // Design the mockups are rendered from, when it differs from designUrl
+  artUrl?: string; // Text-free art of a personalized product, for rendering per-order print files
+  mockups: ProductMockup[]; // Each is stored as soon as it finishes, so an interrupted run can resume
+  listingCopy?: ListingCopy; // Undefined until written
+  listingRiskScreening?: RiskScreening; // Screening of the copy as last published or checked
+  localizedListings?: Record<string, LocalizedListing>; // Keyed by locale
+  productType: ProductType;
+  printCheck?: PrintCheck;
+  placements?: DesignPlacement[];
+  targetShopIds?: string[];
+  printifyListings?: PrintifyListing[];
+  printifyUploads?: Record<string, PrintifyImageUploadResponse>; // Keyed by image content hash
+}
+
+// Step 1 selections for ideating every holiday, style and product type combination at once.
+export interface IdeationMatrix {
+  holidays: string[];
+  styles: DesignStyle[];
+  productTypes: ProductType[];
+  conceptsPerCombination: number;
+}
+
+// A saved run of the forge. Everything needed to resume at `step` is stored here,
+// including the base64 data URLs for designs and mockups.
+export interface ForgeProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  step: AppStep;
+  holiday: string; // Occasion name
+  audience?: string; // Niche the designs target, e.g. "nurse"; undefined means a general audience
+  style: DesignStyle;
+  blueprintId?: string; // Undefined means the default blueprint
+  productType: ProductType;
+  personalized?: boolean; // Ideate concepts with buyer-supplied text
+  matrix?: IdeationMatrix; // Undefined when ideating a single combination
+  variations: ProductConcept[];
+  selectedVariations: ProductConcept[];
+  generatedDesigns: Record<string, DesignHistory>; // Keyed by concept ID
+  selectedDesigns: DesignItem[];
+  preparedDesigns?: DesignItem[];
+  finalizedProducts: FinalizedProduct[];
+  usage?: AiUsageRecord[]; // Every AI call made for the project, oldest first
+}
+
 export interface PrintifyShop {
   id: string;
   title: string;
+  salesChannel?: string;
+}
+
+// 'pending' means the publish was sent but Printify has not confirmed it either way yet.
+export type PublishStatus = 'draft' | 'publishing' | 'pending' | 'published' | 'failed';
+
+// Which product fields Printify pushes to the connected sales channel on publish.
+export interface PublishFields {
+  title: boolean;
+  description: boolean;
+  images: boolean;
+  variants: boolean;
+  tags: boolean;
+}
+
+// A product created in one Printify shop from a FinalizedProduct.
+export interface PrintifyListing {
+  shopId: string;
+  shopTitle: string;
+  productId: string;
+  needsRelink?: boolean; // Migrated from a single-shop product; the shop is unknown until re-linked
+  publishStatus?: PublishStatus;
+  publishError?: string;
+  externalUrl?: string;
+  lastCheckedAt?: number;
 }
 
 export interface PrintifyImageUploadResponse {
@@ -54,4 +368,122 @@ export interface PrintifyProductResponse {
   id: string;
   title: string;
   external_id: string;
+  is_locked?: boolean; // True while Printify is pushing the product to the sales channel
+  visible?: boolean;
+  external?: { id: string; handle: string } | null;
+  blueprint_id?: number;
+  print_provider_id?: number;
+  variants?: { id: number; cost: number; price: number; is_enabled: boolean }[]; // Amounts in cents
+}
+
+export interface PrintifyPrintProvider {
+  id: number;
+  title: string;
+}
+
+export interface PrintifyPlaceholder {
+  position: string;
+  width: number;
+  height: number;
+}
+
+export interface PrintifyCatalogVariant {
+  id: number;
+  title: string;
+  options: Record<string, string>;
+  placeholders: PrintifyPlaceholder[];
+  cost?: number; // Production cost in cents, learned from a product created with this variant
+}
+
+// The provider and option values (e.g. color, size) chosen for a ProductType.
+// An option key with no values selected does not filter variants.
+export interface CatalogSelection {
+  blueprintId: number;
+  printProviderId: number;
+  options: Record<string, string[]>;
+}
+
+// A CatalogSelection resolved against the live catalog, ready for product creation.
+export interface ResolvedCatalogProduct {
+  blueprintId: number;
+  printProviderId: number;
+  placement: string;
+  printAreas: PrintifyPlaceholder[]; // Positions every variant offers, at their largest size
+  variants: PrintifyCatalogVariant[];
+}
+
+// How sale prices are derived from production cost for one ProductType. All amounts are in cents.
+export interface PricingRule {
+  targetMarginPercent: number;
+  charmEnding: number | null; // e.g. 99 for $xx.99, null to keep the exact price
+  sizeUpcharge: number; // Estimated extra cost per size step above XL (2XL, 3XL, ...)
+  fallbackCost: number; // Estimated base cost for variants Printify hasn't reported a cost for yet
+}
+
+export interface VariantPrice {
+  variantId: number;
+  title: string;
+  cost: number;
+  price: number;
+  profit: number;
+  marginPercent: number;
+  isEstimatedCost: boolean; // Cost comes from the rule, not from Printify
+}
+
+// The AI jobs the app runs. Each can use its own model.
+export type AiTask = 'ideation' | 'risk' | 'listing' | 'localize' | 'rewrite' | 'tags' | 'design' | 'mockup';
+
+export type AiProviderId = 'gemini' | 'mock';
+
+export interface AiConfig {
+  provider: AiProviderId;
+  models: Partial<Record<AiTask, string>>; // Overrides of the provider's default model per task
+}
+
+// What one AI call consumed, as reported by the provider.
+export interface AiUsage {
+  inputTokens: number;
+  outputTokens: number; // Includes thinking tokens, which are billed as output
+  images: number;
+}
+
+export interface AiUsageRecord extends AiUsage {
+  task: AiTask;
+  model: string;
+  conceptId?: string; // The product the call was made for; undefined for project-wide calls
+  cost: number; // USD, priced when the call was made
+  at: number;
+}
+
+// USD. Token prices are per million tokens.
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  perImage: number;
+}
+
+// How hard the app may drive one model: calls in flight at once, and calls started per minute.
+export interface ModelLimit {
+  concurrency: number;
+  requestsPerMinute: number;
+}
+
+// Long-running work that runs in the background while the app stays usable. Jobs live in
+// memory only; a reload drops them, but their results are saved with the project as they land.
+export type JobKind = 'ideation' | 'design' | 'prepare' | 'mockup' | 'listing' | 'publish';
+
+export type JobStatus = 'queued' | 'running' | 'paused' | 'done' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  label: string;
+  projectId: string; // Where the job's results are written, even if another project is open by then
+  projectName: string;
+  status: JobStatus;
+  done: number;
+  total: number;
+  error?: string;
+  createdAt: number;
+  finishedAt?: number;
 }